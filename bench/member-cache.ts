@@ -0,0 +1,64 @@
+/**
+ * Compares member lookups with and without the member cache on a deep class hierarchy.
+ * Run with `pnpm bench`; pass `--depth=N` and `--iterations=N` to change the workload.
+ */
+import { ReflectionClass } from "../src/index.ts";
+
+const options = Object.fromEntries(
+  process.argv.slice(2).map((arg) => arg.replace(/^--/, '').split('=')).map(([key, value]) => [key, Number(value)])
+);
+const depth = options.depth || 30;
+const iterations = options.iterations || 2000;
+const methodsPerClass = 8;
+
+/**
+ * Builds a chain of `depth` classes, each declaring a few methods and a getter.
+ */
+function buildHierarchy(): Function {
+  let current: Function = class Root { };
+  for (let level = 0; level < depth; level++) {
+    const Parent = current as new () => object;
+    const Level = class extends Parent { };
+    for (let i = 0; i < methodsPerClass; i++) {
+      Object.defineProperty(Level.prototype, `method${level}_${i}`, { value() { }, writable: true, configurable: true });
+    }
+    Object.defineProperty(Level.prototype, `value${level}`, { get() { return level; }, configurable: true });
+    current = Level;
+  }
+  return current;
+}
+
+const Leaf = buildHierarchy() as new () => object;
+const instance = new Leaf();
+
+const scenarios: [string, (reflection: ReflectionClass<object>) => unknown][] = [
+  ['getMethods()', (reflection) => reflection.getMethods()],
+  ['getProperties()', (reflection) => reflection.getProperties()],
+  ['hasMethod() (deepest)', (reflection) => reflection.hasMethod('method0_0')],
+  ['getMethod() (deepest)', (reflection) => reflection.getMethod('method0_0')],
+  ['getProperty() (missing)', (reflection) => reflection.getProperty('missing')],
+];
+
+/**
+ * Runs a scenario on a new reflection per iteration, as a router or serializer would per request.
+ * @returns {number} Operations per second.
+ */
+function measure(run: (reflection: ReflectionClass<object>) => unknown, cache: boolean): number {
+  for (let i = 0; i < 50; i++) run(new ReflectionClass(instance, { cache }));
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) run(new ReflectionClass(instance, { cache }));
+  return iterations / ((performance.now() - start) / 1000);
+}
+
+console.log(`Hierarchy depth ${depth}, ${methodsPerClass} methods per class, ${iterations} iterations\n`);
+const rows = scenarios.map(([name, run]) => {
+  const uncached = measure(run, false);
+  const cached = measure(run, true);
+  return {
+    scenario: name,
+    'uncached ops/s': Math.round(uncached),
+    'cached ops/s': Math.round(cached),
+    speedup: `${(cached / uncached).toFixed(1)}x`,
+  };
+});
+console.table(rows);
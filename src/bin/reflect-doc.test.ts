@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const script = fileURLToPath(new URL('./reflect-doc.ts', import.meta.url));
+const errors = fileURLToPath(new URL('../lib/errors.ts', import.meta.url));
+
+/**
+ * Runs the command with node's type stripping, as the package scripts run TypeScript.
+ */
+function reflectDoc(...args: string[]) {
+  return spawnSync(process.execPath, ['--experimental-strip-types', '--disable-warning=ExperimentalWarning', script, ...args], {
+    encoding: 'utf8',
+    timeout: 30_000,
+  });
+}
+
+describe('reflect-doc', () => {
+  it('should render the classes exported by a module', () => {
+    const result = reflectDoc(errors, '--only', 'ReflectionError,MemberNotFoundError');
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.match(result.stdout, /^classDiagram\n/);
+    assert.match(result.stdout, /  ReflectionError <\|-- MemberNotFoundError\n/);
+    assert.match(result.stdout, /  TypeError <\|-- ReflectionError\n/);
+    assert.doesNotMatch(result.stdout, /NotAClassError/);
+  });
+
+  it('should write to a file', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'reflect-doc-'));
+    try {
+      const output = join(directory, 'errors.md');
+      const result = reflectDoc(errors, '--format=markdown', '-o', output);
+      assert.strictEqual(result.status, 0, result.stderr);
+      assert.strictEqual(result.stdout, '');
+      assert.match(readFileSync(output, 'utf8'), /^## AccessDeniedError\n\nExtends `ReflectionError`\./);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should report usage errors', () => {
+    assert.strictEqual(reflectDoc().status, 2);
+    assert.match(reflectDoc(errors, '--format=svg').stderr, /unknown format "svg"/);
+    const unknown = reflectDoc(errors, '--colour');
+    assert.strictEqual(unknown.status, 2);
+    assert.match(unknown.stderr, /^reflect-doc: Unknown option '--colour'/);
+    assert.match(unknown.stderr, /Usage: reflect-doc <module> \[options\]/);
+    assert.strictEqual(reflectDoc(errors, '--format').status, 2);
+    const missing = reflectDoc(errors, '--only=Nope');
+    assert.strictEqual(missing.status, 1);
+    assert.match(missing.stderr, /does not export a class named Nope/);
+  });
+});
@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+/**
+ * Renders the classes exported by a module as a Mermaid or PlantUML class diagram, or as Markdown API tables.
+ * Installed as the `reflect-doc` command; run `reflect-doc --help` for the options.
+ */
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { ReflectionFunction, renderClasses, type DiagramFormat } from "../index.ts";
+
+const FORMATS: DiagramFormat[] = ['mermaid', 'plantuml', 'markdown'];
+
+const USAGE = `Usage: reflect-doc <module> [options]
+
+Renders the classes exported by a module.
+
+Options:
+  -f, --format <format>  mermaid (default), plantuml or markdown
+  -o, --output <file>    Write to a file instead of standard output
+  --only <names>         Comma-separated export names to render (default: every exported class)
+  --private              Include #private members
+  --symbols              Include symbol-keyed members
+  -h, --help             Show this help
+`;
+
+/**
+ * Runs the command.
+ * @param {string[]} args - The command-line arguments, without the node executable and script.
+ * @returns {Promise<number>} The exit code.
+ */
+async function main(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'mermaid' },
+        output: { type: 'string', short: 'o' },
+        only: { type: 'string' },
+        private: { type: 'boolean', default: false },
+        symbols: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    // Unknown options and missing option values are usage errors
+    process.stderr.write(`reflect-doc: ${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+  const format = values.format as DiagramFormat;
+  if (!FORMATS.includes(format)) {
+    process.stderr.write(`reflect-doc: unknown format "${format}"; expected ${FORMATS.join(', ')}.\n`);
+    return 2;
+  }
+
+  const module: Record<string, unknown> = await import(pathToFileURL(resolve(positionals[0])).href);
+  const only = values.only?.split(',').map((name) => name.trim()).filter(Boolean);
+  const missing = only?.filter((name) => !isClass(module[name])) ?? [];
+  if (missing.length > 0) {
+    process.stderr.write(`reflect-doc: ${positionals[0]} does not export a class named ${missing.join(', ')}.\n`);
+    return 1;
+  }
+  const classes = (only ?? Object.keys(module)).map((name) => module[name]).filter(isClass);
+  if (classes.length === 0) {
+    process.stderr.write(`reflect-doc: ${positionals[0]} does not export any class.\n`);
+    return 1;
+  }
+
+  const output = renderClasses(classes, format, { includePrivate: values.private, includeSymbols: values.symbols });
+  if (values.output) {
+    await writeFile(values.output, output);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+/**
+ * Checks if an exported value is a class (ES5 constructor functions are not rendered).
+ */
+function isClass(value: unknown): value is Function {
+  return typeof value === 'function' && new ReflectionFunction(value).getKind() === 'class';
+}
+
+process.exitCode = await main(process.argv.slice(2)).catch((error: unknown) => {
+  process.stderr.write(`reflect-doc: ${error instanceof Error ? error.message : String(error)}\n`);
+  return 1;
+});
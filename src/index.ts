@@ -1 +1,139 @@
-export { ReflectionClass } from "./lib/reflection.ts";
+export { ReflectionClass, type ConstructorArgs, type InstanceOf, type ReflectionOptions } from "./lib/reflection.ts";
+export { ReflectionFunction, type FunctionKind } from "./lib/reflection-function.ts";
+export { ReflectionMethod, type MethodKind } from "./lib/reflection-method.ts";
+export { ReflectionParameter } from "./lib/reflection-parameter.ts";
+export {
+  ReflectionModule,
+  type ExportKind,
+  type ModuleExport,
+  type ModuleScanOptions,
+} from "./lib/reflection-module.ts";
+export { ReflectionProperty, type PropertyKind } from "./lib/reflection-property.ts";
+export type { MemberKey, MemberListOptions } from "./lib/keys.ts";
+export { MemberQuery, type ReflectionMember } from "./lib/member-query.ts";
+export type { ParsedClassMember, ParsedMemberKind } from "./lib/source.ts";
+export {
+  AccessDeniedError,
+  ClassNotFoundError,
+  InvalidArgumentError,
+  InvalidTargetError,
+  MemberNotFoundError,
+  NotAClassError,
+  NotCallableError,
+  NotInstantiableError,
+  ReadOnlyMemberError,
+  ReflectionError,
+  type ReflectionErrorCode,
+  type ReflectionErrorDetails,
+} from "./lib/errors.ts";
+export {
+  createProxy,
+  isProxy,
+  registerProxy,
+  unwrapProxy,
+  type InspectionIssue,
+  type InspectionIssueReason,
+} from "./lib/inspection.ts";
+export { getOwnTraits, mix, use, type Mixed, type TraitOrigin, type TraitRules } from "./lib/traits.ts";
+export { defineBrand, type BrandCheck } from "./lib/brand.ts";
+export {
+  defineMetadata,
+  deleteMetadata,
+  getAllMetadata,
+  getMetadata,
+  getMetadataKeys,
+  getMetadataMembers,
+  getOwnMetadata,
+  hasMetadata,
+  hasOwnMetadata,
+  Meta,
+  ParamMeta,
+  type MetadataDecoratorContext,
+} from "./lib/metadata.ts";
+export {
+  Contract,
+  ContractError,
+  type ContractMembers,
+  type ContractResult,
+  type ContractShape,
+  type ContractViolation,
+  type ContractViolationReason,
+  type MemberRequirement,
+  type MethodRequirement,
+  type PropertyRequirement,
+} from "./lib/contract.ts";
+export {
+  Guarded,
+  PROPERTY_TYPE,
+  PropertyGuard,
+  Validate,
+  ValidationError,
+  type PropertyType,
+  type PropertyTypes,
+  type ValidationIssue,
+} from "./lib/validation.ts";
+export {
+  dehydrate,
+  FIELD_TYPE,
+  hydrate,
+  identityNaming,
+  snakeCaseNaming,
+  Type,
+  type FieldType,
+  type FieldTypes,
+  type HydrationOptions,
+  type NamingStrategy,
+} from "./lib/hydration.ts";
+export {
+  renderClasses,
+  toMarkdown,
+  toMermaid,
+  toPlantUml,
+  type DiagramFormat,
+  type DiagramOptions,
+} from "./lib/diagram.ts";
+export {
+  ClassWatcher,
+  compareSnapshots,
+  type ClassSnapshot,
+  type MemberChangeType,
+  type MemberSide,
+  type MemberSnapshot,
+  type MutationEvent,
+  type MutationOperation,
+  type SnapshotChange,
+} from "./lib/snapshot.ts";
+export { clone, diff, equals, type CloneOptions, type InstanceChange } from "./lib/structure.ts";
+export {
+  CLASS_ID,
+  findClass,
+  getClassId,
+  registerClass,
+  unregisterClass,
+  type InstanceCheckMode,
+} from "./lib/identity.ts";
+export {
+  Container,
+  getDependencies,
+  Inject,
+  INJECT,
+  ResolutionError,
+  type Lifetime,
+  type Provider,
+  type Token,
+} from "./lib/container.ts";
+export {
+  Interceptor,
+  type InterceptorHooks,
+  type InvocationContext,
+  type MethodSelector,
+} from "./lib/interceptor.ts";
+export {
+  diffSchemas,
+  SCHEMA_VERSION,
+  type ClassSchema,
+  type MemberSchemas,
+  type MethodSchema,
+  type PropertySchema,
+  type SchemaChange,
+} from "./lib/schema.ts";
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import * as vm from "node:vm";
+import { ReflectionClass } from "./reflection.ts";
+import { defineBrand, getBrandCheck } from "./brand.ts";
+
+class Token {
+  #brand = true;
+  static {
+    defineBrand(this, (value) => #brand in value);
+  }
+}
+
+class RefreshToken extends Token {
+  #refresh = true;
+  static {
+    defineBrand(this, (value) => #refresh in value);
+  }
+}
+
+class Plain { }
+
+describe('Brands', () => {
+  describe('defineBrand()', () => {
+    it('should store a brand check on the class only', () => {
+      assert.strictEqual(typeof getBrandCheck(Token), 'function');
+      assert.strictEqual(getBrandCheck(Plain), null);
+      assert.deepStrictEqual(Object.keys(Token), []);
+    });
+
+    it('should throw TypeError when redefining a brand or passing no check', () => {
+      assert.throws(() => defineBrand(Token, () => true), /Token already defines a brand\./);
+      assert.throws(() => defineBrand(Plain, null as any), TypeError);
+    });
+  });
+
+  describe('ReflectionClass#hasBrand()', () => {
+    const reflectToken = new ReflectionClass(Token);
+
+    it('should recognize instances constructed by the class', () => {
+      assert.ok(reflectToken.isBranded());
+      assert.strictEqual(reflectToken.hasBrand(new Token()), true);
+      assert.strictEqual(reflectToken.hasBrand(new RefreshToken()), true);
+      assert.strictEqual(new ReflectionClass(RefreshToken).hasBrand(new Token()), false);
+    });
+
+    it('should not be fooled by the prototype chain', () => {
+      const fake = Object.create(Token.prototype);
+      assert.ok(fake instanceof Token);
+      assert.strictEqual(reflectToken.hasBrand(fake), false);
+
+      const moved = new Token();
+      Object.setPrototypeOf(moved, vm.runInNewContext('Object.prototype'));
+      assert.strictEqual(moved instanceof Token, false);
+      assert.strictEqual(reflectToken.hasBrand(moved), true);
+    });
+
+    it('should recognize instances created in another realm', () => {
+      const instance = vm.runInNewContext('new Token()', { Token });
+      assert.strictEqual(reflectToken.hasBrand(instance), true);
+      assert.strictEqual(reflectToken.hasBrand(vm.runInNewContext('({})')), false);
+    });
+
+    it('should return false for primitives', () => {
+      assert.strictEqual(reflectToken.hasBrand(null), false);
+      assert.strictEqual(reflectToken.hasBrand('token'), false);
+    });
+
+    it('should work when reflecting an instance', () => {
+      assert.ok(new ReflectionClass(new Token()).hasBrand(new Token()));
+    });
+
+    it('should throw TypeError for classes without a brand', () => {
+      assert.strictEqual(new ReflectionClass(Plain).isBranded(), false);
+      assert.throws(() => new ReflectionClass(Plain).hasBrand(new Plain()), /Plain does not define a brand/);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { InvalidArgumentError } from "./errors.ts";
+
+/**
+ * The key under which a class stores its brand check. Registered with `Symbol.for`, so copies of this
+ * package loaded side by side (or in other realms) find the brands defined through any of them.
+ */
+const BRAND = Symbol.for('@devalade/reflection:brand');
+
+/**
+ * A function checking whether a value carries a class's private brand, e.g. `(value) => #brand in value`.
+ */
+export type BrandCheck = (value: object) => boolean;
+
+/**
+ * Opts a class into brand checks. Private names can only be used inside the class body, so the class
+ * passes a function performing the check, typically from a static initialization block.
+ * Unlike `instanceof`, the check cannot be fooled by prototype manipulation and does not depend on
+ * `Symbol.hasInstance`: only objects constructed by the class carry its private fields.
+ * @example
+ * ```ts
+ * class Token {
+ *   #brand = true;
+ *   static { defineBrand(this, (value) => #brand in value); }
+ * }
+ * new ReflectionClass(Token).hasBrand(value);
+ * ```
+ * @param {Function} type - The class.
+ * @param {BrandCheck} check - The brand check.
+ * @throws {InvalidArgumentError} If the check is not a function or the class already defines a brand.
+ */
+export function defineBrand(type: Function, check: BrandCheck): void {
+  if (typeof type !== 'function' || typeof check !== 'function') {
+    throw new InvalidArgumentError('defineBrand() expects a class and a check function.');
+  }
+  if (Object.hasOwn(type, BRAND)) {
+    throw new InvalidArgumentError(`${type.name || '[Anonymous]'} already defines a brand.`, { target: type.name || '[Anonymous]' });
+  }
+  Object.defineProperty(type, BRAND, { value: check, writable: false, enumerable: false, configurable: false });
+}
+
+/**
+ * Gets the brand check a class defined itself. Brands are not inherited: a subclass check
+ * must not accept instances of the parent class.
+ * @param {Function} type - The class.
+ * @returns {BrandCheck|null} The brand check, or null if the class does not define one.
+ */
+export function getBrandCheck(type: Function): BrandCheck | null {
+  const descriptor = Object.getOwnPropertyDescriptor(type, BRAND);
+  return typeof descriptor?.value === 'function' ? descriptor.value : null;
+}
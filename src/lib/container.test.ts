@@ -0,0 +1,180 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { Container, getDependencies, INJECT, ResolutionError } from "./container.ts";
+import { defineMetadata } from "./metadata.ts";
+
+class Database {
+  url: string;
+  constructor(url: string) {
+    this.url = url;
+  }
+}
+
+class UserRepository {
+  static inject = [Database];
+  db: Database;
+  constructor(db: Database) {
+    this.db = db;
+  }
+}
+
+class RequestContext {
+  id = Math.random();
+}
+
+class UserService {
+  users: UserRepository;
+  context: RequestContext;
+  retries: number;
+  constructor(users: UserRepository, context: RequestContext, retries = 3) {
+    this.users = users;
+    this.context = context;
+    this.retries = retries;
+  }
+}
+defineMetadata(INJECT, UserRepository, UserService, undefined, 0);
+defineMetadata(INJECT, RequestContext, UserService, undefined, 1);
+
+function createContainer(): Container {
+  return new Container()
+    .register('database.url', { useValue: 'postgres://localhost' })
+    .register(Database, { useFactory: (container) => new Database(container.resolve<string>('database.url')), lifetime: 'singleton' })
+    .register(UserRepository, 'singleton')
+    .register(RequestContext, 'scoped')
+    .register(UserService);
+}
+
+describe('Container', () => {
+  it('should construct classes with their declared dependencies', () => {
+    const service = createContainer().resolve(UserService);
+    assert.ok(service instanceof UserService);
+    assert.ok(service.users.db instanceof Database);
+    assert.strictEqual(service.users.db.url, 'postgres://localhost');
+    assert.strictEqual(service.retries, 3);
+  });
+
+  it('should list the dependencies of a class', () => {
+    assert.deepStrictEqual(getDependencies(UserService), [
+      { name: 'users', token: UserRepository },
+      { name: 'context', token: RequestContext },
+      { name: 'retries', token: undefined },
+    ]);
+    assert.deepStrictEqual(getDependencies(UserRepository), [{ name: 'db', token: Database }]);
+  });
+
+  it('should only inherit tokens along with the constructor', () => {
+    class Logger { }
+    class BaseRepository {
+      static inject = [Database];
+      db: Database;
+      constructor(db: Database) {
+        this.db = db;
+      }
+    }
+    class AuditRepository extends BaseRepository {
+      logger: Logger;
+      constructor(logger: Logger) {
+        super(new Database('audit://'));
+        this.logger = logger;
+      }
+    }
+    class CachedRepository extends BaseRepository { }
+    class TracedRepository extends UserService {
+      constructor(users: UserRepository, context: RequestContext) {
+        super(users, context);
+      }
+    }
+
+    assert.deepStrictEqual(getDependencies(CachedRepository), [{ name: 'db', token: Database }]);
+    assert.throws(() => getDependencies(AuditRepository), /Cannot resolve parameter logger of AuditRepository/);
+    assert.throws(() => getDependencies(TracedRepository), /Cannot resolve parameter users of TracedRepository/);
+
+    defineMetadata(INJECT, Logger, AuditRepository, undefined, 0);
+    const container = createContainer().register(Logger).register(AuditRepository);
+    assert.ok(container.resolve(AuditRepository).logger instanceof Logger);
+  });
+
+  it('should honour lifetimes', () => {
+    const container = createContainer();
+    const first = container.resolve(UserService);
+    const second = container.resolve(UserService);
+    assert.notStrictEqual(first, second);
+    assert.strictEqual(first.users, second.users);
+    assert.strictEqual(first.context, second.context);
+
+    const scope = container.createChild();
+    const scoped = scope.resolve(UserService);
+    assert.strictEqual(scoped.users, first.users);
+    assert.notStrictEqual(scoped.context, first.context);
+    assert.strictEqual(scope.resolve(RequestContext), scoped.context);
+    assert.notStrictEqual(container.createChild().resolve(RequestContext), scoped.context);
+  });
+
+  it('should let child containers override providers', () => {
+    const container = createContainer();
+    const child = container.createChild().register('database.url', { useValue: 'sqlite::memory:' });
+    assert.strictEqual(child.getParent(), container);
+    assert.strictEqual(child.resolve('database.url'), 'sqlite::memory:');
+    assert.strictEqual(container.resolve('database.url'), 'postgres://localhost');
+    assert.strictEqual(child.has(UserService), true);
+    assert.strictEqual(container.has('cache'), false);
+  });
+
+  it('should resolve abstract tokens to registered classes', () => {
+    abstract class Clock {
+      abstract now(): number;
+    }
+    class FixedClock extends Clock {
+      now(): number { return 0; }
+    }
+    const clock = new Container().register(Clock, { useClass: FixedClock }).resolve(Clock);
+    assert.ok(clock instanceof FixedClock);
+  });
+
+  it('should report missing providers and undeclared parameters with the resolution path', () => {
+    assert.throws(() => new Container().register(UserRepository).resolve(UserRepository), (error: unknown) => {
+      assert.ok(error instanceof ResolutionError);
+      assert.ok(error instanceof TypeError);
+      assert.strictEqual(error.message, 'No provider for Database (resolving UserRepository -> Database)');
+      assert.deepStrictEqual(error.path, [UserRepository, Database]);
+      assert.strictEqual(error.token, Database);
+      return true;
+    });
+    assert.throws(() => new Container().register(Database).resolve(Database), {
+      name: 'ResolutionError',
+      message: 'Cannot resolve parameter url of Database: declare its token with Inject() or a static inject list (resolving Database)',
+    });
+  });
+
+  it('should detect circular dependencies', () => {
+    class Chicken {
+      static inject: Function[] = [];
+      constructor(egg: unknown) { }
+    }
+    class Egg {
+      static inject = [Chicken];
+      constructor(chicken: Chicken) { }
+    }
+    Chicken.inject = [Egg];
+    const container = new Container().register(Chicken).register(Egg);
+    assert.throws(() => container.resolve(Chicken), {
+      name: 'ResolutionError',
+      message: 'Circular dependency (resolving Chicken -> Egg -> Chicken)',
+    });
+    // The resolution state is reset after an error
+    assert.throws(() => container.resolve(Egg), { message: 'Circular dependency (resolving Egg -> Chicken -> Egg)' });
+  });
+
+  it('should not inject scoped services into singletons', () => {
+    const container = createContainer().register(UserService, 'singleton');
+    assert.throws(() => container.resolve(UserService), {
+      name: 'ResolutionError',
+      message: 'RequestContext is scoped and cannot be injected into singleton UserService (resolving UserService -> RequestContext)',
+    });
+  });
+
+  it('should reject invalid registrations', () => {
+    assert.throws(() => new Container().register('url' as any), /only classes can be registered on their own/);
+    assert.throws(() => new Container().register(Database, 'forever' as any), /Invalid lifetime for Database: forever/);
+  });
+});
@@ -0,0 +1,331 @@
+import { InvalidArgumentError, ReflectionError } from "./errors.ts";
+import * as metadata from "./metadata.ts";
+import { ReflectionClass } from "./reflection.ts";
+import { declaresConstructor } from "./source.ts";
+
+/**
+ * Identifies a dependency: a class, or a string or symbol for values without a class of their own.
+ */
+export type Token<T = unknown> = (abstract new (...args: any[]) => T) | string | symbol;
+
+/**
+ * How long a resolved instance is reused:
+ * - `transient`: a new instance for every resolution;
+ * - `singleton`: one instance, shared by the container the provider is registered in and its children;
+ * - `scoped`: one instance per container, so each child container (scope) gets its own.
+ */
+export type Lifetime = 'transient' | 'singleton' | 'scoped';
+
+/**
+ * Describes how a token is resolved: by constructing a class, returning a value, or calling a factory.
+ */
+export type Provider<T = unknown> =
+  | { useClass: new (...args: any[]) => T; lifetime?: Lifetime }
+  | { useValue: T }
+  | { useFactory: (container: Container) => T; lifetime?: Lifetime };
+
+/**
+ * The metadata key under which the tokens of constructor parameters are stored.
+ */
+export const INJECT = Symbol('reflection:inject');
+
+/**
+ * Decorator declaring the token injected into a constructor parameter. Decorates the class,
+ * since standard decorators cannot be applied to parameters (see `ParamMeta`).
+ * Without decorators, declare a static `inject` list instead.
+ * @example
+ * ```ts
+ * @Inject(0, Database)
+ * @Inject(1, 'config')
+ * class UserRepository {
+ *   constructor(db: Database, config: Config) {}
+ * }
+ * ```
+ * @param {number} index - The zero-based parameter index.
+ * @param {Token} token - The token to inject.
+ * @returns A standard class decorator.
+ */
+export function Inject(index: number, token: Token) {
+  return metadata.ParamMeta(index, INJECT, token);
+}
+
+/**
+ * A provider registered in a container, with its lifetime resolved.
+ */
+interface Registration {
+  provider: Provider;
+  lifetime: Lifetime;
+  /** The container the provider is registered in, which holds its singleton. */
+  owner: Container;
+}
+
+/**
+ * A token being resolved, with the lifetime of its provider.
+ */
+interface Frame {
+  token: Token;
+  lifetime: Lifetime;
+}
+
+/**
+ * The tokens being resolved, outermost first. Resolution is synchronous, so a single stack covers
+ * nested `resolve()` calls, including those made by factories and across containers.
+ */
+const resolving: Frame[] = [];
+
+/**
+ * Formats a token for messages: the class name, the string, or the symbol.
+ */
+function formatToken(token: Token): string {
+  if (typeof token === 'function') return token.name || '[Anonymous]';
+  return typeof token === 'symbol' ? token.toString() : token;
+}
+
+/**
+ * Gets the tokens being resolved, ending with the given class unless it is already the innermost token
+ * (it is not when a class is registered under another token).
+ */
+function resolutionPath(token: Token): Token[] {
+  const path = resolving.map((frame) => frame.token);
+  return path[path.length - 1] === token ? path : [...path, token];
+}
+
+/**
+ * @class ResolutionError
+ * @description Thrown when a token cannot be resolved: it has no provider, a constructor parameter has
+ * no declared token, dependencies form a cycle, or a singleton depends on a scoped service.
+ */
+export class ResolutionError extends ReflectionError {
+  /**
+   * @type {Token}
+   * The token that could not be resolved.
+   */
+  token: Token;
+
+  /**
+   * @type {Token[]}
+   * The tokens being resolved when the error occurred, outermost first, ending with `token`.
+   */
+  path: Token[];
+
+  /**
+   * Creates an instance of ResolutionError.
+   * @param {string} reason - Why the token could not be resolved.
+   * @param {Token[]} path - The resolution path, ending with the failing token.
+   */
+  constructor(reason: string, path: Token[]) {
+    super('ERR_UNRESOLVED_DEPENDENCY', `${reason} (resolving ${path.map(formatToken).join(' -> ')})`, {
+      target: formatToken(path[path.length - 1]),
+    });
+    this.name = 'ResolutionError';
+    this.token = path[path.length - 1];
+    this.path = path;
+  }
+}
+
+/**
+ * @class Container
+ * @description An inversion-of-control container. Classes declare the tokens of their constructor
+ * parameters with `Inject` or a static `inject` list, and the container constructs them with their
+ * dependencies. Child containers inherit the providers of their parent and can override them.
+ * @example
+ * ```ts
+ * class UserService {
+ *   static inject = [UserRepository, 'clock'];
+ *   constructor(private users: UserRepository, private clock: Clock) {}
+ * }
+ *
+ * const container = new Container()
+ *   .register(UserRepository, 'singleton')
+ *   .register(UserService)
+ *   .register('clock', { useValue: systemClock });
+ *
+ * const request = container.createChild().register(RequestContext, 'scoped');
+ * request.resolve(UserService);
+ * ```
+ */
+export class Container {
+  /**
+   * @type {Container|null}
+   * @private
+   * The parent container, whose providers are used for tokens this container does not register.
+   */
+  private _parent: Container | null;
+
+  /**
+   * @type {Map<Token, Registration>}
+   * @private
+   * The providers registered in this container.
+   */
+  private _registrations = new Map<Token, Registration>();
+
+  /**
+   * @type {Map<Registration, unknown>}
+   * @private
+   * The singletons of providers registered in this container, and the scoped instances it resolved.
+   */
+  private _instances = new Map<Registration, unknown>();
+
+  /**
+   * Creates an instance of Container.
+   * @param {Container|null} [parent=null] - The parent container.
+   */
+  constructor(parent: Container | null = null) {
+    this._parent = parent;
+  }
+
+  /**
+   * Registers a provider for a token, replacing one registered for the same token in this container.
+   * A class can be registered on its own, with the lifetime of its instances (transient by default).
+   * @param {Token} token - The token, or the class to register.
+   * @param {Provider|Lifetime} [provider='transient'] - How to resolve the token, or the lifetime of a registered class.
+   * @returns {this} The container, for chaining.
+   * @throws {InvalidArgumentError} If the provider is not valid.
+   */
+  register<T>(token: new (...args: any[]) => T, lifetime?: Lifetime): this;
+  register<T>(token: Token<T>, provider: Provider<T>): this;
+  register(token: Token, provider: Provider | Lifetime = 'transient'): this {
+    if (typeof provider === 'string') {
+      if (typeof token !== 'function') {
+        throw new InvalidArgumentError(`Cannot register ${formatToken(token)} without a provider: only classes can be registered on their own.`);
+      }
+      provider = { useClass: token as new (...args: any[]) => unknown, lifetime: provider };
+    }
+    const lifetime = 'useValue' in provider ? 'singleton' : provider.lifetime ?? 'transient';
+    if (!['transient', 'singleton', 'scoped'].includes(lifetime)) {
+      throw new InvalidArgumentError(`Invalid lifetime for ${formatToken(token)}: ${String(lifetime)}.`);
+    }
+    const registration = { provider, lifetime, owner: this };
+    this._registrations.set(token, registration);
+    return this;
+  }
+
+  /**
+   * Checks if a token can be resolved, from this container or one of its ancestors.
+   * @param {Token} token - The token.
+   * @returns {boolean} True if a provider is registered for the token.
+   */
+  has(token: Token): boolean {
+    return this._registration(token) !== null;
+  }
+
+  /**
+   * Resolves a token, constructing its dependencies first.
+   * @param {Token<T>} token - The token.
+   * @returns {T} The instance or value.
+   * @throws {ResolutionError} If the token or one of its dependencies cannot be resolved, or dependencies form a cycle.
+   */
+  resolve<T>(token: Token<T>): T {
+    const registration = this._registration(token);
+    const path = [...resolving.map((frame) => frame.token), token];
+    if (!registration) {
+      throw new ResolutionError(`No provider for ${formatToken(token)}`, path);
+    }
+    if (resolving.some((frame) => frame.token === token)) {
+      throw new ResolutionError('Circular dependency', path);
+    }
+    const singleton = resolving.find((frame) => frame.lifetime === 'singleton');
+    if (registration.lifetime === 'scoped' && singleton) {
+      throw new ResolutionError(`${formatToken(token)} is scoped and cannot be injected into singleton ${formatToken(singleton.token)}`, path);
+    }
+
+    // Singletons live in the container that registers them, scoped instances in the resolving container
+    const store = registration.lifetime === 'singleton' ? registration.owner : this;
+    if (registration.lifetime !== 'transient' && store._instances.has(registration)) {
+      return store._instances.get(registration) as T;
+    }
+    resolving.push({ token, lifetime: registration.lifetime });
+    try {
+      const instance = store._create(registration.provider);
+      if (registration.lifetime !== 'transient') store._instances.set(registration, instance);
+      return instance as T;
+    } finally {
+      resolving.pop();
+    }
+  }
+
+  /**
+   * Creates a child container: a new scope that inherits the providers of this container.
+   * @returns {Container} The child container.
+   */
+  createChild(): Container {
+    return new Container(this);
+  }
+
+  /**
+   * Gets the parent container.
+   * @returns {Container|null} The parent, or null for a root container.
+   */
+  getParent(): Container | null {
+    return this._parent;
+  }
+
+  /**
+   * Finds the registration of a token in this container or the nearest ancestor.
+   * @param {Token} token - The token.
+   * @returns {Registration|null} The registration, or null if the token is not registered.
+   * @private
+   */
+  private _registration(token: Token): Registration | null {
+    for (let container: Container | null = this; container; container = container._parent) {
+      const registration = container._registrations.get(token);
+      if (registration) return registration;
+    }
+    return null;
+  }
+
+  /**
+   * Runs a provider, resolving constructor dependencies from this container.
+   * @param {Provider} provider - The provider.
+   * @returns {unknown} The created instance or value.
+   * @private
+   */
+  private _create(provider: Provider): unknown {
+    if ('useValue' in provider) return provider.useValue;
+    if ('useFactory' in provider) return provider.useFactory(this);
+    const reflection = new ReflectionClass(provider.useClass);
+    const args = getDependencies(provider.useClass).map((dependency) =>
+      dependency.token === undefined ? undefined : this.resolve(dependency.token)
+    );
+    return reflection.newInstance(...args);
+  }
+}
+
+/**
+ * Lists the dependencies of a class: the token of each constructor parameter, from `Inject` metadata
+ * or the static `inject` list, in parameter order. Parameters with a default value may omit their token
+ * and receive `undefined`; rest parameters are not injected. Tokens declared on a parent class are only used
+ * when the class does not declare its own constructor.
+ * @param {Function} type - The class.
+ * @returns {{name: string, token: Token|undefined}[]} The parameter names and tokens.
+ * @throws {ResolutionError} If a required parameter has no token.
+ */
+export function getDependencies(type: Function): { name: string; token: Token | undefined }[] {
+  const reflection = new ReflectionClass(type);
+  // Tokens of a parent class describe the parent's constructor, so only classes inheriting it inherit them
+  const inherits = !declaresConstructor(type);
+  const inject = inherits
+    ? reflection.getProperty('inject')?.getValue(type)
+    : (Object.hasOwn(type, 'inject') ? (type as any).inject : undefined);
+  const list: unknown[] = Array.isArray(inject) ? inject : [];
+  const parameters = reflection.getConstructorParameters().filter((parameter) => !parameter.isVariadic());
+  const count = Math.max(parameters.length, list.length);
+
+  const dependencies: { name: string; token: Token | undefined }[] = [];
+  for (let index = 0; index < count; index++) {
+    const parameter = parameters[index];
+    const name = parameter?.getName() ?? `#${index}`;
+    const declared = inherits
+      ? reflection.getParameterMetadata(INJECT, index)
+      : metadata.getOwnMetadata(INJECT, type, undefined, index);
+    const token = (declared ?? list[index]) as Token | undefined;
+    if (token === undefined && !parameter?.isOptional()) {
+      throw new ResolutionError(
+        `Cannot resolve parameter ${name} of ${reflection.getName()}: declare its token with Inject() or a static inject list`,
+        resolutionPath(type as Token)
+      );
+    }
+    dependencies.push({ name, token });
+  }
+  return dependencies;
+}
@@ -0,0 +1,142 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { Contract, ContractError } from "./contract.ts";
+
+const Plugin = new Contract('Plugin', {
+  start: { kind: 'method' },
+  stop: { kind: 'method', arity: 1 },
+  id: { kind: 'property', readonly: true },
+  priority: { kind: 'property', optional: true },
+  create: { kind: 'method', static: true },
+});
+
+class GoodPlugin {
+  priority = 1;
+  get id(): string { return 'good'; }
+  start(): void { }
+  stop(timeout: number): void { }
+  static create(): GoodPlugin { return new GoodPlugin(); }
+}
+
+class FieldPlugin {
+  id = 'field';
+  start(): void { }
+  stop(...args: unknown[]): void { }
+  static create(): FieldPlugin { return new FieldPlugin(); }
+}
+
+class BadPlugin {
+  start = 'not a function';
+  get priority(): number { return 0; }
+  stop(): void { }
+  static id = 'static id';
+  create(): void { }
+}
+
+describe('Contract', () => {
+  describe('Checking classes', () => {
+    it('should accept a class satisfying the contract', () => {
+      const result = new ReflectionClass(GoodPlugin).implements(Plugin);
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.contract, 'Plugin');
+      assert.strictEqual(result.target, 'GoodPlugin');
+      assert.deepStrictEqual(result.violations, []);
+    });
+
+    it('should report instance fields it cannot see on a class as unverified', () => {
+      const result = Plugin.check(FieldPlugin);
+      assert.strictEqual(result.valid, true);
+      assert.deepStrictEqual(result.unverified, ['id', 'priority']);
+    });
+
+    it('should treat rest parameters as satisfying any arity', () => {
+      assert.ok(Plugin.check(new FieldPlugin()).valid);
+    });
+
+    it('should list every violation with its reason', () => {
+      const result = Plugin.check(new BadPlugin());
+      assert.strictEqual(result.valid, false);
+      assert.deepStrictEqual(
+        result.violations.map((violation) => [violation.member, violation.reason]),
+        [['start', 'kind'], ['stop', 'arity'], ['id', 'static'], ['priority', 'readonly'], ['create', 'static']]
+      );
+      assert.strictEqual(result.violations[1].message, 'stop: expected at least 1 parameter(s), found 0');
+      assert.strictEqual(result.violations[2].message, 'id: expected property, found static member');
+    });
+
+    it('should report missing members', () => {
+      class Empty { }
+      const result = Plugin.check(Empty);
+      assert.deepStrictEqual(
+        result.violations.map((violation) => [violation.member, violation.reason]),
+        [['start', 'missing'], ['stop', 'missing'], ['create', 'missing']]
+      );
+    });
+
+    it('should report methods where properties are expected', () => {
+      const Named = new Contract('Named', { name: { kind: 'property' } });
+      const result = Named.check({ name() { return 'x'; } });
+      assert.deepStrictEqual(result.violations.map((violation) => violation.reason), ['kind']);
+    });
+
+    it('should not mistake built-in function properties for static members', () => {
+      const Named = new Contract('Named', { name: { kind: 'property' } });
+      assert.deepStrictEqual(Named.check(GoodPlugin).unverified, ['name']);
+      class StaticName { static name = 'custom'; }
+      assert.deepStrictEqual(Named.check(StaticName).violations.map((violation) => violation.reason), ['static']);
+    });
+
+    it('should support symbol-keyed members', () => {
+      const Iterable = new Contract('Iterable', { [Symbol.iterator]: { kind: 'method' } });
+      assert.ok(Iterable.check([]).valid);
+      const result = Iterable.check({});
+      assert.strictEqual(result.violations[0].member, Symbol.iterator);
+      assert.strictEqual(result.violations[0].message, '[Symbol.iterator]: expected method, found nothing');
+    });
+  });
+
+  describe('Assertions and type guards', () => {
+    it('assertImplements should throw a ContractError listing violations', () => {
+      assert.throws(
+        () => new ReflectionClass(BadPlugin).assertImplements(Plugin),
+        (error: unknown) => {
+          assert.ok(error instanceof ContractError);
+          assert.ok(error instanceof TypeError);
+          assert.strictEqual(error.contract, 'Plugin');
+          assert.strictEqual(error.target, 'BadPlugin');
+          assert.strictEqual(error.violations.length, 5);
+          assert.match(error.message, /^BadPlugin does not implement Plugin:\n {2}- start: expected method, found nothing\n(.*\n){3} {2}- create: expected static method, found instance member$/);
+          return true;
+        }
+      );
+    });
+
+    it('assertImplements should pass for valid targets', () => {
+      assert.doesNotThrow(() => new ReflectionClass(new GoodPlugin()).assertImplements(Plugin));
+    });
+
+    it('isImplementedBy should narrow values', () => {
+      const value: unknown = new GoodPlugin();
+      if (Plugin.isImplementedBy(value)) {
+        value.stop(100);
+        assert.strictEqual(value.id, 'good');
+      } else {
+        assert.fail('GoodPlugin should implement Plugin');
+      }
+      assert.strictEqual(Plugin.isImplementedBy(null), false);
+      assert.strictEqual(Plugin.isImplementedBy('plugin'), false);
+    });
+
+    it('isImplementedBy should reject classes', () => {
+      assert.strictEqual(new ReflectionClass(GoodPlugin).implements(Plugin).valid, true);
+      assert.strictEqual(Plugin.isImplementedBy(GoodPlugin), false);
+      assert.strictEqual(Plugin.isImplementedBy(FieldPlugin), false);
+    });
+
+    it('toString should return a descriptive string', () => {
+      assert.strictEqual(Plugin.toString(), 'Contract [Plugin]');
+      assert.deepStrictEqual(Object.keys(Plugin.getMembers()), ['start', 'stop', 'id', 'priority', 'create']);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { ReflectionError } from "./errors.ts";
+import { formatKey, isBuiltinFunctionProperty, type MemberKey } from "./keys.ts";
+import { ReflectionClass } from "./reflection.ts";
+
+/**
+ * @interface MethodRequirement
+ * @description A method a contract requires.
+ */
+export interface MethodRequirement {
+  kind: 'method';
+  /** Minimum number of declared parameters. Rest parameters satisfy any arity. */
+  arity?: number;
+  /** Require a static method instead of an instance method. */
+  static?: boolean;
+  /** Allow the method to be absent; it is still checked when present. */
+  optional?: boolean;
+}
+
+/**
+ * @interface PropertyRequirement
+ * @description A property a contract requires.
+ */
+export interface PropertyRequirement {
+  kind: 'property';
+  /** Only require the property to be readable. Otherwise it must also be writable. */
+  readonly?: boolean;
+  /** Require a static property instead of an instance property. */
+  static?: boolean;
+  /** Allow the property to be absent; it is still checked when present. */
+  optional?: boolean;
+}
+
+/**
+ * A single member requirement.
+ */
+export type MemberRequirement = MethodRequirement | PropertyRequirement;
+
+/**
+ * The members of a contract, keyed by member name or symbol.
+ */
+export type ContractMembers = { readonly [key: string | symbol]: MemberRequirement };
+
+/**
+ * Why a member does not satisfy its requirement.
+ */
+export type ContractViolationReason = 'missing' | 'kind' | 'static' | 'arity' | 'readonly';
+
+/**
+ * @interface ContractViolation
+ * @description A member that is missing or does not match its requirement.
+ */
+export interface ContractViolation {
+  member: MemberKey;
+  reason: ContractViolationReason;
+  expected: string;
+  actual: string;
+  message: string;
+}
+
+/**
+ * @interface ContractResult
+ * @description The outcome of checking a class or instance against a contract.
+ */
+export interface ContractResult {
+  contract: string;
+  target: string;
+  valid: boolean;
+  violations: ContractViolation[];
+  /**
+   * Instance properties that could not be verified because a class (not an instance) was checked:
+   * fields only exist once the constructor has run.
+   */
+  unverified: MemberKey[];
+}
+
+type MemberType<R> = R extends { kind: 'method' } ? (...args: any[]) => unknown : unknown;
+type Flag<R, F extends string> = R extends { [P in F]: true } ? true : false;
+type ShapeKeys<M, Optional, Readonly> = {
+  [K in keyof M]: M[K] extends { static: true }
+    ? never
+    : [Flag<M[K], 'optional'>, Flag<M[K], 'readonly'>] extends [Optional, Readonly] ? K : never;
+}[keyof M];
+
+/**
+ * The instance type described by a contract's members (static members are not part of it).
+ */
+export type ContractShape<M extends ContractMembers> =
+  { -readonly [K in ShapeKeys<M, false, false>]: MemberType<M[K]> } &
+  { -readonly [K in ShapeKeys<M, true, false>]?: MemberType<M[K]> } &
+  { readonly [K in ShapeKeys<M, false, true>]: MemberType<M[K]> } &
+  { readonly [K in ShapeKeys<M, true, true>]?: MemberType<M[K]> };
+
+/**
+ * @class ContractError
+ * @description Thrown when a class or instance does not satisfy a contract.
+ */
+export class ContractError extends ReflectionError {
+  /**
+   * @type {string}
+   * The name of the contract.
+   */
+  contract: string;
+
+  /**
+   * @type {string}
+   * The name of the checked class.
+   */
+  declare target: string;
+
+  /**
+   * @type {ContractViolation[]}
+   * The violations found.
+   */
+  violations: ContractViolation[];
+
+  /**
+   * Creates an instance of ContractError.
+   * @param {ContractResult} result - The failed check result.
+   */
+  constructor(result: ContractResult) {
+    super(
+      'ERR_CONTRACT_VIOLATION',
+      `${result.target} does not implement ${result.contract}:\n` +
+      result.violations.map((violation) => `  - ${violation.message}`).join('\n'),
+      { target: result.target }
+    );
+    this.name = 'ContractError';
+    this.contract = result.contract;
+    this.violations = result.violations;
+  }
+}
+
+/**
+ * @class Contract
+ * @description A runtime-checkable description of the members a class or instance must have.
+ * @example
+ * ```ts
+ * const Plugin = new Contract('Plugin', {
+ *   start: { kind: 'method' },
+ *   stop: { kind: 'method', arity: 1 },
+ *   id: { kind: 'property', readonly: true },
+ * });
+ * new ReflectionClass(MyPlugin).assertImplements(Plugin);
+ * if (Plugin.isImplementedBy(value)) value.stop(1000);
+ * ```
+ */
+export class Contract<const M extends ContractMembers = ContractMembers> {
+  /**
+   * @type {string}
+   * @private
+   * The name of the contract, used in messages.
+   */
+  private _name: string;
+
+  /**
+   * @type {M}
+   * @private
+   * The required members.
+   */
+  private _members: M;
+
+  /**
+   * Creates an instance of Contract.
+   * @param {string} name - The name of the contract.
+   * @param {M} members - The required members.
+   */
+  constructor(name: string, members: M) {
+    this._name = name;
+    this._members = members;
+  }
+
+  /**
+   * Gets the name of the contract.
+   * @returns {string} The contract name.
+   */
+  getName(): string {
+    return this._name;
+  }
+
+  /**
+   * Gets the required members.
+   * @returns {M} The member requirements.
+   */
+  getMembers(): M {
+    return this._members;
+  }
+
+  /**
+   * Checks a class or instance against the contract.
+   * For classes, instance members are looked up on the prototype chain and static members on the class;
+   * for instances, on the instance and its prototype chain, and on its constructor.
+   * @param {object|Function} target - The class or instance to check.
+   * @returns {ContractResult} The detailed result.
+   */
+  check(target: object | Function): ContractResult {
+    const reflection = new ReflectionClass(target);
+    const isClass = reflection.isClass();
+    const constructorFn = reflection.getConstructor();
+    const prototype = reflection.getPrototype();
+    const instanceSide = isClass
+      ? (prototype ? new ReflectionClass(prototype) : null)
+      : reflection;
+    const staticSide = constructorFn ? new ReflectionClass(constructorFn) : null;
+
+    const violations: ContractViolation[] = [];
+    const unverified: MemberKey[] = [];
+    const violate = (member: MemberKey, reason: ContractViolationReason, expected: string, actual: string) => {
+      violations.push({
+        member,
+        reason,
+        expected,
+        actual,
+        message: `${formatKey(member)}: expected ${expected}, found ${actual}`,
+      });
+    };
+
+    for (const key of Reflect.ownKeys(this._members)) {
+      const requirement = this._members[key];
+      const isStatic = requirement.static === true;
+      const side = isStatic ? staticSide : instanceSide;
+      const otherSide = isStatic ? instanceSide : staticSide;
+      const expected = `${isStatic ? 'static ' : ''}${requirement.kind}`;
+
+      const property = side?.getProperty(key) ?? null;
+      if (!property) {
+        const other = otherSide?.getProperty(key);
+        if (other && !(otherSide === staticSide && isBuiltinFunctionProperty(key, other.isEnumerable()))) {
+          violate(key, 'static', expected, `${isStatic ? 'instance' : 'static'} member`);
+        } else if (isClass && !isStatic && requirement.kind === 'property') {
+          unverified.push(key);
+        } else if (!requirement.optional) {
+          violate(key, 'missing', expected, 'nothing');
+        }
+        continue;
+      }
+
+      const method = side!.getMethod(key);
+      if (requirement.kind === 'method') {
+        if (!method) {
+          violate(key, 'kind', expected, `${property.getKind()} property`);
+          continue;
+        }
+        if (requirement.arity !== undefined) {
+          const parameters = method.getParameters();
+          const declared = parameters.length > 0 ? parameters.length : method.getLength();
+          if (!parameters.some((parameter) => parameter.isVariadic()) && declared < requirement.arity) {
+            violate(key, 'arity', `at least ${requirement.arity} parameter(s)`, `${declared}`);
+          }
+        }
+      } else {
+        if (method) {
+          violate(key, 'kind', expected, 'method');
+          continue;
+        }
+        if (!requirement.readonly && !property.isWritable()) {
+          violate(key, 'readonly', 'writable property', 'read-only property');
+        }
+      }
+    }
+
+    return {
+      contract: this._name,
+      target: reflection.getName(),
+      valid: violations.length === 0,
+      violations,
+      unverified,
+    };
+  }
+
+  /**
+   * Asserts that a class or instance satisfies the contract.
+   * @param {object|Function} target - The class or instance to check.
+   * @throws {ContractError} If the contract is not satisfied.
+   */
+  assert(target: object | Function): void {
+    const result = this.check(target);
+    if (!result.valid) {
+      throw new ContractError(result);
+    }
+  }
+
+  /**
+   * Type guard checking that a value is an instance satisfying the contract.
+   * Classes are rejected: the guard narrows to the instance shape, which a class does not have.
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} True if the value is an object satisfying the contract.
+   */
+  isImplementedBy(value: unknown): value is ContractShape<M> {
+    if (value === null || typeof value !== 'object') {
+      return false;
+    }
+    return this.check(value).valid;
+  }
+
+  /**
+   * Returns a string representation of the contract.
+   * @returns {string} A string describing the contract.
+   */
+  toString(): string {
+    return `Contract [${this._name}]`;
+  }
+}
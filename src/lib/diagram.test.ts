@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { renderClasses, toMarkdown, toMermaid, toPlantUml } from "./diagram.ts";
+
+class Shape {
+  static count = 0;
+  name = 'shape';
+  area(): number { return 0; }
+  toString(): string { return this.name; }
+}
+
+class Circle extends Shape {
+  static unit(): Circle { return new Circle(1); }
+  radius: number;
+  #cache: number | null = null;
+  constructor(radius: number) {
+    super();
+    this.radius = radius;
+  }
+  get diameter(): number { return this.radius * 2; }
+  set diameter(value: number) { this.radius = value / 2; }
+  area(): number { return this.#cache ??= Math.PI * this.radius ** 2; }
+  async load(url: string, retries = 3): Promise<void> { }
+  *[Symbol.iterator](): Generator<number> { yield this.radius; }
+}
+
+describe('Diagram', () => {
+  it('should render a Mermaid class diagram', () => {
+    assert.strictEqual(toMermaid([Shape, Circle]), [
+      'classDiagram',
+      '  class Shape {',
+      '    +count$',
+      '    +name',
+      '    +area()',
+      '    +toString() «override»',
+      '  }',
+      '  class Circle {',
+      '    +radius',
+      '    +diameter «get/set»',
+      '    +unit()$',
+      '    +area() «override»',
+      '    +load(url, retries?)',
+      '  }',
+      '  Shape <|-- Circle',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render a PlantUML class diagram with private and symbol-keyed members on request', () => {
+    assert.strictEqual(toPlantUml([Circle], { includePrivate: true, includeSymbols: true }), [
+      '@startuml',
+      'class Circle {',
+      '  +radius',
+      '  -cache',
+      '  +diameter «get/set»',
+      '  {static} +unit()',
+      '  +area() «override»',
+      '  +load(url, retries?)',
+      '  +[Symbol.iterator]()',
+      '}',
+      'Shape <|-- Circle',
+      '@enduml',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render Markdown API tables', () => {
+    assert.strictEqual(toMarkdown([Circle, class Empty { }]), [
+      '## Circle',
+      '',
+      'Extends `Shape`.',
+      '',
+      '| Member | Kind | Side | Notes |',
+      '| --- | --- | --- | --- |',
+      '| `radius` | field | instance |  |',
+      '| `diameter` | accessor | instance | get, set |',
+      '| `unit()` | method | static |  |',
+      '| `area()` | method | instance | overrides `Shape` |',
+      '| `load(url, retries?)` | async method | instance |  |',
+      '',
+      '## Empty',
+      '',
+      'No members.',
+      '',
+    ].join('\n'));
+  });
+
+  it('should escape member names that are not identifiers', () => {
+    class Odd {
+      'label text' = '';
+      ['we ird'](): void { }
+      static ['a(b)'](): void { }
+    }
+    assert.deepStrictEqual(toMermaid([Odd]).split('\n').slice(2, 5), ['    +label_text', '    +a_b_()$', '    +we_ird()']);
+    assert.match(toPlantUml([Odd]), /  \+we_ird\(\)\n/);
+    assert.match(toMarkdown([Odd]), /\| `we ird\(\)` \| method \|/);
+  });
+
+  it('should dispatch on the format', () => {
+    assert.strictEqual(renderClasses([Shape], 'mermaid'), toMermaid([Shape]));
+    assert.strictEqual(renderClasses(new Set([Shape, Shape]), 'markdown'), toMarkdown([Shape]));
+    assert.throws(() => renderClasses([Shape], 'svg' as any), {
+      name: 'InvalidArgumentError',
+      code: 'ERR_INVALID_ARGUMENT',
+      message: 'Unsupported diagram format: svg.',
+    });
+  });
+});
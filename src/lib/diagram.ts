@@ -0,0 +1,287 @@
+import { InvalidArgumentError } from "./errors.ts";
+import { formatKey } from "./keys.ts";
+import { isBuiltinPrototype } from "./identity.ts";
+import { ReflectionClass } from "./reflection.ts";
+import { ReflectionMethod, type MethodKind } from "./reflection-method.ts";
+import { parseClassBody } from "./source.ts";
+
+/**
+ * The output formats of `renderClasses()`: a Mermaid `classDiagram`, a PlantUML class diagram,
+ * or Markdown API tables.
+ */
+export type DiagramFormat = 'mermaid' | 'plantuml' | 'markdown';
+
+/**
+ * @interface DiagramOptions
+ * @description Options accepted by the diagram and documentation renderers.
+ */
+export interface DiagramOptions {
+  /** Include symbol-keyed members (e.g. `Symbol.iterator`). Defaults to false. */
+  includeSymbols?: boolean;
+  /** Include `#private` members, parsed from the class source. Defaults to false. */
+  includePrivate?: boolean;
+}
+
+/**
+ * A member as rendered in diagrams and tables.
+ */
+interface DiagramMember {
+  /** The member name; private names keep their `#`, symbol keys are written as `[description]`. */
+  name: string;
+  kind: 'field' | 'accessor' | 'method';
+  isStatic: boolean;
+  isPrivate: boolean;
+  /** Parameter names of methods, formatted like `describe()` does; null if unknown (private methods). */
+  parameters: string[] | null;
+  /** The kind of a method, or null for fields and accessors. */
+  methodKind: MethodKind | null;
+  getter: boolean;
+  setter: boolean;
+  /** The ancestor declaring the method this one overrides, or null. */
+  overrides: Function | null;
+}
+
+/**
+ * A class as rendered in diagrams and tables.
+ */
+interface DiagramClass {
+  name: string;
+  /** The parent class, or null for classes extending `Object` (or nothing). */
+  parent: Function | null;
+  members: DiagramMember[];
+}
+
+/**
+ * The order of member kinds within a class: fields, then accessors, then methods.
+ */
+const KIND_ORDER = { field: 0, accessor: 1, method: 2 };
+
+/**
+ * Renders classes in one of the supported formats.
+ * @param {Iterable<Function>} classes - The classes to render, in order.
+ * @param {DiagramFormat} format - The output format.
+ * @param {DiagramOptions} [options] - Rendering options.
+ * @returns {string} The diagram or documentation.
+ * @throws {InvalidArgumentError} If the format is not supported.
+ */
+export function renderClasses(classes: Iterable<Function>, format: DiagramFormat, options: DiagramOptions = {}): string {
+  switch (format) {
+    case 'mermaid': return toMermaid(classes, options);
+    case 'plantuml': return toPlantUml(classes, options);
+    case 'markdown': return toMarkdown(classes, options);
+    default: throw new InvalidArgumentError(`Unsupported diagram format: ${String(format)}.`);
+  }
+}
+
+/**
+ * Renders classes as a Mermaid `classDiagram`: members with their visibility (`+` public, `-` private),
+ * static members marked `$`, overrides marked `«override»`, and an inheritance arrow to each parent class.
+ * @param {Iterable<Function>} classes - The classes to render.
+ * @param {DiagramOptions} [options] - Rendering options.
+ * @returns {string} The Mermaid source.
+ */
+export function toMermaid(classes: Iterable<Function>, options: DiagramOptions = {}): string {
+  const lines = ['classDiagram'];
+  const edges: string[] = [];
+  for (const type of collectClasses(classes, options)) {
+    if (type.members.length === 0) {
+      lines.push(`  class ${identifier(type.name)}`);
+    } else {
+      lines.push(`  class ${identifier(type.name)} {`);
+      for (const member of type.members) {
+        lines.push(`    ${memberLine(member)}${member.isStatic ? '$' : ''}`);
+      }
+      lines.push('  }');
+    }
+    if (type.parent) edges.push(`  ${identifier(nameOf(type.parent))} <|-- ${identifier(type.name)}`);
+  }
+  return [...lines, ...edges].join('\n') + '\n';
+}
+
+/**
+ * Renders classes as a PlantUML class diagram, with the same notation as `toMermaid()`
+ * except that static members are marked `{static}`.
+ * @param {Iterable<Function>} classes - The classes to render.
+ * @param {DiagramOptions} [options] - Rendering options.
+ * @returns {string} The PlantUML source, between `@startuml` and `@enduml`.
+ */
+export function toPlantUml(classes: Iterable<Function>, options: DiagramOptions = {}): string {
+  const lines = ['@startuml'];
+  const edges: string[] = [];
+  for (const type of collectClasses(classes, options)) {
+    lines.push(`class ${identifier(type.name)} {`);
+    for (const member of type.members) {
+      lines.push(`  ${member.isStatic ? '{static} ' : ''}${memberLine(member)}`);
+    }
+    lines.push('}');
+    if (type.parent) edges.push(`${identifier(nameOf(type.parent))} <|-- ${identifier(type.name)}`);
+  }
+  return [...lines, ...edges, '@enduml'].join('\n') + '\n';
+}
+
+/**
+ * Renders classes as Markdown: a section per class naming its parent, with a table of the members
+ * the class declares (kind, static or instance side, accessors' getters and setters, and overrides).
+ * @param {Iterable<Function>} classes - The classes to render.
+ * @param {DiagramOptions} [options] - Rendering options.
+ * @returns {string} The Markdown document.
+ */
+export function toMarkdown(classes: Iterable<Function>, options: DiagramOptions = {}): string {
+  const sections = collectClasses(classes, options).map((type) => {
+    const lines = [`## ${type.name}`, ''];
+    if (type.parent) lines.push(`Extends \`${nameOf(type.parent)}\`.`, '');
+    if (type.members.length === 0) {
+      lines.push('No members.');
+      return lines.join('\n');
+    }
+    lines.push('| Member | Kind | Side | Notes |', '| --- | --- | --- | --- |');
+    for (const member of type.members) {
+      const signature = member.kind === 'method' ? `${member.name}(${member.parameters?.join(', ') ?? '…'})` : member.name;
+      const kind = member.methodKind === 'sync' || member.methodKind === null
+        ? member.kind
+        : `${member.methodKind.replace('-', ' ')} method`;
+      const notes = [
+        member.isPrivate ? 'private' : '',
+        member.kind === 'accessor' ? [member.getter ? 'get' : '', member.setter ? 'set' : ''].filter(Boolean).join(', ') : '',
+        member.overrides ? `overrides \`${nameOf(member.overrides)}\`` : '',
+      ].filter(Boolean).join('; ');
+      lines.push(`| \`${escapeCell(signature)}\` | ${kind} | ${member.isStatic ? 'static' : 'instance'} | ${escapeCell(notes)} |`);
+    }
+    return lines.join('\n');
+  });
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Collects the classes to render, each once, with the members they declare.
+ */
+function collectClasses(classes: Iterable<Function>, options: DiagramOptions): DiagramClass[] {
+  return Array.from(new Set(classes), (type) => collectClass(type, options));
+}
+
+/**
+ * Collects the members a class declares. Instance fields only exist on instances, so they are
+ * parsed from the class source, as are `#private` members; the others are reflected.
+ */
+function collectClass(type: Function, options: DiagramOptions): DiagramClass {
+  const reflection = new ReflectionClass(type);
+  const parent = reflection.getParentClass();
+  const members: DiagramMember[] = [];
+  const base = { isPrivate: false, parameters: null, methodKind: null, getter: false, setter: false, overrides: null };
+
+  const parsed = parseClassBody(type)?.members ?? [];
+  for (const member of parsed) {
+    if (member.isPrivate && options.includePrivate === true) {
+      const existing = members.find((other) => other.name === member.name && other.isStatic === member.isStatic);
+      const getter = member.kind === 'getter' || member.kind === 'accessor';
+      const setter = member.kind === 'setter' || member.kind === 'accessor';
+      if (existing) {
+        existing.getter ||= getter;
+        existing.setter ||= setter;
+        continue;
+      }
+      const kind = member.kind === 'field' || member.kind === 'method' ? member.kind : 'accessor';
+      members.push({ ...base, name: member.name, kind, isStatic: member.isStatic, isPrivate: true, getter, setter });
+    } else if (!member.isPrivate && member.kind === 'field' && !member.isStatic) {
+      members.push({ ...base, name: member.name, kind: 'field', isStatic: false });
+    }
+  }
+
+  const overridden = new Set(reflection.getOverriddenMethods({ includeSymbols: true })
+    .map((method) => `${method.isStatic()}:${String(method.getName())}`));
+  for (const member of reflection.members().own().toArray()) {
+    const key = member.getName();
+    if (typeof key === 'symbol' && options.includeSymbols !== true) continue;
+    const name = formatKey(key);
+    if (member instanceof ReflectionMethod) {
+      members.push({
+        ...base,
+        name,
+        kind: 'method',
+        isStatic: member.isStatic(),
+        parameters: member.getParameters().map((parameter) =>
+          `${parameter.isVariadic() ? '...' : ''}${parameter.getName()}${parameter.isDefaultValueAvailable() ? '?' : ''}`
+        ),
+        methodKind: member.getKind(),
+        overrides: overridden.has(`${member.isStatic()}:${String(key)}`) ? overriddenClass(type, member) : null,
+      });
+    } else {
+      members.push({
+        ...base,
+        name,
+        kind: member.isAccessor() ? 'accessor' : 'field',
+        isStatic: member.isStatic(),
+        getter: member.hasGetter(),
+        setter: member.hasSetter(),
+      });
+    }
+  }
+
+  members.sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || Number(b.isStatic) - Number(a.isStatic));
+  const hasParent = parent !== null && !isBuiltinPrototype(parent.prototype, 'Object');
+  return { name: reflection.getName(), parent: hasParent ? parent : null, members };
+}
+
+/**
+ * Finds the ancestor declaring the method an own method overrides: a class, or the built-in
+ * `Object` or `Function` for methods such as `toString`.
+ */
+function overriddenClass(type: Function, method: ReflectionMethod): Function | null {
+  const holder = method.isStatic() ? type : type.prototype;
+  for (let ancestor = Object.getPrototypeOf(holder); ancestor; ancestor = Object.getPrototypeOf(ancestor)) {
+    const descriptor = Object.getOwnPropertyDescriptor(ancestor, method.getName());
+    if (descriptor) {
+      if (typeof ancestor === 'function') return ancestor;
+      const ctor = Object.getOwnPropertyDescriptor(ancestor, 'constructor')?.value;
+      return typeof ctor === 'function' ? ctor : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Formats a member line of a class diagram, without static markers:
+ * visibility, name, parameters of methods, then accessor and override markers.
+ */
+function memberLine(member: DiagramMember): string {
+  const visibility = member.isPrivate ? '-' : '+';
+  const name = memberName(member.isPrivate ? member.name.slice(1) : member.name);
+  if (member.kind === 'method') {
+    const line = `${visibility}${name}(${member.parameters?.join(', ') ?? ''})`;
+    return member.overrides ? `${line} «override»` : line;
+  }
+  if (member.kind === 'accessor') {
+    const access = member.getter && member.setter ? 'get/set' : member.getter ? 'get' : 'set';
+    return `${visibility}${name} «${access}»`;
+  }
+  return `${visibility}${name}`;
+}
+
+/**
+ * Gets the name of a class, as `ReflectionClass#getName()` does.
+ */
+function nameOf(type: Function): string {
+  return type.name || '[Anonymous]';
+}
+
+/**
+ * Turns a class name into an identifier both Mermaid and PlantUML accept.
+ */
+function identifier(name: string): string {
+  return name.replace(/\W/g, '_');
+}
+
+/**
+ * Turns a member name into one both Mermaid and PlantUML accept on a member line, keeping the brackets
+ * and dots of symbol keys such as `[Symbol.iterator]`.
+ */
+function memberName(name: string): string {
+  return name.replace(/[^\w$.[\]]/g, '_');
+}
+
+/**
+ * Escapes the characters that would break a Markdown table cell.
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
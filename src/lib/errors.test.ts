@@ -0,0 +1,160 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import {
+  AccessDeniedError,
+  ClassNotFoundError,
+  InvalidArgumentError,
+  InvalidTargetError,
+  MemberNotFoundError,
+  NotAClassError,
+  ReadOnlyMemberError,
+  ReflectionError,
+} from "./errors.ts";
+import { Contract, ContractError } from "./contract.ts";
+import { Container, ResolutionError } from "./container.ts";
+import { ValidationError } from "./validation.ts";
+import { defineBrand } from "./brand.ts";
+import { dehydrate, hydrate } from "./hydration.ts";
+import { registerClass } from "./identity.ts";
+import { defineMetadata, ParamMeta } from "./metadata.ts";
+import { diffSchemas } from "./schema.ts";
+import { clone } from "./structure.ts";
+import { mix } from "./traits.ts";
+
+class Session {
+  static create(): Session { return new Session('guest'); }
+  user: string;
+  constructor(user: string) {
+    this.user = user;
+  }
+  get token(): string { throw new RangeError('session expired'); }
+  get id(): string { return 'session'; }
+  refresh(): void { }
+}
+
+/**
+ * Runs a function expected to throw and returns the error.
+ */
+function thrown(run: () => unknown): unknown {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  assert.fail('Expected an error to be thrown.');
+}
+
+describe('ReflectionError', () => {
+  it('should carry a code, the target and the member, and stay a TypeError', () => {
+    const error = thrown(() => new ReflectionClass(Session).newInstanceArgs({ name: 'x' }));
+    assert.ok(error instanceof InvalidArgumentError);
+    assert.ok(error instanceof ReflectionError);
+    assert.ok(error instanceof TypeError);
+    assert.strictEqual(error.name, 'InvalidArgumentError');
+    assert.strictEqual(error.code, 'ERR_INVALID_ARGUMENT');
+    assert.strictEqual(error.target, 'Session');
+    assert.strictEqual(error.member, 'name');
+  });
+
+  it('should be thrown by reflection for each kind of failure', () => {
+    const cases: [() => unknown, Function, string][] = [
+      [() => new ReflectionClass(42 as any), InvalidTargetError, 'ERR_INVALID_TARGET'],
+      [() => new ReflectionClass(new Session('a')).isInstanceCheck({}), NotAClassError, 'ERR_NOT_A_CLASS'],
+      [() => ReflectionClass.forName('missing.Session'), ClassNotFoundError, 'ERR_CLASS_NOT_FOUND'],
+      [() => new ReflectionClass(Session).intercept('missing', {}), MemberNotFoundError, 'ERR_MEMBER_NOT_FOUND'],
+      [() => new ReflectionClass(Session).hasBrand({}), ReflectionError, 'ERR_NO_BRAND'],
+      [() => new ReflectionClass(Session).isInstanceCheck({}, 'registry'), ReflectionError, 'ERR_NO_CLASS_ID'],
+      [() => new ReflectionClass(Session.prototype).getProperty('id')!.setValue(new Session('a'), 'x'), ReadOnlyMemberError, 'ERR_READ_ONLY'],
+      [() => new Contract('Closable', { close: { kind: 'method' } }).assert(new Session('a')), ContractError, 'ERR_CONTRACT_VIOLATION'],
+      [() => new Container().resolve(Session), ResolutionError, 'ERR_UNRESOLVED_DEPENDENCY'],
+      [() => new ReflectionClass(Session).assertValid({}), ValidationError, 'ERR_VALIDATION'],
+    ];
+    for (const [run, type, code] of cases) {
+      const error = thrown(run);
+      assert.ok(error instanceof type, `${code}: expected ${type.name}`);
+      assert.strictEqual((error as ReflectionError).code, code);
+    }
+  });
+
+  it('should be thrown by the helper modules when their input is invalid', () => {
+    class Secret { #key = 1; }
+    class Loud { log(): void { } }
+    class Quiet { log(): void { } }
+    const schema = new ReflectionClass(Session).describe();
+    const cases: [() => unknown, Function, string][] = [
+      [() => mix(Object, 42 as any), NotAClassError, 'ERR_NOT_A_CLASS'],
+      [() => mix(Object, Loud, Quiet), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+      [() => registerClass({} as any, 'errors.Session'), NotAClassError, 'ERR_NOT_A_CLASS'],
+      [() => registerClass(class { }), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+      [() => defineBrand(Session, null as any), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+      [() => defineMetadata('key', 1, 42 as any), InvalidTargetError, 'ERR_INVALID_TARGET'],
+      [() => ParamMeta(-1, 'key', 1), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+      [() => hydrate(Session, 'guest' as any), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+      [() => dehydrate(42 as any), InvalidTargetError, 'ERR_INVALID_TARGET'],
+      [() => diffSchemas(schema, { ...schema, version: 0 as any }), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+      [() => clone(Object.create(new Secret())), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+    ];
+    for (const [run, type, code] of cases) {
+      const error = thrown(run);
+      assert.ok(error instanceof type, `${code}: expected ${type.name}, got ${error}`);
+      assert.strictEqual((error as ReflectionError).code, code);
+    }
+  });
+
+  it('should report throwing getters as AccessDeniedError with the original error as cause', () => {
+    const session = new Session('a');
+    const error = thrown(() => new ReflectionClass(session).getProperty('token')!.getValue(session));
+    assert.ok(error instanceof AccessDeniedError);
+    assert.strictEqual(error.message, 'Cannot read Session.token: session expired');
+    assert.strictEqual(error.code, 'ERR_ACCESS_DENIED');
+    assert.strictEqual(error.member, 'token');
+    assert.ok(error.cause instanceof RangeError);
+  });
+});
+
+describe('Strict mode', () => {
+  const strict = new ReflectionClass(new Session('a'), { strict: true });
+
+  it('should return what lookups find', () => {
+    assert.strictEqual(strict.getMethod('refresh')?.getName(), 'refresh');
+    assert.strictEqual(strict.getProperty('user')?.getName(), 'user');
+    assert.strictEqual(strict.getDeclaringClass('id'), Session);
+    assert.strictEqual(strict.hasMethod('refresh'), true);
+    assert.strictEqual(strict.hasProperty('user'), true);
+  });
+
+  it('should throw MemberNotFoundError instead of returning null or false', () => {
+    assert.throws(() => strict.getMethod('logout'), {
+      name: 'MemberNotFoundError',
+      code: 'ERR_MEMBER_NOT_FOUND',
+      message: 'Session has no method logout.',
+      target: 'Session',
+      member: 'logout',
+    });
+    assert.throws(() => strict.getMethod('user'), MemberNotFoundError);
+    assert.throws(() => strict.getProperty('missing'), { message: 'Session has no property missing.' });
+    assert.throws(() => strict.getDeclaringClass('missing'), MemberNotFoundError);
+    assert.throws(() => strict.hasOwnProperty('id'), { message: 'Session has no own property id.' });
+    assert.throws(() => strict.hasOwnMethod('toString'), MemberNotFoundError);
+    assert.throws(() => new ReflectionClass(Session, { strict: true }).getMethod('refresh'), {
+      message: 'Session has no static method refresh.',
+    });
+  });
+
+  it('should throw NotAClassError for class operations on instances', () => {
+    assert.throws(() => strict.newInstance(), {
+      name: 'NotAClassError',
+      message: 'Instantiation needs a class, but an instance of Session is reflected.',
+    });
+    assert.throws(() => strict.newInstanceWithoutConstructor(), NotAClassError);
+    assert.throws(() => strict.getFunction(), NotAClassError);
+    assert.strictEqual(new ReflectionClass(new Session('a')).newInstance(), null);
+  });
+
+  it('should not affect listings and queries', () => {
+    assert.deepStrictEqual(strict.getMethodObjects().map((method) => method.getName()), ['refresh']);
+    assert.deepStrictEqual(strict.members().methods().names(), ['refresh', 'create']);
+    assert.strictEqual(strict.describe().name, 'Session');
+  });
+});
@@ -0,0 +1,220 @@
+import type { MemberKey } from "./keys.ts";
+
+/**
+ * Machine-readable codes of reflection errors, for grouping errors without parsing messages.
+ */
+export type ReflectionErrorCode =
+  | 'ERR_INVALID_TARGET'
+  | 'ERR_INVALID_ARGUMENT'
+  | 'ERR_NOT_A_CLASS'
+  | 'ERR_NOT_INSTANTIABLE'
+  | 'ERR_NOT_CALLABLE'
+  | 'ERR_MEMBER_NOT_FOUND'
+  | 'ERR_CLASS_NOT_FOUND'
+  | 'ERR_ACCESS_DENIED'
+  | 'ERR_READ_ONLY'
+  | 'ERR_NO_CLASS_ID'
+  | 'ERR_NO_BRAND'
+  | 'ERR_CONTRACT_VIOLATION'
+  | 'ERR_VALIDATION'
+  | 'ERR_UNRESOLVED_DEPENDENCY'
+  | 'ERR_UNSUPPORTED_OPERATION';
+
+/**
+ * @interface ReflectionErrorDetails
+ * @description What a reflection error is about.
+ */
+export interface ReflectionErrorDetails {
+  /** The name of the reflected class (or function), if any. */
+  target?: string | null;
+  /** The member involved, if any. */
+  member?: MemberKey | null;
+  /** The error that caused this one, e.g. the error thrown by a getter. */
+  cause?: unknown;
+}
+
+/**
+ * @class ReflectionError
+ * @description Base class of the errors thrown by reflection. Extends `TypeError`, which reflection
+ * threw before, so existing `instanceof TypeError` checks keep working.
+ */
+export class ReflectionError extends TypeError {
+  /**
+   * @type {ReflectionErrorCode}
+   * The machine-readable error code.
+   */
+  code: ReflectionErrorCode;
+
+  /**
+   * @type {string|null}
+   * The name of the reflected class (or function), or null if the error is not about one.
+   */
+  target: string | null;
+
+  /**
+   * @type {MemberKey|null}
+   * The member involved, or null if the error is not about a member.
+   */
+  member: MemberKey | null;
+
+  /**
+   * Creates an instance of ReflectionError.
+   * @param {ReflectionErrorCode} code - The error code.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(code: ReflectionErrorCode, message: string, details: ReflectionErrorDetails = {}) {
+    super(message, 'cause' in details ? { cause: details.cause } : undefined);
+    this.name = 'ReflectionError';
+    this.code = code;
+    this.target = details.target ?? null;
+    this.member = details.member ?? null;
+  }
+}
+
+/**
+ * @class InvalidTargetError
+ * @description Thrown when a reflection is created for a value it cannot reflect, e.g. a primitive.
+ */
+export class InvalidTargetError extends ReflectionError {
+  /**
+   * Creates an instance of InvalidTargetError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_INVALID_TARGET', message, details);
+    this.name = 'InvalidTargetError';
+  }
+}
+
+/**
+ * @class InvalidArgumentError
+ * @description Thrown when arguments do not match what an operation expects, e.g. unknown constructor parameter names.
+ */
+export class InvalidArgumentError extends ReflectionError {
+  /**
+   * Creates an instance of InvalidArgumentError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_INVALID_ARGUMENT', message, details);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+/**
+ * @class NotAClassError
+ * @description Thrown when an operation that needs a class is used on something else, e.g. a reflected instance.
+ */
+export class NotAClassError extends ReflectionError {
+  /**
+   * Creates an instance of NotAClassError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_NOT_A_CLASS', message, details);
+    this.name = 'NotAClassError';
+  }
+}
+
+/**
+ * @class NotInstantiableError
+ * @description Thrown when a function cannot be called with `new`, e.g. an arrow function.
+ */
+export class NotInstantiableError extends ReflectionError {
+  /**
+   * Creates an instance of NotInstantiableError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_NOT_INSTANTIABLE', message, details);
+    this.name = 'NotInstantiableError';
+  }
+}
+
+/**
+ * @class NotCallableError
+ * @description Thrown when a class is called without `new`.
+ */
+export class NotCallableError extends ReflectionError {
+  /**
+   * Creates an instance of NotCallableError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_NOT_CALLABLE', message, details);
+    this.name = 'NotCallableError';
+  }
+}
+
+/**
+ * @class MemberNotFoundError
+ * @description Thrown when a method or property does not exist, by strict reflections and by
+ * operations that need the member, such as intercepting a method by name.
+ */
+export class MemberNotFoundError extends ReflectionError {
+  /**
+   * Creates an instance of MemberNotFoundError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_MEMBER_NOT_FOUND', message, details);
+    this.name = 'MemberNotFoundError';
+  }
+}
+
+/**
+ * @class ClassNotFoundError
+ * @description Thrown when no class is registered under a class ID.
+ */
+export class ClassNotFoundError extends ReflectionError {
+  /**
+   * Creates an instance of ClassNotFoundError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_CLASS_NOT_FOUND', message, details);
+    this.name = 'ClassNotFoundError';
+  }
+}
+
+/**
+ * @class AccessDeniedError
+ * @description Thrown when reading a property fails, e.g. because its getter or a Proxy trap throws.
+ * The original error is available as `cause`.
+ */
+export class AccessDeniedError extends ReflectionError {
+  /**
+   * Creates an instance of AccessDeniedError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_ACCESS_DENIED', message, details);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * @class ReadOnlyMemberError
+ * @description Thrown when a member cannot be assigned or replaced: read-only properties,
+ * getter-only accessors, and methods of frozen objects.
+ */
+export class ReadOnlyMemberError extends ReflectionError {
+  /**
+   * Creates an instance of ReadOnlyMemberError.
+   * @param {string} message - The error message.
+   * @param {ReflectionErrorDetails} [details] - The target, member and cause of the error.
+   */
+  constructor(message: string, details?: ReflectionErrorDetails) {
+    super('ERR_READ_ONLY', message, details);
+    this.name = 'ReadOnlyMemberError';
+  }
+}
@@ -0,0 +1,189 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { defineMetadata } from "./metadata.ts";
+import { dehydrate, FIELD_TYPE, hydrate, identityNaming, snakeCaseNaming, Type } from "./hydration.ts";
+
+(Symbol as any).metadata ??= Symbol('Symbol.metadata');
+
+class Address {
+  street = '';
+  city = '';
+  get label(): string { return `${this.street}, ${this.city}`; }
+}
+
+const email = Symbol('email');
+
+class Customer {
+  firstName = '';
+  billingAddress: Address | null = null;
+  addresses: Address[] = [];
+  [email] = '';
+  constructor(firstName: string) {
+    if (!firstName) throw new Error('constructor should not run');
+    this.firstName = firstName;
+  }
+  get email(): string { return this[email]; }
+  set email(value: string) { this[email] = value.toLowerCase(); }
+  greet(): string { return `Hello ${this.firstName}`; }
+}
+
+defineMetadata(FIELD_TYPE, () => Address, Customer.prototype, 'billingAddress');
+defineMetadata(FIELD_TYPE, () => [Address], Customer.prototype, 'addresses');
+
+class Order {
+  createdAt: Date = new Date(0);
+  lines: Map<string, number> = new Map();
+  tags: Set<string> = new Set();
+  customer: Customer | null = null;
+}
+
+const orderTypes = new Map([[Order, { createdAt: Date, lines: { map: Number }, tags: { set: String }, customer: Customer }]]);
+
+describe('Hydration', () => {
+  describe('hydrate()', () => {
+    it('should allocate without the constructor and assign fields', () => {
+      const customer = hydrate(Customer, { firstName: 'Ada', unknown: 1 });
+      assert.ok(customer instanceof Customer);
+      assert.strictEqual(customer.firstName, 'Ada');
+      assert.strictEqual((customer as any).unknown, 1);
+      assert.strictEqual(customer.greet(), 'Hello Ada');
+    });
+
+    it('should hydrate nested class-typed fields declared with metadata', () => {
+      const customer = hydrate(Customer, {
+        firstName: 'Ada',
+        billingAddress: { street: 'Main St', city: 'London' },
+        addresses: [{ street: 'A', city: 'B' }, { street: 'C', city: 'D' }],
+      });
+      assert.ok(customer.billingAddress instanceof Address);
+      assert.strictEqual(customer.billingAddress.label, 'Main St, London');
+      assert.deepStrictEqual(customer.addresses.map((address) => address instanceof Address), [true, true]);
+    });
+
+    it('should use the type map for Dates, Maps, Sets and nested classes', () => {
+      const order = hydrate(Order, {
+        createdAt: '2024-01-02T00:00:00.000Z',
+        lines: [['apple', 2]],
+        tags: ['fresh'],
+        customer: { firstName: 'Ada' },
+      }, { types: orderTypes });
+      assert.strictEqual(order.createdAt.toISOString(), '2024-01-02T00:00:00.000Z');
+      assert.deepStrictEqual(order.lines, new Map([['apple', 2]]));
+      assert.deepStrictEqual(order.tags, new Set(['fresh']));
+      assert.ok(order.customer instanceof Customer);
+    });
+
+    it('should assign accessors through their setter and skip getter-only accessors and methods', () => {
+      const customer = hydrate(Customer, { email: 'ADA@EXAMPLE.COM', greet: 'overwritten' });
+      assert.strictEqual(customer.email, 'ada@example.com');
+      assert.strictEqual(Object.hasOwn(customer, 'email'), false);
+      assert.strictEqual(customer.greet(), 'Hello undefined');
+      const address = hydrate(Address, { label: 'ignored', street: 'Main St' });
+      assert.strictEqual(Object.hasOwn(address, 'label'), false);
+    });
+
+    it('should not let keys change the prototype', () => {
+      const address = hydrate(Address, JSON.parse('{"__proto__": {"polluted": true}}'));
+      assert.strictEqual(Object.getPrototypeOf(address), Address.prototype);
+      assert.strictEqual((address as any).polluted, undefined);
+    });
+
+    it('should throw TypeError for data not matching the field types', () => {
+      assert.throws(() => hydrate(Customer, { addresses: 'none' }), /Expected an array at addresses\./);
+      assert.throws(() => hydrate(Customer, { addresses: [{}, 5] }), /Expected an object to hydrate Address at addresses\.1\./);
+      assert.throws(() => hydrate(Order, { createdAt: 'yesterday' }, { types: orderTypes }), /Invalid date at createdAt\./);
+      assert.throws(() => hydrate(Order, { lines: { apple: '2' } }, { types: orderTypes }), /Expected a number at lines\.apple\./);
+    });
+
+    it('should detect circular references', () => {
+      const data: any = { firstName: 'Ada', billingAddress: {} };
+      data.addresses = [data];
+      assert.throws(() => hydrate(Customer, data), /Circular reference at addresses\.0\./);
+    });
+
+    it('should read field types declared with the Type decorator', () => {
+      class Invoice {
+        issuedAt: Date | null = null;
+      }
+      const context = { kind: 'field', name: 'issuedAt', static: false, private: false, metadata: {}, access: {}, addInitializer() { } };
+      Type(() => Date)(undefined, context as any);
+      Object.defineProperty(Invoice, (Symbol as any).metadata, { value: context.metadata });
+      assert.ok(hydrate(Invoice, { issuedAt: 0 }).issuedAt instanceof Date);
+    });
+  });
+
+  describe('dehydrate()', () => {
+    it('should convert instances to plain objects recursively', () => {
+      const customer = new Customer('Ada');
+      customer.email = 'ADA@example.com';
+      customer.billingAddress = Object.assign(new Address(), { street: 'Main St', city: 'London' });
+      const order = Object.assign(new Order(), {
+        lines: new Map([['apple', 2]]),
+        tags: new Set(['fresh']),
+        customer,
+      });
+      assert.deepStrictEqual(dehydrate(order), {
+        createdAt: '1970-01-01T00:00:00.000Z',
+        lines: [['apple', 2]],
+        tags: ['fresh'],
+        customer: {
+          firstName: 'Ada',
+          billingAddress: { street: 'Main St', city: 'London' },
+          addresses: [],
+          email: 'ada@example.com',
+        },
+      });
+    });
+
+    it('should round-trip through JSON', () => {
+      const order = Object.assign(new Order(), { tags: new Set(['a']), customer: new Customer('Ada') });
+      const copy = hydrate(Order, JSON.parse(JSON.stringify(dehydrate(order))), { types: orderTypes });
+      assert.deepStrictEqual(copy, order);
+    });
+
+    it('should keep __proto__ keys as own fields', () => {
+      const address = hydrate(Address, JSON.parse('{"__proto__": "home", "city": "Rome"}'));
+      const plain = dehydrate(address);
+      assert.strictEqual(Object.getPrototypeOf(plain), Object.prototype);
+      assert.deepStrictEqual(Object.keys(plain), ['__proto__', 'city']);
+      assert.strictEqual(JSON.stringify(plain), '{"__proto__":"home","city":"Rome"}');
+      assert.deepStrictEqual(hydrate(Address, plain), address);
+    });
+
+    it('should detect circular references', () => {
+      const customer = new Customer('Ada');
+      (customer.addresses as any[]).push({ owner: customer });
+      assert.throws(() => dehydrate(customer), /Circular reference at addresses\.0\.owner\./);
+    });
+
+    it('should allow shared references that are not circular', () => {
+      const address = new Address();
+      const customer = Object.assign(new Customer('Ada'), { billingAddress: address, addresses: [address] });
+      assert.doesNotThrow(() => dehydrate(customer));
+    });
+  });
+
+  describe('Naming strategies', () => {
+    it('should convert between camelCase and snake_case', () => {
+      assert.strictEqual(snakeCaseNaming.toPlain('billingAddress'), 'billing_address');
+      assert.strictEqual(snakeCaseNaming.toPlain('userID'), 'user_id');
+      assert.strictEqual(snakeCaseNaming.toPlain('HTTPServer'), 'http_server');
+      assert.strictEqual(snakeCaseNaming.fromPlain('billing_address'), 'billingAddress');
+      assert.strictEqual(identityNaming.fromPlain('first_name'), 'first_name');
+    });
+
+    it('should rename class fields but not plain object keys', () => {
+      const customer = hydrate(Customer, { first_name: 'Ada', billing_address: { street: 'Main St' } }, { naming: snakeCaseNaming });
+      assert.strictEqual(customer.firstName, 'Ada');
+      assert.strictEqual(customer.billingAddress?.street, 'Main St');
+      (customer as any).extra = { someKey: 1 };
+      assert.deepStrictEqual(dehydrate(customer, { naming: snakeCaseNaming }), {
+        first_name: 'Ada',
+        billing_address: { street: 'Main St' },
+        extra: { someKey: 1 },
+        // Not initialized: hydration does not run the constructor or field initializers
+        email: undefined,
+      });
+    });
+  });
+});
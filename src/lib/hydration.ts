@@ -0,0 +1,339 @@
+import { InvalidArgumentError, InvalidTargetError } from "./errors.ts";
+import { isBuiltinPrototype } from "./identity.ts";
+import * as metadata from "./metadata.ts";
+import { ReflectionClass } from "./reflection.ts";
+
+/**
+ * Describes the type of a field, so nested values can be turned back into class instances:
+ * a class (`Date` included), `[type]` for arrays, `{ map: type }` for Maps and `{ set: type }` for Sets.
+ * `String`, `Number`, `Boolean` and `BigInt` only check the type of primitive values.
+ */
+export type FieldType =
+  | Function
+  | readonly [FieldType]
+  | { readonly map: FieldType }
+  | { readonly set: FieldType };
+
+/**
+ * Field types of one class, keyed by property name.
+ */
+export type FieldTypes = { readonly [field: string]: FieldType };
+
+/**
+ * @interface NamingStrategy
+ * @description Converts between property names and the keys of plain objects.
+ */
+export interface NamingStrategy {
+  /** Converts a property name to the key used in plain objects. */
+  toPlain(name: string): string;
+  /** Converts a plain-object key back to a property name. */
+  fromPlain(key: string): string;
+}
+
+/**
+ * @interface HydrationOptions
+ * @description Options accepted by `hydrate()` and `dehydrate()`.
+ */
+export interface HydrationOptions {
+  /** How property names map to plain-object keys. Defaults to keeping names as they are. */
+  naming?: NamingStrategy;
+  /** Field types per class. Takes precedence over types declared with the `Type` decorator. */
+  types?: ReadonlyMap<Function, FieldTypes>;
+}
+
+/**
+ * Keeps property names as they are.
+ */
+export const identityNaming: NamingStrategy = {
+  toPlain: (name) => name,
+  fromPlain: (key) => key,
+};
+
+/**
+ * Maps camelCase property names to snake_case keys (`userId` ⇄ `user_id`).
+ */
+export const snakeCaseNaming: NamingStrategy = {
+  toPlain: (name) => name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase(),
+  fromPlain: (key) => key.replace(/_+([a-z0-9])/g, (match, char: string) => char.toUpperCase()),
+};
+
+/**
+ * The metadata key under which the `Type` decorator stores field types.
+ */
+export const FIELD_TYPE = Symbol('reflection:fieldType');
+
+/**
+ * Decorator declaring the type of a field (or accessor) for hydration.
+ * The type is given as a function so classes can refer to classes declared later.
+ * Member decorators need `Symbol.metadata`, see `Meta`.
+ * @example
+ * ```ts
+ * class Order {
+ *   @Type(() => [OrderLine]) lines: OrderLine[] = [];
+ *   @Type(() => Date) createdAt = new Date();
+ * }
+ * ```
+ * @param {() => FieldType} type - Returns the field type.
+ * @returns A standard member decorator.
+ */
+export function Type(type: () => FieldType) {
+  return metadata.Meta(FIELD_TYPE, type);
+}
+
+/**
+ * Field types standing for primitive values, with the `typeof` result they expect.
+ */
+const PRIMITIVE_TYPES = new Map<Function, string>([
+  [String, 'string'],
+  [Number, 'number'],
+  [Boolean, 'boolean'],
+  [BigInt, 'bigint'],
+]);
+
+/**
+ * The state of a single hydrate or dehydrate call.
+ */
+interface Conversion {
+  naming: NamingStrategy;
+  types: ReadonlyMap<Function, FieldTypes> | undefined;
+  /** The objects being converted, from the root down, to detect cycles. */
+  ancestors: Set<object>;
+  /** The path to the value being converted, for messages. */
+  path: string[];
+}
+
+/**
+ * Creates an instance of a class from a plain object, e.g. parsed JSON.
+ * The instance is allocated without running the constructor. Every key of the plain object is assigned
+ * to the instance after converting it with the naming strategy: through the setter for accessors,
+ * as an own property otherwise. Keys naming methods or getter-only accessors are ignored.
+ * Values of fields with a known type (see `Type` and `HydrationOptions.types`) are hydrated recursively;
+ * other values are assigned as they are.
+ * @param {Function} type - The class to create an instance of.
+ * @param {object} data - The plain object.
+ * @param {HydrationOptions} [options] - The hydration options.
+ * @returns {T} The hydrated instance.
+ * @throws {InvalidArgumentError} If the data does not match the field types or contains a circular reference.
+ */
+export function hydrate<T extends object>(
+  type: abstract new (...args: any[]) => T,
+  data: object,
+  options: HydrationOptions = {}
+): T {
+  return hydrateObject(type, data, {
+    naming: options.naming ?? identityNaming,
+    types: options.types,
+    ancestors: new Set(),
+    path: [],
+  }) as T;
+}
+
+/**
+ * Converts an instance to a plain object.
+ * Fields are the own enumerable properties of the instance and the accessors with both a getter and
+ * a setter found on its prototype chain; their names are converted with the naming strategy.
+ * Nested class instances are dehydrated recursively, arrays and Sets become arrays, Maps become arrays
+ * of `[key, value]` entries and Dates become ISO strings. Symbol keys and functions are left out.
+ * Bigints are kept as they are, so the result only passes to `JSON.stringify()` without them.
+ * @param {object} instance - The instance to convert.
+ * @param {HydrationOptions} [options] - The hydration options.
+ * @returns {Record<string, unknown>} The plain object.
+ * @throws {InvalidTargetError} If the instance is not an object.
+ * @throws {InvalidArgumentError} If the instance contains a circular reference.
+ */
+export function dehydrate(instance: object, options: HydrationOptions = {}): Record<string, unknown> {
+  if (instance === null || typeof instance !== 'object') {
+    throw new InvalidTargetError('Only objects can be dehydrated.');
+  }
+  return dehydrateValue(instance, {
+    naming: options.naming ?? identityNaming,
+    types: options.types,
+    ancestors: new Set(),
+    path: [],
+  }) as Record<string, unknown>;
+}
+
+/**
+ * Formats the path of the value being converted, for messages.
+ */
+function pathOf(conversion: Conversion): string {
+  return conversion.path.length > 0 ? conversion.path.join('.') : '(root)';
+}
+
+/**
+ * Runs a conversion step for an object, detecting circular references.
+ */
+function enter<R>(value: object, conversion: Conversion, step: () => R): R {
+  if (conversion.ancestors.has(value)) {
+    throw new InvalidArgumentError(`Circular reference at ${pathOf(conversion)}.`);
+  }
+  conversion.ancestors.add(value);
+  try {
+    return step();
+  } finally {
+    conversion.ancestors.delete(value);
+  }
+}
+
+/**
+ * Runs a conversion step for a nested value.
+ */
+function nested<R>(key: PropertyKey, conversion: Conversion, step: () => R): R {
+  conversion.path.push(String(key));
+  try {
+    return step();
+  } finally {
+    conversion.path.pop();
+  }
+}
+
+/**
+ * Looks up the declared type of a field, from the options first, then from `Type` metadata.
+ * @param {Function} type - The class declaring the field.
+ * @param {string} field - The property name.
+ * @param {Conversion} conversion - The conversion state.
+ * @returns {FieldType|undefined} The field type, or undefined if it is not declared.
+ */
+function fieldTypeOf(type: Function, field: string, conversion: Conversion): FieldType | undefined {
+  for (let current: Function | null = type; current; current = new ReflectionClass(current).getParentClass()) {
+    const declared = conversion.types?.get(current);
+    if (declared && Object.hasOwn(declared, field)) return declared[field];
+  }
+  if (!type.prototype) return undefined;
+  const thunk = metadata.getMetadata(FIELD_TYPE, type.prototype, field);
+  return typeof thunk === 'function' ? thunk() : undefined;
+}
+
+/**
+ * Hydrates a plain object into an instance of a class.
+ */
+function hydrateObject(type: Function, data: unknown, conversion: Conversion): object {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new InvalidArgumentError(`Expected an object to hydrate ${type.name || '[Anonymous]'} at ${pathOf(conversion)}.`);
+  }
+  return enter(data, conversion, () => {
+    const instance = new ReflectionClass(type).newInstanceWithoutConstructor() as object;
+    const reflection = new ReflectionClass(instance);
+    for (const key of Object.keys(data)) {
+      const field = conversion.naming.fromPlain(key);
+      const property = reflection.getProperty(field);
+      if (property?.isAccessor() && !property.hasSetter()) continue;
+      if (!property?.isAccessor() && reflection.getMethod(field)) continue;
+
+      const fieldType = fieldTypeOf(type, field, conversion);
+      const value = nested(key, conversion, () => hydrateValue((data as any)[key], fieldType, conversion));
+      if (property?.isAccessor()) {
+        property.setValue(instance, value);
+      } else {
+        // Defined rather than assigned, so keys such as `__proto__` cannot change the prototype
+        Object.defineProperty(instance, field, { value, writable: true, enumerable: true, configurable: true });
+      }
+    }
+    return instance;
+  });
+}
+
+/**
+ * Hydrates a value of a field with the given type.
+ */
+function hydrateValue(value: unknown, type: FieldType | undefined, conversion: Conversion): unknown {
+  if (type === undefined || value === null || value === undefined) return value;
+
+  if (Array.isArray(type)) {
+    if (!Array.isArray(value)) {
+      throw new InvalidArgumentError(`Expected an array at ${pathOf(conversion)}.`);
+    }
+    return enter(value, conversion, () =>
+      value.map((item, index) => nested(index, conversion, () => hydrateValue(item, type[0], conversion)))
+    );
+  }
+  if (typeof type !== 'function' && 'map' in type) {
+    const entries = value instanceof Map ? Array.from(value) : Array.isArray(value) ? value : typeof value === 'object' ? Object.entries(value) : null;
+    if (!entries) {
+      throw new InvalidArgumentError(`Expected a Map, an array of entries or an object at ${pathOf(conversion)}.`);
+    }
+    return enter(value, conversion, () => new Map(entries.map(([key, item]: [unknown, unknown]) =>
+      [key, nested(String(key), conversion, () => hydrateValue(item, type.map, conversion))]
+    )));
+  }
+  if (typeof type !== 'function' && 'set' in type) {
+    if (!Array.isArray(value) && !(value instanceof Set)) {
+      throw new InvalidArgumentError(`Expected an array or a Set at ${pathOf(conversion)}.`);
+    }
+    return enter(value, conversion, () => new Set(Array.from(value, (item, index) =>
+      nested(index, conversion, () => hydrateValue(item, type.set, conversion))
+    )));
+  }
+
+  const classType = type as Function;
+  const primitive = PRIMITIVE_TYPES.get(classType);
+  if (primitive) {
+    if (typeof value !== primitive) {
+      throw new InvalidArgumentError(`Expected a ${primitive} at ${pathOf(conversion)}.`);
+    }
+    return value;
+  }
+  if (value instanceof classType) return value;
+  if (classType === Date) {
+    const date = new Date(value as string | number);
+    if (Number.isNaN(date.getTime())) {
+      throw new InvalidArgumentError(`Invalid date at ${pathOf(conversion)}.`);
+    }
+    return date;
+  }
+  return hydrateObject(classType, value, conversion);
+}
+
+/**
+ * Dehydrates any value into its plain form.
+ */
+function dehydrateValue(value: unknown, conversion: Conversion): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+
+  return enter(value, conversion, () => {
+    if (Array.isArray(value) || value instanceof Set) {
+      return Array.from(value, (item, index) => nested(index, conversion, () => dehydrateValue(item, conversion)));
+    }
+    if (value instanceof Map) {
+      return Array.from(value, ([key, item]) =>
+        nested(String(key), conversion, () => [dehydrateValue(key, conversion), dehydrateValue(item, conversion)])
+      );
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    const isPlain = prototype === null || isBuiltinPrototype(prototype, 'Object');
+    const plain: Record<string, unknown> = {};
+    for (const [field, fieldValue] of fieldsOf(value, isPlain)) {
+      if (typeof fieldValue === 'function') continue;
+      const key = isPlain ? field : conversion.naming.toPlain(field);
+      const plainValue = nested(key, conversion, () => dehydrateValue(fieldValue, conversion));
+      // Defined rather than assigned, so keys such as `__proto__` cannot change the prototype
+      Object.defineProperty(plain, key, { value: plainValue, writable: true, enumerable: true, configurable: true });
+    }
+    return plain;
+  });
+}
+
+/**
+ * Lists the fields of an object to dehydrate: own enumerable string-keyed properties, and for class
+ * instances the accessors with both a getter and a setter declared on the prototype chain.
+ * @param {object} value - The object to inspect.
+ * @param {boolean} isPlain - Whether the object is a plain object.
+ * @returns {[string, unknown][]} The field names and values.
+ */
+function fieldsOf(value: object, isPlain: boolean): [string, unknown][] {
+  const fields: [string, unknown][] = Object.keys(value).map((key) => [key, (value as any)[key]]);
+  if (isPlain) return fields;
+
+  for (const property of new ReflectionClass(value).getPropertyObjects()) {
+    const name = property.getName() as string;
+    if (property.hasGetter() && property.hasSetter() && !Object.hasOwn(value, name)) {
+      fields.push([name, property.getValue(value)]);
+    }
+  }
+  return fields;
+}
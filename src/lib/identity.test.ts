@@ -0,0 +1,136 @@
+import { describe, it, after } from "node:test";
+import * as assert from "node:assert";
+import * as vm from "node:vm";
+import { ReflectionClass } from "./reflection.ts";
+import {
+  CLASS_ID,
+  findClass,
+  getClassId,
+  isBuiltinPrototype,
+  registerClass,
+  unregisterClass,
+} from "./identity.ts";
+
+const GREETER_SOURCE = `
+  class Greeter {
+    static [Symbol.for('@devalade/reflection:classId')] = 'plugin.Greeter';
+    constructor(name) { this.name = name; }
+    greet() { return 'Hello ' + this.name; }
+    static create(name) { return new Greeter(name); }
+  }
+`;
+
+class Greeter {
+  static [CLASS_ID] = 'plugin.Greeter';
+  name: string;
+  constructor(name: string) { this.name = name; }
+  greet(): string { return `Hello ${this.name}`; }
+  static create(name: string): Greeter { return new Greeter(name); }
+}
+
+class Impostor {
+  greet(): string { return 'Hi'; }
+}
+
+const sandbox = vm.createContext({});
+vm.runInContext(`${GREETER_SOURCE}; globalThis.Greeter = Greeter; globalThis.greeter = new Greeter('vm');`, sandbox);
+const foreignGreeter: any = sandbox.greeter;
+const ForeignGreeter: Function = sandbox.Greeter;
+
+describe('Class Identity', () => {
+  after(() => {
+    unregisterClass('plugin.Greeter');
+    unregisterClass('app.User');
+  });
+
+  describe('Registry', () => {
+    it('should register classes by declared or given ID', () => {
+      registerClass(Greeter);
+      assert.strictEqual(findClass('plugin.Greeter'), Greeter);
+
+      class User { }
+      registerClass(User, 'app.User');
+      assert.strictEqual(getClassId(User), 'app.User');
+      assert.doesNotThrow(() => registerClass(User, 'app.User'));
+      assert.strictEqual(ReflectionClass.forName('app.User').getConstructor(), User);
+    });
+
+    it('should reject conflicting registrations', () => {
+      class Other { }
+      assert.throws(() => registerClass(Other, 'plugin.Greeter'), /already registered for Greeter/);
+      assert.throws(() => registerClass(Greeter, 'plugin.Other'), /declares the ID "plugin\.Greeter"/);
+      assert.throws(() => registerClass(Other), /no class ID given or declared/);
+    });
+
+    it('should not inherit class IDs', () => {
+      class LoudGreeter extends Greeter { }
+      assert.strictEqual(getClassId(LoudGreeter), null);
+      assert.strictEqual(new ReflectionClass(LoudGreeter).getClassId(), null);
+      assert.strictEqual(new ReflectionClass(new Greeter('a')).getClassId(), 'plugin.Greeter');
+    });
+
+    it('forName should throw TypeError for unknown IDs', () => {
+      assert.throws(() => ReflectionClass.forName('missing.Class'), /No class is registered as "missing\.Class"\./);
+    });
+
+    it('should share the registry between copies of the package', () => {
+      const registry = (globalThis as any)[Symbol.for('@devalade/reflection:registry')];
+      assert.ok(registry instanceof Map);
+      assert.strictEqual(registry.get('plugin.Greeter'), Greeter);
+    });
+  });
+
+  describe('Instance check modes', () => {
+    const reflectGreeter = new ReflectionClass(Greeter);
+
+    it('instanceof should fail for objects from another realm', () => {
+      assert.strictEqual(reflectGreeter.isInstanceCheck(foreignGreeter), false);
+      assert.strictEqual(reflectGreeter.isInstanceCheck(foreignGreeter, 'instanceof'), false);
+    });
+
+    it('registry should compare class IDs across realms', () => {
+      assert.strictEqual(reflectGreeter.isInstanceCheck(foreignGreeter, 'registry'), true);
+      assert.strictEqual(reflectGreeter.isInstanceCheck(new Greeter('host'), 'registry'), true);
+      assert.strictEqual(reflectGreeter.isInstanceCheck(new Impostor(), 'registry'), false);
+      assert.strictEqual(reflectGreeter.isInstanceCheck(null, 'registry'), false);
+      assert.throws(() => new ReflectionClass(Impostor).isInstanceCheck(new Impostor(), 'registry'), /Impostor has no class ID/);
+    });
+
+    it('structural should compare instance methods', () => {
+      assert.strictEqual(reflectGreeter.isInstanceCheck(foreignGreeter, 'structural'), true);
+      assert.strictEqual(reflectGreeter.isInstanceCheck(new Impostor(), 'structural'), true);
+      assert.strictEqual(reflectGreeter.isInstanceCheck({}, 'structural'), false);
+      assert.strictEqual(new ReflectionClass(Impostor).isInstanceCheck({ greet() { } }, 'structural'), true);
+    });
+  });
+
+  describe('Reflecting objects from another realm', () => {
+    it('should not report members of the foreign Object.prototype', () => {
+      const reflection = new ReflectionClass(foreignGreeter);
+      assert.strictEqual(reflection.getName(), 'Greeter');
+      assert.deepStrictEqual(reflection.getMethods(), ['greet']);
+      assert.deepStrictEqual(reflection.getProperties(), ['name', 'constructor', 'greet']);
+      assert.strictEqual(reflection.hasMethod('hasOwnProperty'), false);
+      assert.strictEqual(reflection.getProperty('toString'), null);
+    });
+
+    it('should not report members of the foreign Function.prototype', () => {
+      const reflection = new ReflectionClass(ForeignGreeter);
+      assert.deepStrictEqual(reflection.getMethods(), ['create']);
+      assert.strictEqual(reflection.getMethod('call'), null);
+      assert.deepStrictEqual(reflection.getConstructorParameters().map((parameter) => parameter.getName()), ['name']);
+      assert.strictEqual(reflection.getClassId(), 'plugin.Greeter');
+    });
+
+    it('isBuiltinPrototype should recognize built-in prototypes of any realm', () => {
+      const prototypes = vm.runInContext('[Object.prototype, Function.prototype, Array.prototype]', sandbox);
+      assert.strictEqual(isBuiltinPrototype(prototypes[0]), true);
+      assert.strictEqual(isBuiltinPrototype(prototypes[0], 'Function'), false);
+      assert.strictEqual(isBuiltinPrototype(prototypes[1], 'Function'), true);
+      assert.strictEqual(isBuiltinPrototype(prototypes[2]), false);
+      assert.strictEqual(isBuiltinPrototype(Object.prototype), true);
+      const NamedObject = class Object { };
+      assert.strictEqual(isBuiltinPrototype(NamedObject.prototype), false);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { InvalidArgumentError, NotAClassError } from "./errors.ts";
+import { getSource, isNativeSource } from "./source.ts";
+
+/**
+ * The key of a class's ID. Registered with `Symbol.for`, so it is the same in every realm
+ * (e.g. `node:vm` contexts) and in every copy of this package. Classes can declare their ID
+ * directly with `static [CLASS_ID] = 'app.User'`, or get one through `registerClass()`.
+ */
+export const CLASS_ID = Symbol.for('@devalade/reflection:classId');
+
+/**
+ * The key of the class registry on `globalThis`, shared by all copies of this package in a realm.
+ */
+const REGISTRY = Symbol.for('@devalade/reflection:registry');
+
+/**
+ * How `ReflectionClass#isInstanceCheck()` decides whether an object is an instance of a class:
+ * - `instanceof`: the prototype chain contains the class prototype (same realm and package copy only);
+ * - `structural`: the object has every instance method of the class;
+ * - `registry`: the prototype chain contains a class with the same class ID.
+ */
+export type InstanceCheckMode = 'instanceof' | 'structural' | 'registry';
+
+/**
+ * Gets the class registry of the current realm.
+ * @returns {Map<string, Function>} The classes, keyed by ID.
+ */
+function registry(): Map<string, Function> {
+  const global = globalThis as any;
+  if (!(global[REGISTRY] instanceof Map)) {
+    Object.defineProperty(global, REGISTRY, { value: new Map(), writable: false, enumerable: false, configurable: false });
+  }
+  return global[REGISTRY];
+}
+
+/**
+ * Registers a class under a stable ID, so it can be found with `ReflectionClass.forName()`
+ * and recognized across realms with the `registry` instance check mode.
+ * The ID is also stored on the class itself (see `CLASS_ID`) unless the class already declares it.
+ * @param {Function} type - The class to register.
+ * @param {string} [id] - The ID; defaults to the ID the class declares with `CLASS_ID`.
+ * @throws {NotAClassError} If the type is not a function.
+ * @throws {InvalidArgumentError} If there is no ID, the class declares a different ID, or the ID is taken by another class.
+ */
+export function registerClass(type: Function, id?: string): void {
+  if (typeof type !== 'function') {
+    throw new NotAClassError('Only classes can be registered.');
+  }
+  const declared = getClassId(type);
+  const classId = id ?? declared;
+  if (typeof classId !== 'string' || classId === '') {
+    throw new InvalidArgumentError(`Cannot register ${type.name || '[Anonymous]'}: no class ID given or declared.`, { target: type.name || '[Anonymous]' });
+  }
+  if (declared !== null && declared !== classId) {
+    throw new InvalidArgumentError(`Cannot register ${type.name || '[Anonymous]'} as "${classId}": it declares the ID "${declared}".`, {
+      target: type.name || '[Anonymous]',
+    });
+  }
+  const registered = registry().get(classId);
+  if (registered && registered !== type) {
+    throw new InvalidArgumentError(`The class ID "${classId}" is already registered for ${registered.name || '[Anonymous]'}.`, {
+      target: type.name || '[Anonymous]',
+    });
+  }
+  if (declared === null) {
+    Object.defineProperty(type, CLASS_ID, { value: classId, writable: false, enumerable: false, configurable: false });
+  }
+  registry().set(classId, type);
+}
+
+/**
+ * Removes a class from the registry. The ID stays on the class.
+ * @param {string} id - The class ID.
+ * @returns {boolean} True if a class was registered under the ID.
+ */
+export function unregisterClass(id: string): boolean {
+  return registry().delete(id);
+}
+
+/**
+ * Finds a registered class.
+ * @param {string} id - The class ID.
+ * @returns {Function|null} The class, or null if no class is registered under the ID.
+ */
+export function findClass(id: string): Function | null {
+  return registry().get(id) ?? null;
+}
+
+/**
+ * Gets the ID a class declares itself. IDs are not inherited: a subclass without its own ID has none.
+ * @param {Function} type - The class.
+ * @returns {string|null} The class ID, or null if the class has none.
+ */
+export function getClassId(type: Function): string | null {
+  const descriptor = Object.getOwnPropertyDescriptor(type, CLASS_ID);
+  return typeof descriptor?.value === 'string' ? descriptor.value : null;
+}
+
+/**
+ * Checks if a value is an ES module namespace object, as returned by `import()`.
+ * Only descriptors are read: namespaces have a null prototype and an own `Symbol.toStringTag` of `'Module'`.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True for module namespace objects.
+ */
+export function isModuleNamespace(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return false;
+  try {
+    return Object.getPrototypeOf(value) === null &&
+      Object.getOwnPropertyDescriptor(value, Symbol.toStringTag)?.value === 'Module';
+  } catch (e) {
+    // Descriptor access might be restricted (e.g. by a Proxy trap)
+    return false;
+  }
+}
+
+/**
+ * Checks if an object is the `Object.prototype` or `Function.prototype` of any realm.
+ * Objects from `node:vm` contexts or other frames inherit from their own copies of these,
+ * which comparing with `Object.prototype` does not catch.
+ * @param {unknown} candidate - The object to check.
+ * @param {string} [name] - Only check for `Object.prototype` or for `Function.prototype`.
+ * @returns {boolean} True if the object is one of these built-in prototypes.
+ */
+export function isBuiltinPrototype(candidate: unknown, name?: 'Object' | 'Function'): boolean {
+  if (candidate === Object.prototype) return name !== 'Function';
+  if (candidate === Function.prototype) return name !== 'Object';
+  if (candidate === null || (typeof candidate !== 'object' && typeof candidate !== 'function')) return false;
+  try {
+    const ctor = Object.getOwnPropertyDescriptor(candidate, 'constructor')?.value;
+    return typeof ctor === 'function' &&
+      (name === undefined ? ctor.name === 'Object' || ctor.name === 'Function' : ctor.name === name) &&
+      ctor.prototype === candidate &&
+      isNativeSource(getSource(ctor));
+  } catch (e) {
+    // Descriptor access might be restricted (e.g. by a Proxy trap)
+    return false;
+  }
+}
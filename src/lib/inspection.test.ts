@@ -0,0 +1,167 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { createProxy, isProxy, registerProxy, unwrapProxy } from "./inspection.ts";
+
+let queries = 0;
+
+class Entity {
+  id = 1;
+  save(): void { }
+}
+
+class User extends Entity {
+  name = 'Ada';
+  get posts(): string[] {
+    queries++;
+    return ['hello'];
+  }
+  rename(name: string): void {
+    this.name = name;
+  }
+}
+
+/**
+ * Wraps an object in a Proxy counting every trap call, like the lazy-loading proxies of an ORM.
+ */
+function lazy<T extends object>(target: T, register = true): { proxy: T; traps: string[] } {
+  const traps: string[] = [];
+  const handler = new Proxy({}, {
+    get: (_, trap: string) => (...args: unknown[]) => {
+      traps.push(trap);
+      return (Reflect as any)[trap](...args);
+    },
+  });
+  return { proxy: register ? createProxy(target, handler) : new Proxy(target, handler), traps };
+}
+
+describe('Inspection', () => {
+  it('should never invoke getters on prototypes', () => {
+    queries = 0;
+    for (const reflection of [new ReflectionClass(new User()), new ReflectionClass(new User(), { safe: true })]) {
+      reflection.getMethods();
+      reflection.getPropertyObjects();
+      reflection.getProperty('posts');
+      reflection.members().toArray();
+      reflection.describe();
+    }
+    assert.strictEqual(queries, 0);
+  });
+
+  it('should inspect known proxies through their target in safe mode', () => {
+    const { proxy, traps } = lazy(new User());
+    assert.strictEqual(isProxy(proxy), true);
+    assert.strictEqual(unwrapProxy(proxy) instanceof User, true);
+
+    const reflection = new ReflectionClass(proxy, { safe: true });
+    assert.strictEqual(reflection.getName(), 'User');
+    assert.strictEqual(reflection.getConstructor(), User);
+    assert.deepStrictEqual(reflection.getMethods(), ['rename', 'save']);
+    assert.deepStrictEqual(reflection.getOwnProperties(), ['id', 'name']);
+    assert.strictEqual(reflection.hasProperty('posts'), true);
+    assert.strictEqual(reflection.hasProperty('toString'), true);
+    assert.strictEqual(reflection.getProperty('posts')?.getKind(), 'accessor');
+    assert.deepStrictEqual(reflection.getAncestors(), [Entity, Object]);
+    assert.strictEqual(reflection.describe().name, 'User');
+    assert.strictEqual(traps.length, 0);
+
+    new ReflectionClass(proxy).getMethods();
+    assert.ok(traps.includes('getPrototypeOf'));
+  });
+
+  it('should keep reflecting revoked proxies that were registered', () => {
+    const user = new User();
+    const { proxy, revoke } = Proxy.revocable(user, {});
+    registerProxy(proxy, user);
+    revoke();
+    assert.strictEqual(new ReflectionClass(proxy).getConstructor(), null);
+    assert.throws(() => registerProxy(user, proxy), { name: 'InvalidArgumentError' });
+
+    const reflection = new ReflectionClass(proxy, { safe: true });
+    assert.deepStrictEqual(reflection.getMethods(), ['rename', 'save']);
+    assert.deepStrictEqual(reflection.getInspectionIssues().map((issue) => issue.reason), ['proxy']);
+  });
+
+  it('should report members that could not be inspected instead of skipping them silently', () => {
+    const prototype = new Proxy(User.prototype, {
+      getOwnPropertyDescriptor(target, key) {
+        if (key === 'posts') throw new Error('not loaded');
+        return Reflect.getOwnPropertyDescriptor(target, key);
+      },
+    });
+    const record = Object.create(prototype);
+    const reflection = new ReflectionClass(record);
+    assert.deepStrictEqual(reflection.getMethods(), ['rename', 'save']);
+    assert.strictEqual(reflection.hasMethod('posts'), false);
+
+    const issues = reflection.getInspectionIssues();
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].reason, 'descriptor');
+    assert.strictEqual(issues[0].holder, prototype);
+    assert.strictEqual(issues[0].member, 'posts');
+    assert.strictEqual(issues[0].message, 'Cannot inspect posts on an instance of User: not loaded');
+    assert.ok(issues[0].error instanceof Error);
+  });
+
+  it('should reflect revoked proxies that were not registered without a constructor', () => {
+    const { proxy, revoke } = Proxy.revocable(new User(), {});
+    revoke();
+    for (const safe of [false, true]) {
+      const reflection = new ReflectionClass(proxy, { safe });
+      assert.strictEqual(reflection.getConstructor(), null);
+      assert.strictEqual(reflection.getPrototype(), null);
+      assert.strictEqual(reflection.getName(), '[Anonymous]');
+      assert.deepStrictEqual(reflection.getMethods(), []);
+      assert.deepStrictEqual(reflection.getProperties(), []);
+      assert.strictEqual(reflection.getProperty('name'), null);
+      assert.deepStrictEqual(
+        reflection.getInspectionIssues().map((issue) => [issue.reason, issue.member]),
+        [...(safe ? [] : [['constructor', 'constructor']]), ['keys', null], ['prototype', null]]
+      );
+    }
+    const issue = new ReflectionClass(proxy).getInspectionIssues()[0];
+    assert.match(issue.message, /^Cannot read the constructor of an object: .*revoked/);
+    assert.ok(issue.error instanceof TypeError);
+
+    const { proxy: type, revoke: revokeType } = Proxy.revocable(User, {});
+    revokeType();
+    const reflection = new ReflectionClass(type);
+    assert.strictEqual(reflection.getPrototype(), null);
+    assert.strictEqual(reflection.getInspectionIssues()[0].member, 'prototype');
+  });
+
+  it('should skip members whose keys or descriptors cannot be read in lookups', () => {
+    const unlisted = Object.create(new Proxy(User.prototype, {
+      ownKeys() { throw new Error('ownKeys boom'); },
+    }));
+    const listing = new ReflectionClass(unlisted);
+    assert.deepStrictEqual(listing.getMethods(), ['save']);
+    assert.strictEqual(listing.getProperties().includes('rename'), false);
+    assert.strictEqual(listing.getMethod('rename')?.getName(), 'rename');
+    assert.deepStrictEqual(listing.getInspectionIssues().map((issue) => issue.reason), ['keys']);
+
+    const record = new Proxy(new User(), {
+      getOwnPropertyDescriptor(target, key) {
+        if (key === 'name') throw new Error('gopd boom');
+        return Reflect.getOwnPropertyDescriptor(target, key);
+      },
+    });
+    const reflection = new ReflectionClass(record);
+    assert.strictEqual(reflection.getProperty('name'), null);
+    assert.strictEqual(reflection.getProperty('id')?.getKind(), 'data');
+    assert.strictEqual(reflection.getPropertyObjects().some((property) => property.getName() === 'name'), false);
+    assert.strictEqual(reflection.describe().name, 'User');
+    assert.deepStrictEqual(reflection.getInspectionIssues().map((issue) => [issue.reason, issue.member]), [['descriptor', 'name']]);
+  });
+
+  it('should report proxies whose prototype cannot be read', () => {
+    const { proxy: broken } = lazy(new User(), false);
+    const chain = Object.create(new Proxy(broken, {
+      getPrototypeOf() { throw new Error('detached'); },
+    }));
+    const issues = new ReflectionClass(chain).getInspectionIssues();
+    assert.deepStrictEqual(issues.map((issue) => [issue.reason, issue.member]), [['prototype', null]]);
+    assert.match(issues[0].message, /^Cannot get the prototype of .+: detached$/);
+    assert.deepStrictEqual(new ReflectionClass(new User()).getInspectionIssues(), []);
+  });
+});
@@ -0,0 +1,248 @@
+import { InvalidArgumentError } from "./errors.ts";
+import { formatKey, type MemberKey } from "./keys.ts";
+import { isChainEnd } from "./member-cache.ts";
+
+/**
+ * Why part of a prototype chain could not be inspected:
+ * - `proxy`: a known Proxy, whose target was inspected instead of running its traps (safe mode);
+ * - `constructor`: reading the `constructor` or `prototype` of the target threw, so it is reflected without one;
+ * - `keys`: listing the own keys of an object threw;
+ * - `descriptor`: reading the descriptor of a member threw;
+ * - `prototype`: getting the prototype of an object threw, so the rest of the chain was not inspected.
+ */
+export type InspectionIssueReason = 'proxy' | 'constructor' | 'keys' | 'descriptor' | 'prototype';
+
+/**
+ * @interface InspectionIssue
+ * @description A part of a prototype chain that reflection could not inspect, with the reason.
+ */
+export interface InspectionIssue {
+  /** Why the object or member could not be inspected. */
+  reason: InspectionIssueReason;
+  /** The object of the chain the issue was found on. */
+  holder: object;
+  /** The member that could not be inspected, or null if the issue concerns the whole object. */
+  member: MemberKey | null;
+  /** A human-readable description of the issue. */
+  message: string;
+  /** The error that was thrown, if any (e.g. by a Proxy trap). */
+  error?: unknown;
+}
+
+/**
+ * Proxies created with `createProxy()` or registered with `registerProxy()`, mapped to their targets.
+ * Weak keys let proxies be garbage collected.
+ */
+const proxies = new WeakMap<object, object>();
+
+/**
+ * Creates a Proxy that reflection recognizes: in safe mode, its target is inspected instead of running its traps.
+ * @param {T} target - The proxy target.
+ * @param {ProxyHandler<T>} handler - The proxy handler.
+ * @returns {T} The proxy.
+ */
+export function createProxy<T extends object>(target: T, handler: ProxyHandler<T>): T {
+  return registerProxy(new Proxy(target, handler), target);
+}
+
+/**
+ * Registers a Proxy created elsewhere (e.g. by an ORM or with `Proxy.revocable()`), so reflection
+ * recognizes it. Proxies cannot be detected otherwise: the language hides them on purpose.
+ * @param {T} proxy - The proxy.
+ * @param {object} target - The target the proxy was created with.
+ * @returns {T} The proxy, for chaining.
+ * @throws {InvalidArgumentError} If the target is the proxy itself, directly or through other registered proxies.
+ */
+export function registerProxy<T extends object>(proxy: T, target: object): T {
+  if (unwrapProxy(target) === proxy) {
+    throw new InvalidArgumentError('A proxy cannot be registered as its own target.');
+  }
+  proxies.set(proxy, target);
+  return proxy;
+}
+
+/**
+ * Checks if a value is a Proxy created with `createProxy()` or registered with `registerProxy()`.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True for known proxies; false for other values, including unregistered proxies.
+ */
+export function isProxy(value: unknown): boolean {
+  return value !== null && (typeof value === 'object' || typeof value === 'function') && proxies.has(value);
+}
+
+/**
+ * Follows known proxies to the object they wrap, through proxies of proxies.
+ * @param {T} value - The object.
+ * @returns {T} The innermost target, or the object itself if it is not a known proxy.
+ */
+export function unwrapProxy<T extends object>(value: T): T {
+  let current: object = value;
+  while (proxies.has(current)) {
+    current = proxies.get(current)!;
+  }
+  return current as T;
+}
+
+/**
+ * Gets the next object of a prototype chain. In safe mode, known proxies are unwrapped so their traps never run.
+ * A prototype that cannot be read (e.g. of a revoked Proxy) ends the chain; `inspectChain()` reports it.
+ * @param {object} holder - The current object of the chain.
+ * @param {boolean} safe - Whether to unwrap known proxies.
+ * @returns {object|null} The prototype, or null if it cannot be read.
+ */
+export function prototypeOf(holder: object, safe: boolean): object | null {
+  try {
+    return nextPrototype(holder, safe);
+  } catch (e) {
+    // Prototype access might be restricted (e.g. by a Proxy trap)
+    return null;
+  }
+}
+
+/**
+ * Gets the next object of a prototype chain like `prototypeOf()`, but lets errors through.
+ */
+function nextPrototype(holder: object, safe: boolean): object | null {
+  const next = Object.getPrototypeOf(safe ? unwrapProxy(holder) : holder);
+  return safe && next ? unwrapProxy(next) : next;
+}
+
+/**
+ * Reads the descriptor of an own property. Lookups skip members whose descriptor cannot be read;
+ * `inspectChain()` reports them.
+ * @param {object} holder - The object owning the property.
+ * @param {PropertyKey} key - The property key.
+ * @returns {PropertyDescriptor|undefined} The descriptor, or undefined if the property is missing or cannot be read.
+ */
+export function ownDescriptor(holder: object, key: PropertyKey): PropertyDescriptor | undefined {
+  try {
+    return Object.getOwnPropertyDescriptor(holder, key);
+  } catch (e) {
+    // Descriptor access might be restricted (e.g. by a Proxy trap)
+    return undefined;
+  }
+}
+
+/**
+ * Reads an own data property from its descriptor, so accessors are never invoked.
+ * @param {object|null} holder - The object owning the property.
+ * @param {PropertyKey} key - The property key.
+ * @returns {unknown} The value, or undefined for accessors and missing or unreadable properties.
+ */
+export function dataValue(holder: object | null, key: PropertyKey): unknown {
+  return holder ? ownDescriptor(holder, key)?.value : undefined;
+}
+
+/**
+ * Reads the `constructor` or `prototype` of a reflected target, running accessors and Proxy traps.
+ * @param {object} target - The target.
+ * @param {string} key - The property to read.
+ * @returns {[unknown, InspectionIssue|null]} The value, or undefined and the issue if reading it threw
+ * (e.g. because the target is a revoked Proxy).
+ */
+export function readTargetProperty(target: object, key: 'constructor' | 'prototype'): [unknown, InspectionIssue | null] {
+  try {
+    return [(target as any)[key], null];
+  } catch (error) {
+    return [undefined, {
+      reason: 'constructor',
+      holder: target,
+      member: key,
+      message: `Cannot read the ${key} of ${describeHolder(target)}: ${errorMessage(error)}`,
+      error,
+    }];
+  }
+}
+
+/**
+ * Finds the `constructor` of an object without invoking accessors or the traps of known proxies:
+ * the nearest `constructor` data property of its chain.
+ * @param {object} target - The object.
+ * @returns {unknown} The constructor, or undefined if the nearest `constructor` is an accessor, missing or cannot be read.
+ */
+export function safeConstructorOf(target: object): unknown {
+  for (let current: object | null = unwrapProxy(target); current; current = prototypeOf(current, true)) {
+    let descriptor: PropertyDescriptor | undefined;
+    try {
+      descriptor = Object.getOwnPropertyDescriptor(current, 'constructor');
+    } catch (e) {
+      // An unreadable `constructor` hides the one further up the chain, so there is none to report
+      return undefined;
+    }
+    if (descriptor) return descriptor.value;
+  }
+  return undefined;
+}
+
+/**
+ * Walks a prototype chain the way member lookups do, and reports what could not be inspected
+ * instead of skipping it. Stops at the built-in `Object.prototype` and `Function.prototype`.
+ * @param {object} start - The class (static side) or the instance or prototype (instance side).
+ * @param {boolean} safe - Whether known proxies are unwrapped instead of running their traps.
+ * @returns {InspectionIssue[]} The issues, in chain order.
+ */
+export function inspectChain(start: object, safe: boolean): InspectionIssue[] {
+  const issues: InspectionIssue[] = [];
+  const report = (reason: InspectionIssueReason, holder: object, member: MemberKey | null, message: string, error?: unknown) => {
+    issues.push(error === undefined ? { reason, holder, member, message } : { reason, holder, member, message, error });
+  };
+
+  let current: object | null = start;
+  while (!isChainEnd(current)) {
+    let holder = current!;
+    if (safe && proxies.has(holder)) {
+      const target = unwrapProxy(holder);
+      report('proxy', holder, null, `Proxy around ${describeHolder(target)}: its target was inspected instead of running its traps.`);
+      holder = target;
+    }
+
+    let keys: MemberKey[] = [];
+    try {
+      keys = Reflect.ownKeys(holder);
+    } catch (error) {
+      report('keys', holder, null, `Cannot list the members of ${describeHolder(holder)}: ${errorMessage(error)}`, error);
+    }
+    for (const key of keys) {
+      try {
+        Object.getOwnPropertyDescriptor(holder, key);
+      } catch (error) {
+        report('descriptor', holder, key, `Cannot inspect ${formatKey(key)} on ${describeHolder(holder)}: ${errorMessage(error)}`, error);
+      }
+    }
+
+    try {
+      current = nextPrototype(holder, safe);
+    } catch (error) {
+      report('prototype', holder, null, `Cannot get the prototype of ${describeHolder(holder)}: ${errorMessage(error)}`, error);
+      break;
+    }
+  }
+  return issues;
+}
+
+/**
+ * Names an object of a prototype chain for messages: `User`, `User.prototype` or `an instance of User`.
+ * Only descriptors are read, and objects that cannot be read are described as `an object`.
+ */
+function describeHolder(holder: object): string {
+  try {
+    const nameOf = (type: unknown) => {
+      const name = typeof type === 'function' ? dataValue(type, 'name') : undefined;
+      return typeof name === 'string' && name ? name : '[Anonymous]';
+    };
+    if (typeof holder === 'function') return nameOf(holder);
+    const ctor = dataValue(holder, 'constructor');
+    if (typeof ctor === 'function' && dataValue(ctor, 'prototype') === holder) return `${nameOf(ctor)}.prototype`;
+    const type = safeConstructorOf(holder);
+    return typeof type === 'function' ? `an instance of ${nameOf(type)}` : 'an object';
+  } catch (e) {
+    return 'an object';
+  }
+}
+
+/**
+ * Gets the message of a thrown value.
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,256 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { Interceptor, type InvocationContext } from "./interceptor.ts";
+
+class Repository {
+  items: string[] = [];
+  save(item: string, index: number): number {
+    this.items.push(item);
+    return this.items.length;
+  }
+  async load(id: string): Promise<string> {
+    return `item-${id}`;
+  }
+  async loadMany(...ids: string[]): Promise<string[]> {
+    return ids.map((id) => `item-${id}`);
+  }
+  fail(): void {
+    throw new Error('failed');
+  }
+  [Symbol.iterator]() {
+    return this.items[Symbol.iterator]();
+  }
+  static create(): Repository {
+    return new Repository();
+  }
+}
+
+class CachedRepository extends Repository {
+  clear(): void {
+    this.items = [];
+  }
+}
+
+describe('Interceptor', () => {
+  describe('Selecting methods', () => {
+    it('should select methods by name, glob, list and predicate', () => {
+      const prototype = new ReflectionClass(Repository.prototype);
+      const select = (selector: any) => {
+        const interceptor = prototype.intercept(selector, {});
+        interceptor.restore();
+        return interceptor.getMethods();
+      };
+      assert.deepStrictEqual(select('save'), ['save']);
+      assert.deepStrictEqual(select('load*'), ['load', 'loadMany']);
+      assert.deepStrictEqual(select('loa?'), ['load']);
+      assert.deepStrictEqual(select(['save', Symbol.iterator]), ['save', Symbol.iterator]);
+      assert.deepStrictEqual(select((method: any) => method.isAsync()), ['load', 'loadMany']);
+      assert.deepStrictEqual(select('nothing*'), []);
+    });
+
+    it('should throw TypeError for exact names that are not methods', () => {
+      assert.throws(
+        () => new ReflectionClass(Repository.prototype).intercept(['save', 'missing'], {}),
+        /Cannot intercept Repository\.missing: no such method\./
+      );
+      assert.strictEqual(Object.hasOwn(Repository.prototype, 'save'), true);
+      assert.strictEqual(Repository.prototype.save.name, 'save');
+    });
+
+    it('should intercept static methods when reflecting a class', () => {
+      const calls: string[] = [];
+      const interceptor = new ReflectionClass(Repository).intercept('*', {
+        before: (context) => { calls.push(String(context.name)); },
+      });
+      Repository.create();
+      interceptor.restore();
+      Repository.create();
+      assert.deepStrictEqual(calls, ['create']);
+    });
+  });
+
+  describe('Hooks', () => {
+    it('should run before and after hooks, preserving this, name and length', () => {
+      const events: unknown[] = [];
+      const interceptor = new ReflectionClass(Repository.prototype).intercept('save', {
+        before: (context) => { events.push(['before', context.args]); },
+        after: (context, result) => { events.push(['after', result, context.target instanceof Repository]); },
+      });
+      const repository = new Repository();
+      assert.strictEqual(repository.save('a', 0), 1);
+      assert.deepStrictEqual(repository.items, ['a']);
+      assert.deepStrictEqual(events, [['before', ['a', 0]], ['after', 1, true]]);
+      assert.strictEqual(Repository.prototype.save.name, 'save');
+      assert.strictEqual(Repository.prototype.save.length, 2);
+      interceptor.restore();
+    });
+
+    it('should let around replace arguments and results, and retry', () => {
+      let attempts = 0;
+      const repository = new Repository();
+      repository.fail = function () {
+        attempts++;
+        if (attempts < 3) throw new Error('flaky');
+      };
+      const reflection = new ReflectionClass(repository);
+      reflection.intercept('fail', {
+        around: (context, proceed) => {
+          for (;;) {
+            try {
+              return proceed();
+            } catch (error) {
+              if (attempts >= 5) throw error;
+            }
+          }
+        },
+      });
+      reflection.intercept('save', {
+        around: (context, proceed) => proceed(['changed', 1]) * 10,
+      });
+      repository.fail();
+      assert.strictEqual(attempts, 3);
+      assert.strictEqual(repository.save('original', 0), 10);
+      assert.deepStrictEqual(repository.items, ['changed']);
+    });
+
+    it('should call onError and rethrow', () => {
+      const errors: unknown[] = [];
+      const interceptor = new ReflectionClass(Repository.prototype).intercept('fail', {
+        onError: (context, error) => { errors.push((error as Error).message); },
+        after: () => assert.fail('after should not run'),
+      });
+      assert.throws(() => new Repository().fail(), /failed/);
+      assert.deepStrictEqual(errors, ['failed']);
+      interceptor.restore();
+    });
+
+    it('should support async methods', async () => {
+      const events: unknown[] = [];
+      const interceptor = new ReflectionClass(Repository.prototype).intercept('load*', {
+        before: (context) => { events.push(`before ${String(context.name)}`); },
+        after: (context, result) => { events.push(result); },
+        onError: (context, error) => { events.push((error as Error).message); },
+      });
+      const repository = new Repository();
+      assert.strictEqual(await repository.load('1'), 'item-1');
+      assert.deepStrictEqual(await repository.loadMany('2', '3'), ['item-2', 'item-3']);
+      assert.deepStrictEqual(events, ['before load', 'item-1', 'before loadMany', ['item-2', 'item-3']]);
+      assert.strictEqual(new ReflectionClass(repository).getMethod('load')?.getKind(), 'async');
+      interceptor.restore();
+
+      const failing = new ReflectionClass(repository).intercept('load', {
+        around: async () => { throw new Error('offline'); },
+        onError: (context, error) => { events.push((error as Error).message); },
+      });
+      await assert.rejects(repository.load('4'), /offline/);
+      assert.strictEqual(events.at(-1), 'offline');
+      failing.restore();
+    });
+
+    it('should not pass errors thrown by after to onError, for sync and async methods', async () => {
+      const errors: unknown[] = [];
+      const interceptor = new ReflectionClass(Repository.prototype).intercept(['save', 'load'], {
+        after: () => { throw new Error('after failed'); },
+        onError: (context, error) => { errors.push(error); },
+      });
+      const repository = new Repository();
+      assert.throws(() => repository.save('a', 0), /after failed/);
+      await assert.rejects(repository.load('1'), /after failed/);
+      assert.deepStrictEqual(errors, []);
+      interceptor.restore();
+    });
+
+    it('should return thenables that are not native promises as they are', () => {
+      class Query {
+        runs = 0;
+        where(): this { return this; }
+        then(resolve: (rows: string[]) => void): void {
+          this.runs++;
+          resolve(['row']);
+        }
+      }
+      class Table {
+        query(): Query { return new Query(); }
+      }
+      const results: unknown[] = [];
+      const interceptor = new ReflectionClass(Table.prototype).intercept('query', {
+        after: (context, result) => { results.push(result); },
+      });
+      const query = new Table().query();
+      assert.ok(query instanceof Query);
+      assert.strictEqual(query.where(), query);
+      assert.deepStrictEqual(results, [query]);
+      assert.strictEqual(query.runs, 0);
+      interceptor.restore();
+    });
+
+    it('should refuse to intercept generator methods', () => {
+      class Feed {
+        *entries(): Generator<number> { yield 1; }
+        async *pages(): AsyncGenerator<number> { yield 1; }
+      }
+      for (const name of ['entries', 'pages']) {
+        assert.throws(() => new ReflectionClass(Feed.prototype).intercept(name, {}), {
+          name: 'InvalidArgumentError',
+          message: `Cannot intercept Feed.${name}: generator methods are not supported.`,
+        });
+      }
+      assert.strictEqual(Object.hasOwn(Feed.prototype, 'entries'), true);
+      assert.strictEqual(new ReflectionClass(Feed.prototype).getMethod('entries')?.getKind(), 'generator');
+    });
+
+    it('should expose the reflected method in the context', () => {
+      let context: InvocationContext | undefined;
+      const interceptor = new ReflectionClass(Repository.prototype).intercept(Symbol.iterator, {
+        before: (current) => { context = current; },
+      });
+      assert.deepStrictEqual([...new Repository()], []);
+      assert.strictEqual(context?.method.getDeclaringClass(), Repository);
+      assert.strictEqual(context?.name, Symbol.iterator);
+      interceptor.restore();
+    });
+  });
+
+  describe('Restoring', () => {
+    it('should restore own methods and remove shadowing wrappers', () => {
+      const save = Repository.prototype.save;
+      const clear = CachedRepository.prototype.clear;
+      const interceptor = new ReflectionClass(CachedRepository.prototype).intercept(['save', 'clear'], {});
+      assert.strictEqual(Object.hasOwn(CachedRepository.prototype, 'save'), true);
+      assert.strictEqual(Repository.prototype.save, save);
+      assert.ok(interceptor instanceof Interceptor);
+      assert.strictEqual(interceptor.toString(), 'Interceptor for [CachedRepository: save, clear]');
+
+      interceptor.restore();
+      assert.strictEqual(interceptor.isActive(), false);
+      assert.strictEqual(Object.hasOwn(CachedRepository.prototype, 'save'), false);
+      assert.strictEqual(CachedRepository.prototype.save, save);
+      assert.deepStrictEqual(
+        Object.getOwnPropertyDescriptor(CachedRepository.prototype, 'clear'),
+        { value: clear, writable: true, enumerable: false, configurable: true }
+      );
+    });
+
+    it('should stop running hooks when a wrapped wrapper is restored', () => {
+      const calls: string[] = [];
+      const instance = new Repository();
+      const reflection = new ReflectionClass(instance);
+      const inner = reflection.intercept('save', { before: () => { calls.push('inner'); } });
+      const outer = reflection.intercept('save', { before: () => { calls.push('outer'); } });
+
+      instance.save('a', 0);
+      inner.restore();
+      instance.save('b', 1);
+      outer.restore();
+      instance.save('c', 2);
+      assert.deepStrictEqual(calls, ['outer', 'inner', 'outer']);
+      assert.strictEqual(Object.hasOwn(instance, 'save'), false);
+    });
+
+    it('should refuse to wrap read-only methods', () => {
+      const frozen = Object.freeze({ run() { } });
+      assert.throws(() => new ReflectionClass(frozen).intercept('run', {}), TypeError);
+    });
+  });
+});
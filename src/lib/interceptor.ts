@@ -0,0 +1,323 @@
+import { InvalidArgumentError, ReadOnlyMemberError } from "./errors.ts";
+import { formatKey, type MemberKey } from "./keys.ts";
+import { invalidate } from "./member-cache.ts";
+import type { ReflectionMethod } from "./reflection-method.ts";
+
+/**
+ * Selects the methods to intercept: a method name or symbol, a glob pattern over method names
+ * (`*` matches any run of characters, `?` a single one), a list of those, or a predicate.
+ */
+export type MethodSelector =
+  | PropertyKey
+  | readonly PropertyKey[]
+  | ((method: ReflectionMethod) => boolean);
+
+/**
+ * @interface InvocationContext
+ * @description Describes a single call of an intercepted method.
+ */
+export interface InvocationContext {
+  /** The `this` value of the call. */
+  target: any;
+  method: ReflectionMethod;
+  name: MemberKey;
+  /** The call arguments. Hooks may replace them before the original method runs. */
+  args: unknown[];
+}
+
+/**
+ * @interface InterceptorHooks
+ * @description Hooks run around every call of an intercepted method.
+ * For methods returning a native promise, `after` and `onError` run once the promise settles.
+ * Other thenables are returned as they are, and passed to `after` without being awaited.
+ */
+export interface InterceptorHooks {
+  /** Runs before the method (and before `around`). */
+  before?(context: InvocationContext): void;
+  /**
+   * Wraps the call. `proceed` calls the original method, with `context.args` unless other arguments
+   * are given, and may be called any number of times (e.g. for retries). Its return value is the result.
+   */
+  around?(context: InvocationContext, proceed: (args?: unknown[]) => any): unknown;
+  /** Runs after the method returned, with its result. Errors it throws are not passed to `onError`. */
+  after?(context: InvocationContext, result: unknown): void;
+  /** Runs when the method (or a hook before it) threw or rejected; the error is rethrown afterwards. */
+  onError?(context: InvocationContext, error: unknown): void;
+}
+
+/**
+ * A wrapper installed by an interceptor.
+ */
+interface InstalledMethod {
+  key: MemberKey;
+  wrapper: Function;
+}
+
+/**
+ * What an installed wrapper replaced, so it can be removed again.
+ */
+interface InstalledWrapper {
+  interceptor: Interceptor;
+  /** The own property the wrapper replaced, or undefined if the method was inherited. */
+  descriptor: PropertyDescriptor | undefined;
+}
+
+/**
+ * Every wrapper installed by an interceptor. Lets `restore()` unwind wrappers of interceptors
+ * that were restored while wrapped by another one.
+ */
+const installedWrappers = new WeakMap<Function, InstalledWrapper>();
+
+/**
+ * Checks if a glob pattern matches a method name.
+ * @param {string} pattern - The pattern; `*` matches any run of characters, `?` a single one.
+ * @param {string} name - The method name.
+ * @returns {boolean} True if the name matches.
+ */
+function matchesGlob(pattern: string, name: string): boolean {
+  const source = pattern
+    .split('')
+    .map((char) => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[\\^$.+()|[\]{}]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Checks if a selector names a single method or a list of methods without wildcards.
+ * Exact names that do not resolve to a method are reported as errors; patterns may match nothing.
+ * @param {MethodSelector} selector - The selector.
+ * @returns {PropertyKey[]|null} The exact names, or null if the selector is a pattern or predicate.
+ */
+export function exactMethodNames(selector: MethodSelector): PropertyKey[] | null {
+  if (typeof selector === 'function') return null;
+  const keys: readonly PropertyKey[] = Array.isArray(selector) ? selector : [selector as PropertyKey];
+  return keys.some((key) => typeof key === 'string' && /[*?]/.test(key)) ? null : Array.from(new Set(keys));
+}
+
+/**
+ * Checks if a method is selected.
+ * @param {MethodSelector} selector - The selector.
+ * @param {ReflectionMethod} method - The candidate method.
+ * @returns {boolean} True if the method is selected.
+ */
+export function matchesSelector(selector: MethodSelector, method: ReflectionMethod): boolean {
+  if (typeof selector === 'function') return selector(method);
+  const name = method.getName();
+  const keys: readonly PropertyKey[] = Array.isArray(selector) ? selector : [selector as PropertyKey];
+  return keys.some((key) =>
+    typeof key === 'string' && typeof name === 'string'
+      ? matchesGlob(key, name)
+      : (typeof key === 'number' ? String(key) : key) === name
+  );
+}
+
+/**
+ * Checks if a value is a native promise. Other thenables (e.g. query builders) are not: calling `then`
+ * may run them, and chaining onto them would hand callers a different object.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value inherits directly from `Promise.prototype`.
+ */
+function isNativePromise(value: unknown): value is Promise<unknown> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Promise.prototype;
+}
+
+/**
+ * @class Interceptor
+ * @description Wraps selected methods of a class, prototype or instance with hooks.
+ * Created by `ReflectionClass#intercept()`; `restore()` puts the original methods back.
+ * @example
+ * ```ts
+ * const timing = new ReflectionClass(Service.prototype).intercept('fetch*', {
+ *   around: async (context, proceed) => {
+ *     const start = performance.now();
+ *     try { return await proceed(); } finally { console.log(context.name, performance.now() - start); }
+ *   },
+ * });
+ * timing.restore();
+ * ```
+ */
+export class Interceptor {
+  /**
+   * @type {object}
+   * @private
+   * The object the wrappers are installed on.
+   */
+  private _target: object;
+
+  /**
+   * @type {string}
+   * @private
+   * The name of the intercepted class, used in messages.
+   */
+  private _name: string;
+
+  /**
+   * @type {InstalledMethod[]}
+   * @private
+   * The installed wrappers.
+   */
+  private _installed: InstalledMethod[] = [];
+
+  /**
+   * @type {boolean}
+   * @private
+   * Whether the hooks still run. Wrappers that could not be removed pass calls straight through once inactive.
+   */
+  private _active = true;
+
+  /**
+   * Creates an instance of Interceptor and installs the wrappers.
+   * Every selected method gets an own property on the target; inherited methods are shadowed,
+   * so the classes they are declared in are left untouched.
+   * @param {object} target - The class, prototype or instance to install the wrappers on.
+   * @param {string} name - The name of the intercepted class.
+   * @param {ReflectionMethod[]} methods - The methods to wrap.
+   * @param {InterceptorHooks} hooks - The hooks to run.
+   * @throws {InvalidArgumentError} If one of the methods is a generator.
+   * @throws {ReadOnlyMemberError} If one of the methods cannot be redefined on the target.
+   */
+  constructor(target: object, name: string, methods: ReflectionMethod[], hooks: InterceptorHooks) {
+    this._target = target;
+    this._name = name;
+
+    for (const method of methods) {
+      if (method.isGenerator()) {
+        // The hooks would run when the generator object is created, not while it is iterated
+        throw new InvalidArgumentError(`Cannot intercept ${name}.${formatKey(method.getName())}: generator methods are not supported.`, {
+          target: name,
+          member: method.getName(),
+        });
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(target, method.getName());
+      if (descriptor && !descriptor.configurable && !descriptor.writable) {
+        throw new ReadOnlyMemberError(`Cannot intercept ${name}.${formatKey(method.getName())}: the method is read-only.`, {
+          target: name,
+          member: method.getName(),
+        });
+      }
+      if (!descriptor && !Object.isExtensible(target)) {
+        throw new ReadOnlyMemberError(`Cannot intercept ${name}.${formatKey(method.getName())}: the object is not extensible.`, {
+          target: name,
+          member: method.getName(),
+        });
+      }
+    }
+
+    for (const method of methods) {
+      const key = method.getName();
+      const descriptor = Object.getOwnPropertyDescriptor(target, key);
+      const wrapper = this._wrap(method, hooks);
+      Object.defineProperty(target, key, descriptor
+        ? { ...descriptor, value: wrapper }
+        : { value: wrapper, writable: true, enumerable: false, configurable: true });
+      this._installed.push({ key, wrapper });
+      installedWrappers.set(wrapper, { interceptor: this, descriptor });
+    }
+    invalidate(target);
+  }
+
+  /**
+   * Gets the intercepted methods.
+   * @returns {MemberKey[]} The names or symbols of the intercepted methods.
+   */
+  getMethods(): MemberKey[] {
+    return this._installed.map((installed) => installed.key);
+  }
+
+  /**
+   * Checks if the hooks are still running.
+   * @returns {boolean} False once `restore()` has been called.
+   */
+  isActive(): boolean {
+    return this._active;
+  }
+
+  /**
+   * Removes the wrappers, restoring the original methods.
+   * A wrapper that has since been wrapped again (e.g. by another interceptor) cannot be removed
+   * without dropping the outer wrapper; it stays in place but no longer runs the hooks,
+   * and is removed as well once the outer wrapper is.
+   */
+  restore(): void {
+    if (!this._active) return;
+    this._active = false;
+    for (const { key, wrapper } of this._installed) {
+      if (Object.getOwnPropertyDescriptor(this._target, key)?.value !== wrapper) continue;
+      let descriptor = installedWrappers.get(wrapper)?.descriptor;
+      let replaced: InstalledWrapper | undefined;
+      while ((replaced = installedWrappers.get(descriptor?.value)) && !replaced.interceptor.isActive()) {
+        descriptor = replaced.descriptor;
+      }
+      if (descriptor) {
+        Object.defineProperty(this._target, key, descriptor);
+      } else {
+        delete (this._target as any)[key];
+      }
+    }
+    invalidate(this._target);
+  }
+
+  /**
+   * Creates the wrapper for a method. It keeps the name and `length` of the original,
+   * and is itself async when the original is, so reflecting it reports the same kind.
+   * @param {ReflectionMethod} method - The method to wrap.
+   * @param {InterceptorHooks} hooks - The hooks to run.
+   * @returns {Function} The wrapper.
+   * @private
+   */
+  private _wrap(method: ReflectionMethod, hooks: InterceptorHooks): Function {
+    const original = method.getClosure();
+    const interceptor = this;
+    const call = function (this: any, args: unknown[]): unknown {
+      return interceptor._active
+        ? runHooks(method, hooks, this, args)
+        : original.apply(this, args);
+    };
+    const wrapper = method.getKind() === 'async'
+      ? async function (this: any, ...args: unknown[]) { return call.call(this, args); }
+      : function (this: any, ...args: unknown[]) { return call.call(this, args); };
+    Object.defineProperty(wrapper, 'name', { value: original.name, configurable: true });
+    Object.defineProperty(wrapper, 'length', { value: original.length, configurable: true });
+    return wrapper;
+  }
+
+  /**
+   * Returns a string representation of the interceptor.
+   * @returns {string} A string describing the interceptor.
+   */
+  toString(): string {
+    return `Interceptor for [${this._name}: ${this.getMethods().map(formatKey).join(', ')}]`;
+  }
+}
+
+/**
+ * Runs one call of an intercepted method through the hooks.
+ * @param {ReflectionMethod} method - The intercepted method.
+ * @param {InterceptorHooks} hooks - The hooks to run.
+ * @param {any} self - The `this` value of the call.
+ * @param {unknown[]} args - The call arguments.
+ * @returns {unknown} The result of the call; a new promise if the method returned a native promise.
+ */
+function runHooks(method: ReflectionMethod, hooks: InterceptorHooks, self: any, args: unknown[]): unknown {
+  const original = method.getClosure();
+  const context: InvocationContext = { target: self, method, name: method.getName(), args };
+  const proceed = (proceedArgs: unknown[] = context.args) => original.apply(self, proceedArgs);
+  const fail = (error: unknown): never => {
+    hooks.onError?.(context, error);
+    throw error;
+  };
+  // Shared by both paths, so errors thrown by `after` are never passed to `onError`
+  const complete = (value: unknown): unknown => {
+    hooks.after?.(context, value);
+    return value;
+  };
+
+  let result: unknown;
+  try {
+    hooks.before?.(context);
+    result = hooks.around ? hooks.around(context, proceed) : proceed();
+  } catch (error) {
+    return fail(error);
+  }
+  return isNativePromise(result) ? result.then(complete, fail) : complete(result);
+}
@@ -0,0 +1,74 @@
+/**
+ * A property key as it appears on an object: numeric keys are always strings.
+ */
+export type MemberKey = string | symbol;
+
+/**
+ * @interface MemberListOptions
+ * @description Options accepted by the member listing methods of ReflectionClass.
+ */
+export interface MemberListOptions {
+  /** Include symbol-keyed members (e.g. `Symbol.iterator`). Defaults to false. */
+  includeSymbols?: boolean;
+}
+
+/**
+ * Normalizes a property key the way the engine does (numbers become strings).
+ * @param {PropertyKey} key - The key to normalize.
+ * @returns {MemberKey} The normalized key.
+ */
+export function toMemberKey(key: PropertyKey): MemberKey {
+  return typeof key === 'number' ? String(key) : key;
+}
+
+/**
+ * Formats a key for messages: strings as-is, symbols as `[description]`.
+ * @param {PropertyKey} key - The key to format.
+ * @returns {string} The printable key.
+ */
+export function formatKey(key: PropertyKey): string {
+  return typeof key === 'symbol' ? `[${key.description ?? ''}]` : String(key);
+}
+
+/**
+ * Lists the own keys of an object.
+ * @param {object} target - The object to inspect.
+ * @param {boolean} includeSymbols - Whether to include symbol keys.
+ * @returns {MemberKey[]} The own keys, strings first; none if they cannot be listed.
+ */
+export function ownKeys(target: object, includeSymbols: boolean): MemberKey[] {
+  try {
+    return includeSymbols
+      ? Reflect.ownKeys(target)
+      : Object.getOwnPropertyNames(target);
+  } catch (e) {
+    // Key listing might be restricted (e.g. by a Proxy trap)
+    return [];
+  }
+}
+
+/**
+ * Sorts keys for stable output: strings alphabetically, followed by symbols in their original order.
+ * @param {Iterable<MemberKey>} keys - The keys to sort.
+ * @returns {MemberKey[]} The sorted keys.
+ */
+export function sortKeys(keys: Iterable<MemberKey>): MemberKey[] {
+  const strings: string[] = [];
+  const symbols: symbol[] = [];
+  for (const key of keys) {
+    if (typeof key === 'symbol') symbols.push(key);
+    else strings.push(key);
+  }
+  return [...strings.sort(), ...symbols];
+}
+
+/**
+ * Checks if a static member is one of the properties every function has.
+ * User-defined static fields with these names are enumerable, the built-ins are not.
+ * @param {MemberKey} key - The member key.
+ * @param {boolean} enumerable - Whether the property is enumerable.
+ * @returns {boolean} True for the built-in `length`, `name` and `prototype`.
+ */
+export function isBuiltinFunctionProperty(key: MemberKey, enumerable: boolean): boolean {
+  return !enumerable && (key === 'length' || key === 'name' || key === 'prototype');
+}
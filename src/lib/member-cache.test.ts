@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { getMemberIndex, invalidate } from "./member-cache.ts";
+
+class Base {
+  static create(): Base { return new Base(); }
+  get expensive(): number { throw new Error('getter should not run'); }
+  save(): void { }
+}
+
+class Child extends Base {
+  load(): void { }
+}
+
+describe('Member cache', () => {
+  it('should return the same results as uncached reflection', () => {
+    for (const target of [Child, new Child(), Child.prototype]) {
+      const cached = new ReflectionClass(target, { cache: true });
+      const uncached = new ReflectionClass(target);
+      assert.deepStrictEqual(cached.getMethods(), uncached.getMethods());
+      assert.deepStrictEqual(cached.getProperties({ includeSymbols: true }), uncached.getProperties({ includeSymbols: true }));
+      assert.strictEqual(cached.hasMethod('save'), uncached.hasMethod('save'));
+      assert.strictEqual(cached.hasMethod('constructor'), uncached.hasMethod('constructor'));
+      assert.strictEqual(cached.getMethod('save')?.getDeclaringClass(), uncached.getMethod('save')?.getDeclaringClass());
+      assert.strictEqual(cached.getProperty('expensive')?.getKind(), uncached.getProperty('expensive')?.getKind());
+    }
+  });
+
+  it('should share indexes between reflections and never invoke getters', () => {
+    const index = getMemberIndex(Child.prototype);
+    assert.strictEqual(getMemberIndex(Child.prototype), index);
+    assert.deepStrictEqual(index.holders, [Child.prototype, Base.prototype]);
+    assert.strictEqual(index.members.get('expensive')?.holder, Base.prototype);
+    assert.doesNotThrow(() => new ReflectionClass(new Child(), { cache: true }).getPropertyObjects());
+  });
+
+  it('should keep stale members until invalidated, including for subclasses', () => {
+    class Service { start(): void { } }
+    class Api extends Service { }
+    const reflection = new ReflectionClass(Api.prototype, { cache: true });
+    assert.strictEqual(reflection.hasMethod('stop'), false);
+
+    (Service.prototype as any).stop = () => { };
+    assert.strictEqual(reflection.hasMethod('stop'), false);
+    ReflectionClass.invalidate(Service);
+    assert.strictEqual(reflection.hasMethod('stop'), true);
+    assert.strictEqual(new ReflectionClass(Api, { cache: true }).getMethod('stop'), null);
+
+    delete (Service.prototype as any).stop;
+    new ReflectionClass(Service).invalidate();
+    assert.strictEqual(reflection.hasMethod('stop'), false);
+  });
+
+  it('should notice prototype changes without invalidation', () => {
+    class Left { left(): void { } }
+    class Right { right(): void { } }
+    const target = Object.create(Left.prototype);
+    const reflection = new ReflectionClass(target, { cache: true });
+    assert.deepStrictEqual(reflection.getMethods(), ['left']);
+    Object.setPrototypeOf(Left.prototype, Right.prototype);
+    assert.deepStrictEqual(reflection.getMethods(), ['left', 'right']);
+  });
+
+  it('should be refreshed by interceptors', () => {
+    class Worker { run(): number { return 1; } }
+    const reflection = new ReflectionClass(new Worker(), { cache: true });
+    const original = reflection.getMethod('run')?.getClosure();
+    const interceptor = new ReflectionClass(Worker.prototype).intercept('run', {});
+    assert.notStrictEqual(reflection.getMethod('run')?.getClosure(), original);
+    interceptor.restore();
+    assert.strictEqual(reflection.getMethod('run')?.getClosure(), original);
+  });
+
+  it('invalidate without a target should clear the whole cache', () => {
+    const index = getMemberIndex(Base);
+    invalidate();
+    assert.notStrictEqual(getMemberIndex(Base), index);
+    assert.deepStrictEqual(new ReflectionClass(Base, { cache: true }).getMethods(), ['create']);
+  });
+});
@@ -0,0 +1,206 @@
+import { isBuiltinPrototype } from "./identity.ts";
+import { ownKeys, sortKeys, type MemberKey } from "./keys.ts";
+
+/**
+ * @interface HolderTable
+ * @description The own members of one object of a prototype chain (a class or a prototype).
+ */
+export interface HolderTable {
+  /** The own keys, as listed by `Reflect.ownKeys()`; empty if they could not be listed. */
+  keys: MemberKey[];
+  /** The own property descriptors; keys whose descriptor could not be read are missing. */
+  descriptors: Map<MemberKey, PropertyDescriptor>;
+}
+
+/**
+ * @interface MemberIndex
+ * @description The members of a whole prototype chain, from a class (static side) or a prototype (instance side).
+ */
+export interface MemberIndex {
+  /** The objects of the chain, nearest first, without the built-in prototypes. */
+  holders: object[];
+  /** The own members of each holder, in the same order. */
+  tables: HolderTable[];
+  /** Every key of the chain once, in the order a walk from the start finds them. */
+  keys: MemberKey[];
+  /** The string keys of `keys`. */
+  names: string[];
+  /** The nearest declaration of each key, i.e. the one a property read resolves to. */
+  members: Map<MemberKey, { holder: object; descriptor: PropertyDescriptor }>;
+  /** The keys any holder declares as a method; this includes `constructor` when the chain has a prototype. */
+  methods: Set<MemberKey>;
+  /** The method keys without `constructor`, sorted like `ReflectionClass#getMethods()`. */
+  sortedMethods: MemberKey[];
+  /** The string keys of `sortedMethods`. */
+  sortedMethodNames: string[];
+}
+
+/**
+ * A cached member index, with what is needed to tell whether it still describes the chain.
+ */
+interface CachedIndex {
+  index: MemberIndex;
+  /** The version of each holder when the index was built. */
+  versions: number[];
+  /** The value of `epoch` when the versions were last found current. */
+  epoch: number;
+  /** The prototype of the last holder: a built-in prototype or null. */
+  end: object | null;
+}
+
+/**
+ * Member indexes, keyed by the class or prototype a walk starts from.
+ * Weak keys let classes created at runtime (and their indexes) be garbage collected.
+ */
+let indexes = new WeakMap<object, CachedIndex>();
+
+/**
+ * Own member tables, keyed by holder; shared by the indexes of every chain the holder is part of.
+ */
+let tables = new WeakMap<object, HolderTable>();
+
+/**
+ * Bumped by `invalidate()`, so indexes of chains containing an invalidated holder are rebuilt too.
+ */
+const versions = new WeakMap<object, number>();
+
+/**
+ * Counts calls to `invalidate()`; while it is unchanged, cached indexes need not compare versions.
+ */
+let epoch = 0;
+
+/**
+ * Checks if a prototype walk has reached its end: the end of the chain, or the built-in
+ * `Object.prototype` or `Function.prototype` of any realm, whose members are not reported.
+ * @param {any} current - The current object of the walk.
+ * @returns {boolean} True if the walk should stop.
+ */
+export function isChainEnd(current: any): boolean {
+  return !current || isBuiltinPrototype(current);
+}
+
+/**
+ * Gets the member index of the prototype chain starting at a class or prototype, building it on first use.
+ * A cached index is reused as long as no holder was invalidated and no prototype link changed;
+ * members added, removed or redefined without calling `invalidate()` are not noticed.
+ * Only property descriptors are read, so getters are never invoked.
+ * @param {object} start - The class (for static members) or prototype (for instance members).
+ * @returns {MemberIndex} The member index.
+ */
+export function getMemberIndex(start: object): MemberIndex {
+  const cached = indexes.get(start);
+  if (cached && isCurrent(cached)) return cached.index;
+
+  const holders: object[] = [];
+  let current: any = start;
+  while (!isChainEnd(current)) {
+    holders.push(current);
+    current = Object.getPrototypeOf(current);
+  }
+  const index = buildIndex(holders);
+  indexes.set(start, { index, versions: holders.map(versionOf), epoch, end: current });
+  return index;
+}
+
+/**
+ * Drops cached members of a class, a prototype or any object, and of every chain containing it.
+ * For a class, its prototype is invalidated as well. Call it after adding, removing or redefining
+ * members of a class at runtime. Without an argument, the whole cache is cleared.
+ * @param {object} [target] - The class or object whose members changed.
+ */
+export function invalidate(target?: object): void {
+  epoch++;
+  if (target === undefined) {
+    indexes = new WeakMap();
+    tables = new WeakMap();
+    return;
+  }
+  const holders = [target];
+  const prototype = typeof target === 'function' ? target.prototype : undefined;
+  if (prototype !== null && (typeof prototype === 'object' || typeof prototype === 'function')) {
+    holders.push(prototype);
+  }
+  for (const holder of holders) {
+    tables.delete(holder);
+    indexes.delete(holder);
+    versions.set(holder, versionOf(holder) + 1);
+  }
+}
+
+/**
+ * Gets the current version of a holder.
+ */
+function versionOf(holder: object): number {
+  return versions.get(holder) ?? 0;
+}
+
+/**
+ * Checks that a cached index still describes its chain: same holders, same versions, same end.
+ */
+function isCurrent(cached: CachedIndex): boolean {
+  const { holders } = cached.index;
+  for (let i = 0; i < holders.length; i++) {
+    if (Object.getPrototypeOf(holders[i]) !== (i + 1 < holders.length ? holders[i + 1] : cached.end)) return false;
+  }
+  if (cached.epoch !== epoch) {
+    if (holders.some((holder, i) => versionOf(holder) !== cached.versions[i])) return false;
+    cached.epoch = epoch;
+  }
+  return true;
+}
+
+/**
+ * Gets the own member table of a holder, building it on first use.
+ */
+function tableOf(holder: object): HolderTable {
+  let table = tables.get(holder);
+  if (!table) {
+    const keys = ownKeys(holder, true);
+    const descriptors = new Map<MemberKey, PropertyDescriptor>();
+    for (const key of keys) {
+      try {
+        const descriptor = Object.getOwnPropertyDescriptor(holder, key);
+        if (descriptor) descriptors.set(key, descriptor);
+      } catch (e) {
+        // Descriptor access might be restricted (e.g. by a Proxy trap)
+      }
+    }
+    table = { keys, descriptors };
+    tables.set(holder, table);
+  }
+  return table;
+}
+
+/**
+ * Builds the member index of a chain.
+ */
+function buildIndex(holders: object[]): MemberIndex {
+  const index: MemberIndex = {
+    holders,
+    tables: holders.map(tableOf),
+    keys: [],
+    names: [],
+    members: new Map(),
+    methods: new Set(),
+    sortedMethods: [],
+    sortedMethodNames: [],
+  };
+  const seen = new Set<MemberKey>();
+  holders.forEach((holder, i) => {
+    for (const key of index.tables[i].keys) {
+      const descriptor = index.tables[i].descriptors.get(key);
+      if (!seen.has(key)) {
+        seen.add(key);
+        index.keys.push(key);
+        if (descriptor) index.members.set(key, { holder, descriptor });
+      }
+      if (typeof descriptor?.value === 'function') {
+        index.methods.add(key);
+      }
+    }
+  });
+  index.names = index.keys.filter((key): key is string => typeof key === 'string');
+  index.sortedMethods = sortKeys(Array.from(index.methods).filter((key) => key !== 'constructor'));
+  index.sortedMethodNames = index.sortedMethods.filter((key): key is string => typeof key === 'string');
+  return index;
+}
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { ReflectionMethod } from "./reflection-method.ts";
+import { ReflectionProperty } from "./reflection-property.ts";
+import { defineMetadata } from "./metadata.ts";
+
+class Component {
+  static registry: string[] = [];
+  static register(): void { }
+  static async loadAll(): Promise<void> { }
+  id = 0;
+  get label(): string { return 'component'; }
+  set label(value: string) { }
+  onMount(): void { }
+  async fetch(): Promise<void> { }
+  [Symbol.iterator](): Iterator<unknown> { return [][Symbol.iterator](); }
+}
+
+class Button extends Component {
+  static create(): Button { return new Button(); }
+  pressed = false;
+  get disabled(): boolean { return false; }
+  onClick(): void { }
+  onMount(): void { }
+}
+
+defineMetadata('route', '/click', Button.prototype, 'onClick');
+
+describe('MemberQuery', () => {
+  const reflection = new ReflectionClass(Button);
+
+  it('should select members of both sides, instance members first', () => {
+    assert.deepStrictEqual(reflection.members().names(), [
+      'disabled', 'fetch', 'label', 'onClick', 'onMount', Symbol.iterator,
+      'create', 'loadAll', 'register', 'registry',
+    ]);
+  });
+
+  it('should filter by kind and side', () => {
+    assert.deepStrictEqual(reflection.members().methods().static().names(), ['create', 'loadAll', 'register']);
+    assert.deepStrictEqual(reflection.members().properties().static().names(), ['registry']);
+    assert.deepStrictEqual(reflection.members().accessors().names(), ['disabled', 'label']);
+    assert.deepStrictEqual(reflection.members().async().names(), ['fetch', 'loadAll']);
+    assert.ok(reflection.members().methods().toArray().every((member) => member instanceof ReflectionMethod));
+    assert.ok(reflection.members().properties().toArray().every((member) => member instanceof ReflectionProperty));
+  });
+
+  it('should express inherited static methods and accessors declared on the parent class', () => {
+    assert.deepStrictEqual(reflection.members().methods().static().inherited().names(), ['loadAll', 'register']);
+    assert.deepStrictEqual(reflection.members().accessors().instance().declaredIn(Component).names(), ['label']);
+    assert.deepStrictEqual(reflection.members().methods().instance().own().names(), ['onClick', 'onMount']);
+  });
+
+  it('should include own properties when reflecting an instance', () => {
+    const instanceQuery = new ReflectionClass(new Button()).members().instance().properties();
+    assert.deepStrictEqual(instanceQuery.own().names(), ['disabled', 'id', 'pressed']);
+    assert.deepStrictEqual(instanceQuery.inherited().names(), ['label']);
+  });
+
+  it('should match names and metadata', () => {
+    assert.deepStrictEqual(reflection.members().matching(/^on[A-Z]/g).names(), ['onClick', 'onMount']);
+    assert.deepStrictEqual(reflection.members().withMetadata('route').names(), ['onClick']);
+    assert.deepStrictEqual(reflection.members().where((member) => typeof member.getName() === 'symbol').names(), [Symbol.iterator]);
+  });
+
+  it('first should return the first match or null', () => {
+    assert.strictEqual(reflection.members().methods().static().first()?.getName(), 'create');
+    assert.strictEqual(reflection.members().async().static().own().first(), null);
+  });
+
+  it('should be immutable and evaluated lazily', () => {
+    class Late { }
+    const methods = new ReflectionClass(Late).members().methods();
+    const instanceMethods = methods.instance();
+    assert.deepStrictEqual(instanceMethods.names(), []);
+    (Late.prototype as any).run = function () { };
+    assert.deepStrictEqual(instanceMethods.names(), ['run']);
+    assert.deepStrictEqual(methods.static().names(), []);
+  });
+});
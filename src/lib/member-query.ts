@@ -0,0 +1,208 @@
+import type { MemberKey } from "./keys.ts";
+import { ReflectionMethod } from "./reflection-method.ts";
+import { ReflectionProperty } from "./reflection-property.ts";
+
+/**
+ * A member found by a query: a method, or a property (field or accessor).
+ */
+export type ReflectionMember = ReflectionMethod | ReflectionProperty;
+
+/**
+ * @class MemberQuery
+ * @description Selects members of a reflected class with chained filters, e.g.
+ * `reflection.members().methods().static().inherited().names()`.
+ * Queries are immutable: each filter returns a new query, so a partial query can be reused.
+ * Members are looked up when a terminal method (`toArray()`, `names()` or `first()`) is called.
+ */
+export class MemberQuery<M extends ReflectionMember = ReflectionMember> {
+  /**
+   * @type {() => ReflectionMember[]}
+   * @private
+   * Lists every member the query selects from, instance members first, each side sorted by name.
+   */
+  private _source: () => ReflectionMember[];
+
+  /**
+   * @type {Function|null}
+   * @private
+   * The reflected class, which own members are declared in.
+   */
+  private _owner: Function | null;
+
+  /**
+   * @type {((member: ReflectionMember) => boolean)[]}
+   * @private
+   * The filters a member must pass.
+   */
+  private _filters: ((member: ReflectionMember) => boolean)[];
+
+  /**
+   * Creates an instance of MemberQuery. Use `ReflectionClass#members()` rather than calling this directly.
+   * @param {() => ReflectionMember[]} source - Lists the members to select from.
+   * @param {Function|null} owner - The reflected class.
+   * @param {((member: ReflectionMember) => boolean)[]} [filters=[]] - The filters applied so far.
+   */
+  constructor(
+    source: () => ReflectionMember[],
+    owner: Function | null,
+    filters: ((member: ReflectionMember) => boolean)[] = []
+  ) {
+    this._source = source;
+    this._owner = owner;
+    this._filters = filters;
+  }
+
+  /**
+   * Keeps methods only.
+   * @returns {MemberQuery<ReflectionMethod>} The narrowed query.
+   */
+  methods(): MemberQuery<ReflectionMethod> {
+    return this._with((member) => member instanceof ReflectionMethod);
+  }
+
+  /**
+   * Keeps properties only: fields and accessors, but not properties holding methods.
+   * @returns {MemberQuery<ReflectionProperty>} The narrowed query.
+   */
+  properties(): MemberQuery<ReflectionProperty> {
+    return this._with((member) => member instanceof ReflectionProperty);
+  }
+
+  /**
+   * Keeps accessors (getters and setters) only.
+   * @returns {MemberQuery<ReflectionProperty>} The narrowed query.
+   */
+  accessors(): MemberQuery<ReflectionProperty> {
+    return this._with((member) => member instanceof ReflectionProperty && member.isAccessor());
+  }
+
+  /**
+   * Keeps static members only.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  static(): MemberQuery<M> {
+    return this._with((member) => member.isStatic());
+  }
+
+  /**
+   * Keeps instance members only (including own properties of a reflected instance).
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  instance(): MemberQuery<M> {
+    return this._with((member) => !member.isStatic());
+  }
+
+  /**
+   * Keeps members declared by the reflected class itself.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  own(): MemberQuery<M> {
+    return this._with((member) => member.getDeclaringClass() === this._owner);
+  }
+
+  /**
+   * Keeps members inherited from an ancestor class.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  inherited(): MemberQuery<M> {
+    return this._with((member) => member.getDeclaringClass() !== this._owner);
+  }
+
+  /**
+   * Keeps async methods (async functions and async generators) only.
+   * @returns {MemberQuery<ReflectionMethod>} The narrowed query.
+   */
+  async(): MemberQuery<ReflectionMethod> {
+    return this._with((member) => member instanceof ReflectionMethod && member.isAsync());
+  }
+
+  /**
+   * Keeps members whose name matches a pattern. Symbol-keyed members never match.
+   * @param {RegExp} pattern - The pattern, e.g. `/^on[A-Z]/`.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  matching(pattern: RegExp): MemberQuery<M> {
+    // `search` ignores `lastIndex`, so global patterns give the same result for every member
+    return this._with((member) => typeof member.getName() === 'string' && (member.getName() as string).search(pattern) !== -1);
+  }
+
+  /**
+   * Keeps members with metadata under the given key, including metadata inherited from ancestors.
+   * @param {unknown} key - The metadata key.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  withMetadata(key: unknown): MemberQuery<M> {
+    return this._with((member) => member.hasMetadata(key));
+  }
+
+  /**
+   * Keeps members declared in the given class.
+   * @param {Function} type - The declaring class.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  declaredIn(type: Function): MemberQuery<M> {
+    return this._with((member) => member.getDeclaringClass() === type);
+  }
+
+  /**
+   * Keeps members composed from a trait with `mix()` or `use()`.
+   * @param {Function} [trait] - Only keep members of this trait.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  fromTrait(trait?: Function): MemberQuery<M> {
+    return this._with((member) => trait === undefined ? member.getTrait() !== null : member.getTrait() === trait);
+  }
+
+  /**
+   * Keeps members passing a custom predicate.
+   * @param {(member: M) => boolean} predicate - The predicate.
+   * @returns {MemberQuery<M>} The narrowed query.
+   */
+  where(predicate: (member: M) => boolean): MemberQuery<M> {
+    return this._with((member) => predicate(member as M));
+  }
+
+  /**
+   * Runs the query.
+   * @returns {M[]} The matching members, instance members first, each side sorted by name.
+   */
+  toArray(): M[] {
+    return this._source().filter((member) => this._matches(member)) as M[];
+  }
+
+  /**
+   * Runs the query and returns the member names.
+   * @returns {MemberKey[]} The names or symbols of the matching members.
+   */
+  names(): MemberKey[] {
+    return this.toArray().map((member) => member.getName());
+  }
+
+  /**
+   * Runs the query and returns the first match.
+   * @returns {M|null} The first matching member, or null if there is none.
+   */
+  first(): M | null {
+    return (this._source().find((member) => this._matches(member)) as M | undefined) ?? null;
+  }
+
+  /**
+   * Checks a member against every filter.
+   * @param {ReflectionMember} member - The member to check.
+   * @returns {boolean} True if the member passes all filters.
+   * @private
+   */
+  private _matches(member: ReflectionMember): boolean {
+    return this._filters.every((filter) => filter(member));
+  }
+
+  /**
+   * Creates a query with one more filter.
+   * @param {(member: ReflectionMember) => boolean} filter - The filter to add.
+   * @returns {MemberQuery<N>} The new query.
+   * @private
+   */
+  private _with<N extends ReflectionMember = M>(filter: (member: ReflectionMember) => boolean): MemberQuery<N> {
+    return new MemberQuery<N>(this._source, this._owner, [...this._filters, filter]);
+  }
+}
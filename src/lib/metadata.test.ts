@@ -0,0 +1,238 @@
+import { describe, it, before } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import {
+  defineMetadata,
+  deleteMetadata,
+  getAllMetadata,
+  getMetadata,
+  getMetadataKeys,
+  getMetadataMembers,
+  getOwnMetadata,
+  hasMetadata,
+  hasOwnMetadata,
+  Meta,
+  ParamMeta,
+} from "./metadata.ts";
+
+type Decorator = (value: any, context: any) => void;
+
+interface MemberDecorators {
+  name: PropertyKey;
+  kind: 'method' | 'field' | 'getter' | 'setter' | 'accessor';
+  static?: boolean;
+  decorators: Decorator[];
+}
+
+/**
+ * Applies standard decorators the way compiled decorator code does: member decorators first,
+ * then class decorators, sharing one metadata object that inherits from the parent's.
+ * (Decorator syntax cannot be used here because type stripping does not transform it.)
+ */
+function decorate(target: any, members: MemberDecorators[], classDecorators: Decorator[] = []): void {
+  const symbol: symbol | undefined = (Symbol as any).metadata;
+  const metadata = symbol ? Object.create(Object.getPrototypeOf(target)[symbol] ?? null) : undefined;
+  for (const member of members) {
+    for (const decorator of member.decorators) {
+      decorator(undefined, {
+        kind: member.kind,
+        name: member.name,
+        static: member.static ?? false,
+        private: false,
+        metadata,
+        access: {},
+        addInitializer() { },
+      });
+    }
+  }
+  for (const decorator of classDecorators) {
+    decorator(target, { kind: 'class', name: target.name, metadata, addInitializer() { } });
+  }
+  if (symbol) {
+    Object.defineProperty(target, symbol, { value: metadata, enumerable: true, configurable: true, writable: true });
+  }
+}
+
+describe('Metadata', () => {
+  describe('Imperative API', () => {
+    class Base {
+      constructor(first: string, second: number) { }
+      save(entity: object): void { }
+      static find(id: number): void { }
+    }
+    class Derived extends Base {
+      save(entity: object): void { }
+    }
+
+    defineMetadata('table', 'bases', Base);
+    defineMetadata('version', 1, Base);
+    defineMetadata('version', 2, Derived);
+    defineMetadata('transactional', true, Base.prototype, 'save');
+    defineMetadata('cached', true, Base, 'find');
+    defineMetadata('inject', 'Config', Base, undefined, 0);
+    defineMetadata('validate', 'entity', Base.prototype, 'save', 0);
+
+    it('should read class-level metadata with inheritance', () => {
+      assert.strictEqual(getMetadata('table', Derived), 'bases');
+      assert.strictEqual(getMetadata('version', Derived), 2);
+      assert.strictEqual(getMetadata('version', Base), 1);
+      assert.ok(hasMetadata('table', Derived));
+      assert.strictEqual(hasOwnMetadata('table', Derived), false);
+      assert.strictEqual(getOwnMetadata('table', Derived), undefined);
+    });
+
+    it('should keep instance and static members apart', () => {
+      assert.strictEqual(getMetadata('transactional', Derived.prototype, 'save'), true);
+      assert.strictEqual(getMetadata('transactional', Derived, 'save'), undefined);
+      assert.strictEqual(getMetadata('cached', Derived, 'find'), true);
+      assert.strictEqual(getMetadata('cached', Derived.prototype, 'find'), undefined);
+    });
+
+    it('should treat instances like their prototype', () => {
+      assert.strictEqual(getMetadata('transactional', new Derived('a', 1), 'save'), true);
+      assert.strictEqual(getMetadata('table', new Derived('a', 1)), 'bases');
+    });
+
+    it('should store parameter metadata separately', () => {
+      assert.strictEqual(getMetadata('inject', Derived, undefined, 0), 'Config');
+      assert.strictEqual(getMetadata('inject', Derived), undefined);
+      assert.strictEqual(getMetadata('validate', Base.prototype, 'save', 0), 'entity');
+      assert.strictEqual(getMetadata('validate', Base.prototype, 'save'), undefined);
+    });
+
+    it('getAllMetadata and getMetadataKeys should merge parent first', () => {
+      assert.deepStrictEqual(getAllMetadata(Derived), new Map<unknown, unknown>([['table', 'bases'], ['version', 2]]));
+      assert.deepStrictEqual(getMetadataKeys(Derived), ['table', 'version']);
+    });
+
+    it('getMetadataMembers should list the members with a key, parent members first', () => {
+      class Child extends Derived { }
+      defineMetadata('transactional', false, Child.prototype, 'delete');
+      assert.deepStrictEqual(getMetadataMembers('transactional', Child.prototype), ['save', 'delete']);
+      assert.deepStrictEqual(getMetadataMembers('transactional', Child), []);
+      assert.deepStrictEqual(getMetadataMembers('cached', Child), ['find']);
+    });
+
+    it('deleteMetadata should only delete own metadata', () => {
+      class Temp extends Base { }
+      defineMetadata('flag', true, Temp);
+      assert.strictEqual(deleteMetadata('table', Temp), false);
+      assert.ok(deleteMetadata('flag', Temp));
+      assert.strictEqual(hasMetadata('flag', Temp), false);
+    });
+
+    it('should accept symbol keys and members', () => {
+      const key = Symbol('key');
+      class Iterable {
+        *[Symbol.iterator]() { }
+      }
+      defineMetadata(key, 'value', Iterable.prototype, Symbol.iterator);
+      assert.strictEqual(getMetadata(key, Iterable.prototype, Symbol.iterator), 'value');
+    });
+
+    it('should throw TypeError for invalid targets and parameter indexes', () => {
+      assert.throws(() => defineMetadata('k', 'v', null as any), TypeError);
+      assert.throws(() => defineMetadata('k', 'v', Object.create(null)), TypeError);
+      assert.throws(() => defineMetadata('k', 'v', Base, 'save', -1), TypeError);
+      assert.throws(() => ParamMeta(1.5, 'k', 'v'), TypeError);
+    });
+  });
+
+  describe('Decorators without Symbol.metadata', () => {
+    it('class decorators should fall back to the registry', () => {
+      class Plain { }
+      decorate(Plain, [], [Meta('role', 'plain'), ParamMeta(0, 'inject', 'Logger')]);
+      assert.strictEqual(getMetadata('role', Plain), 'plain');
+      assert.strictEqual(getMetadata('inject', Plain, undefined, 0), 'Logger');
+    });
+
+    it('member decorators should throw a TypeError explaining the polyfill', () => {
+      class Plain { run() { } }
+      assert.throws(
+        () => decorate(Plain, [{ name: 'run', kind: 'method', decorators: [Meta('k', 'v')] }]),
+        /Symbol\.metadata is not available/
+      );
+    });
+  });
+
+  describe('Decorators with Symbol.metadata', () => {
+    class Controller {
+      prefix = '';
+      handle(request: unknown, response: unknown): void { }
+      static create(): void { }
+    }
+    class UserController extends Controller {
+      handle(request: unknown, response: unknown): void { }
+      list(): void { }
+    }
+
+    before(() => {
+      (Symbol as any).metadata ??= Symbol('Symbol.metadata');
+      decorate(Controller, [
+        { name: 'prefix', kind: 'field', decorators: [Meta('column', 'prefix')] },
+        { name: 'handle', kind: 'method', decorators: [Meta('route', '/'), Meta('method', 'GET'), ParamMeta(1, 'inject', 'Response')] },
+        { name: 'create', kind: 'method', static: true, decorators: [Meta('factory', true)] },
+      ], [Meta('controller', true), Meta('path', '/')]);
+      decorate(UserController, [
+        { name: 'handle', kind: 'method', decorators: [Meta('route', '/users')] },
+      ], [Meta('path', '/users')]);
+      // Imperative metadata on a decorated class lives next to the decorator metadata
+      defineMetadata('owner', 'team-a', UserController);
+    });
+
+    it('should store class metadata on the Symbol.metadata object', () => {
+      assert.strictEqual(getMetadata('path', UserController), '/users');
+      assert.strictEqual(getMetadata('controller', UserController), true);
+      assert.strictEqual(getOwnMetadata('controller', UserController), undefined);
+      assert.strictEqual(getOwnMetadata('owner', UserController), 'team-a');
+    });
+
+    it('should store member and parameter metadata', () => {
+      assert.strictEqual(getMetadata('route', UserController.prototype, 'handle'), '/users');
+      assert.strictEqual(getMetadata('method', UserController.prototype, 'handle'), 'GET');
+      assert.strictEqual(getMetadata('inject', UserController.prototype, 'handle', 1), 'Response');
+      assert.strictEqual(getMetadata('column', Controller.prototype, 'prefix'), 'prefix');
+      assert.strictEqual(getMetadata('factory', UserController, 'create'), true);
+    });
+
+    it('ReflectionClass should expose merged class metadata', () => {
+      const reflection = new ReflectionClass(UserController);
+      assert.strictEqual(reflection.getMetadata('path'), '/users');
+      assert.ok(reflection.hasMetadata('controller'));
+      assert.strictEqual(reflection.getOwnMetadata('controller'), undefined);
+      assert.deepStrictEqual(reflection.getMetadataKeys(), ['controller', 'path', 'owner']);
+      assert.deepStrictEqual(
+        reflection.getAllMetadata(),
+        new Map<unknown, unknown>([['controller', true], ['path', '/users'], ['owner', 'team-a']])
+      );
+    });
+
+    it('ReflectionClass member metadata should follow the reflection mode', () => {
+      assert.strictEqual(new ReflectionClass(UserController).getMetadata('factory', 'create'), true);
+      assert.strictEqual(new ReflectionClass(UserController).getMetadata('route', 'handle'), undefined);
+      const instance = new ReflectionClass(new UserController());
+      assert.strictEqual(instance.getMetadata('route', 'handle'), '/users');
+      assert.strictEqual(instance.getMetadata('path'), '/users');
+      assert.strictEqual(instance.getParameterMetadata('inject', 1, 'handle'), 'Response');
+    });
+
+    it('ReflectionMethod and ReflectionProperty should expose member metadata', () => {
+      const instance = new ReflectionClass(new UserController());
+      const handle = instance.getMethod('handle')!;
+      assert.strictEqual(handle.getMetadata('route'), '/users');
+      assert.ok(handle.hasMetadata('method'));
+      assert.deepStrictEqual(handle.getAllMetadata(), new Map([['route', '/users'], ['method', 'GET']]));
+      assert.strictEqual(handle.getParameterMetadata('inject', 1), 'Response');
+      assert.strictEqual(instance.getMethod('list')!.hasMetadata('route'), false);
+      assert.strictEqual(new ReflectionClass(UserController).getMethod('create')!.getMetadata('factory'), true);
+      assert.strictEqual(instance.getProperty('prefix')!.getMetadata('column'), 'prefix');
+    });
+
+    it('ReflectionClass should return empty results for objects without a constructor', () => {
+      const reflection = new ReflectionClass(Object.create(null));
+      assert.strictEqual(reflection.getMetadata('path'), undefined);
+      assert.strictEqual(reflection.hasMetadata('path'), false);
+      assert.deepStrictEqual(reflection.getMetadataKeys(), []);
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import { InvalidArgumentError, InvalidTargetError, ReflectionError } from "./errors.ts";
+import { formatKey, toMemberKey, type MemberKey } from "./keys.ts";
+
+/**
+ * Metadata attached to one location: a class or member, plus its parameters.
+ */
+interface LocationMetadata {
+  own: Map<unknown, unknown>;
+  parameters: Map<number, Map<unknown, unknown>>;
+}
+
+/**
+ * All metadata declared directly on one class.
+ * Class-level parameters are the constructor parameters.
+ */
+interface MetadataRecord {
+  class: LocationMetadata;
+  members: Map<MemberKey, LocationMetadata>;
+  staticMembers: Map<MemberKey, LocationMetadata>;
+}
+
+/**
+ * Where to look in a record: the class itself or a member, and optionally one of its parameters.
+ */
+interface MetadataLocation {
+  isStatic: boolean;
+  member?: MemberKey;
+  parameterIndex?: number;
+}
+
+/**
+ * A resolved metadata location together with the class owning the record.
+ */
+interface MetadataTarget extends MetadataLocation {
+  ctor: Function;
+}
+
+/**
+ * The decorator context shapes supported by the metadata decorators.
+ */
+export type MetadataDecoratorContext =
+  | ClassDecoratorContext
+  | ClassMethodDecoratorContext
+  | ClassGetterDecoratorContext
+  | ClassSetterDecoratorContext
+  | ClassFieldDecoratorContext
+  | ClassAccessorDecoratorContext;
+
+/**
+ * Key under which records are stored on `Symbol.metadata` objects.
+ * Module-private so that records cannot be forged or clobbered by other libraries.
+ */
+const RECORD = Symbol('reflection.metadata');
+
+/**
+ * Records for classes without a `Symbol.metadata` object (e.g. when `Symbol.metadata`
+ * is not available on the runtime, or metadata was only defined imperatively).
+ */
+const registry = new WeakMap<Function, MetadataRecord>();
+
+/**
+ * Gets `Symbol.metadata` if the runtime (or a polyfill) provides it.
+ * Read on every call so a polyfill installed after this module loads is picked up.
+ * @returns {symbol|undefined} The metadata symbol.
+ */
+function metadataSymbol(): symbol | undefined {
+  return (Symbol as { metadata?: symbol }).metadata;
+}
+
+/**
+ * Creates empty metadata for a location.
+ * @returns {LocationMetadata} The location metadata.
+ */
+function createLocation(): LocationMetadata {
+  return { own: new Map(), parameters: new Map() };
+}
+
+/**
+ * Creates an empty record for a class.
+ * @returns {MetadataRecord} The record.
+ */
+function createRecord(): MetadataRecord {
+  return { class: createLocation(), members: new Map(), staticMembers: new Map() };
+}
+
+/**
+ * Gets (or creates) the record stored on a decorator metadata object.
+ * @param {object} metadata - A `Symbol.metadata` object.
+ * @returns {MetadataRecord} The record.
+ */
+function recordOfMetadataObject(metadata: object): MetadataRecord {
+  if (!Object.prototype.hasOwnProperty.call(metadata, RECORD)) {
+    Object.defineProperty(metadata, RECORD, { value: createRecord() });
+  }
+  return (metadata as any)[RECORD];
+}
+
+/**
+ * Gets the record declared directly on a class.
+ * @param {Function} ctor - The class constructor.
+ * @param {boolean} create - Whether to create a missing record.
+ * @returns {MetadataRecord|undefined} The record, if any.
+ */
+function ownRecord(ctor: Function, create: true): MetadataRecord;
+function ownRecord(ctor: Function, create: boolean): MetadataRecord | undefined;
+function ownRecord(ctor: Function, create: boolean): MetadataRecord | undefined {
+  const symbol = metadataSymbol();
+  if (symbol && Object.prototype.hasOwnProperty.call(ctor, symbol)) {
+    const metadata = (ctor as any)[symbol];
+    if (metadata !== null && typeof metadata === 'object') {
+      if (create || Object.prototype.hasOwnProperty.call(metadata, RECORD)) {
+        return recordOfMetadataObject(metadata);
+      }
+    }
+  }
+  let record = registry.get(ctor);
+  if (!record && create) {
+    record = createRecord();
+    registry.set(ctor, record);
+  }
+  return record;
+}
+
+/**
+ * Finds the metadata map for a location in a record.
+ * @param {MetadataRecord} record - The record to look in.
+ * @param {MetadataLocation} target - The location.
+ * @param {boolean} create - Whether to create missing maps.
+ * @returns {Map|undefined} The metadata map, if any.
+ */
+function locate(record: MetadataRecord, target: MetadataLocation, create: boolean): Map<unknown, unknown> | undefined {
+  let location: LocationMetadata | undefined = record.class;
+  if (target.member !== undefined) {
+    const members = target.isStatic ? record.staticMembers : record.members;
+    location = members.get(target.member);
+    if (!location && create) {
+      location = createLocation();
+      members.set(target.member, location);
+    }
+  }
+  if (!location) return undefined;
+  if (target.parameterIndex === undefined) return location.own;
+
+  let parameter = location.parameters.get(target.parameterIndex);
+  if (!parameter && create) {
+    parameter = new Map();
+    location.parameters.set(target.parameterIndex, parameter);
+  }
+  return parameter;
+}
+
+/**
+ * Resolves the public `(target, member, parameterIndex)` arguments.
+ * A class constructor addresses the class itself and its static members;
+ * a prototype (or instance) addresses its class's instance members.
+ * @throws {InvalidTargetError} If the target is not a class or prototype, or has no constructor.
+ * @throws {InvalidArgumentError} If the parameter index is invalid.
+ */
+function resolveTarget(target: object, member?: PropertyKey, parameterIndex?: number): MetadataTarget {
+  if (typeof target !== 'function' && (typeof target !== 'object' || target === null)) {
+    throw new InvalidTargetError('Metadata target must be a class constructor or a prototype.');
+  }
+  if (parameterIndex !== undefined && (!Number.isInteger(parameterIndex) || parameterIndex < 0)) {
+    throw new InvalidArgumentError(`Invalid parameter index: ${parameterIndex}.`);
+  }
+  const isStatic = typeof target === 'function';
+  const ctor = isStatic ? target : (target as any).constructor;
+  if (typeof ctor !== 'function') {
+    throw new InvalidTargetError('Metadata target has no constructor.');
+  }
+  return {
+    ctor,
+    isStatic,
+    member: member === undefined ? undefined : toMemberKey(member),
+    parameterIndex,
+  };
+}
+
+/**
+ * Walks the class chain starting at a constructor: the class, its parent class, and so on.
+ * @param {Function} ctor - The starting constructor.
+ * @returns {Function[]} The constructors, nearest first.
+ */
+function classChain(ctor: Function): Function[] {
+  const chain: Function[] = [];
+  let current: any = ctor;
+  while (typeof current === 'function' && current !== Function.prototype) {
+    chain.push(current);
+    current = Object.getPrototypeOf(current);
+  }
+  return chain;
+}
+
+/**
+ * Defines metadata on a class, member or parameter.
+ * @param {unknown} key - The metadata key.
+ * @param {unknown} value - The metadata value.
+ * @param {object} target - A class constructor (class-level and static members) or a prototype (instance members).
+ * @param {PropertyKey} [member] - The member name; omit for class-level metadata.
+ * @param {number} [parameterIndex] - A parameter index of the member, or of the constructor if member is omitted.
+ */
+export function defineMetadata(key: unknown, value: unknown, target: object, member?: PropertyKey, parameterIndex?: number): void {
+  const resolved = resolveTarget(target, member, parameterIndex);
+  locate(ownRecord(resolved.ctor, true), resolved, true)!.set(key, value);
+}
+
+/**
+ * Deletes metadata declared directly on a class, member or parameter.
+ * @returns {boolean} True if the metadata existed and was deleted.
+ */
+export function deleteMetadata(key: unknown, target: object, member?: PropertyKey, parameterIndex?: number): boolean {
+  const resolved = resolveTarget(target, member, parameterIndex);
+  const record = ownRecord(resolved.ctor, false);
+  return record ? locate(record, resolved, false)?.delete(key) ?? false : false;
+}
+
+/**
+ * Gets metadata declared directly on a class, member or parameter, ignoring parent classes.
+ * @returns {unknown} The metadata value, or undefined.
+ */
+export function getOwnMetadata(key: unknown, target: object, member?: PropertyKey, parameterIndex?: number): unknown {
+  const resolved = resolveTarget(target, member, parameterIndex);
+  const record = ownRecord(resolved.ctor, false);
+  return record ? locate(record, resolved, false)?.get(key) : undefined;
+}
+
+/**
+ * Checks if metadata is declared directly on a class, member or parameter.
+ * @returns {boolean} True if the key is defined.
+ */
+export function hasOwnMetadata(key: unknown, target: object, member?: PropertyKey, parameterIndex?: number): boolean {
+  const resolved = resolveTarget(target, member, parameterIndex);
+  const record = ownRecord(resolved.ctor, false);
+  return record ? locate(record, resolved, false)?.has(key) ?? false : false;
+}
+
+/**
+ * Gets all metadata for a class, member or parameter, merged up the inheritance chain.
+ * Values declared on a subclass override those of its parents.
+ * @returns {Map} A new map of metadata keys to values.
+ */
+export function getAllMetadata(target: object, member?: PropertyKey, parameterIndex?: number): Map<unknown, unknown> {
+  const resolved = resolveTarget(target, member, parameterIndex);
+  const merged = new Map<unknown, unknown>();
+  for (const ctor of classChain(resolved.ctor).reverse()) {
+    const record = ownRecord(ctor, false);
+    const metadata = record && locate(record, resolved, false);
+    metadata?.forEach((value, key) => merged.set(key, value));
+  }
+  return merged;
+}
+
+/**
+ * Gets metadata for a class, member or parameter, looking up the inheritance chain.
+ * @returns {unknown} The nearest metadata value, or undefined.
+ */
+export function getMetadata(key: unknown, target: object, member?: PropertyKey, parameterIndex?: number): unknown {
+  const resolved = resolveTarget(target, member, parameterIndex);
+  for (const ctor of classChain(resolved.ctor)) {
+    const record = ownRecord(ctor, false);
+    const metadata = record && locate(record, resolved, false);
+    if (metadata?.has(key)) return metadata.get(key);
+  }
+  return undefined;
+}
+
+/**
+ * Checks if metadata exists for a class, member or parameter, looking up the inheritance chain.
+ * @returns {boolean} True if the key is defined on the class or one of its parents.
+ */
+export function hasMetadata(key: unknown, target: object, member?: PropertyKey, parameterIndex?: number): boolean {
+  const resolved = resolveTarget(target, member, parameterIndex);
+  return classChain(resolved.ctor).some((ctor) => {
+    const record = ownRecord(ctor, false);
+    return record ? locate(record, resolved, false)?.has(key) ?? false : false;
+  });
+}
+
+/**
+ * Gets the metadata keys for a class, member or parameter, including inherited ones.
+ * @returns {unknown[]} The keys, parent keys first.
+ */
+export function getMetadataKeys(target: object, member?: PropertyKey, parameterIndex?: number): unknown[] {
+  return Array.from(getAllMetadata(target, member, parameterIndex).keys());
+}
+
+/**
+ * Lists the members with metadata under a key, including members of parent classes.
+ * @param {unknown} key - The metadata key.
+ * @param {object} target - A class constructor (static members) or a prototype (instance members).
+ * @returns {MemberKey[]} The member names and symbols, parent members first.
+ */
+export function getMetadataMembers(key: unknown, target: object): MemberKey[] {
+  const resolved = resolveTarget(target);
+  const members = new Set<MemberKey>();
+  for (const ctor of classChain(resolved.ctor).reverse()) {
+    const record = ownRecord(ctor, false);
+    const locations = resolved.isStatic ? record?.staticMembers : record?.members;
+    locations?.forEach((location, member) => {
+      if (location.own.has(key)) members.add(member);
+    });
+  }
+  return Array.from(members);
+}
+
+/**
+ * Gets the record to write to from a decorator context.
+ * @param {unknown} value - The decorated value (the class itself for class decorators).
+ * @param {MetadataDecoratorContext} context - The decorator context.
+ * @returns {MetadataRecord} The record.
+ * @throws {ReflectionError} If a member is decorated on a runtime without `Symbol.metadata` (`ERR_UNSUPPORTED_OPERATION`).
+ */
+function recordOfContext(value: unknown, context: MetadataDecoratorContext): MetadataRecord {
+  if (context.metadata) return recordOfMetadataObject(context.metadata);
+  if (context.kind === 'class') return ownRecord(value as Function, true);
+  throw new ReflectionError(
+    'ERR_UNSUPPORTED_OPERATION',
+    `Cannot decorate member ${formatKey(context.name)}: Symbol.metadata is not available. ` +
+    `Polyfill it with \`Symbol.metadata ??= Symbol('Symbol.metadata')\` before defining classes.`,
+    { member: toMemberKey(context.name) }
+  );
+}
+
+/**
+ * Resolves the metadata location of a decorator context.
+ */
+function locationOfContext(context: MetadataDecoratorContext, parameterIndex?: number): MetadataLocation {
+  return context.kind === 'class'
+    ? { isStatic: true, parameterIndex }
+    : { isStatic: context.static, member: context.name, parameterIndex };
+}
+
+/**
+ * Decorator factory attaching metadata to a class or member (method, getter, setter, field or accessor).
+ * Uses the standard decorator `context.metadata` object, so metadata is inherited by subclasses.
+ * @example
+ * ```ts
+ * @Meta('table', 'users')
+ * class User {
+ *   @Meta('column', 'user_name') name = '';
+ * }
+ * ```
+ * @param {unknown} key - The metadata key.
+ * @param {unknown} value - The metadata value.
+ * @returns A standard decorator.
+ */
+export function Meta(key: unknown, value: unknown) {
+  return (target: unknown, context: MetadataDecoratorContext): void => {
+    locate(recordOfContext(target, context), locationOfContext(context), true)!.set(key, value);
+  };
+}
+
+/**
+ * Decorator factory attaching metadata to a parameter.
+ * Standard decorators cannot be applied to parameters, so this decorates the method
+ * (or the class, for constructor parameters) and names the parameter by index.
+ * @example
+ * ```ts
+ * @ParamMeta(0, 'inject', Database)
+ * class Repository {
+ *   constructor(db: Database) {}
+ * }
+ * ```
+ * @param {number} index - The zero-based parameter index.
+ * @param {unknown} key - The metadata key.
+ * @param {unknown} value - The metadata value.
+ * @returns A standard class or method decorator.
+ */
+export function ParamMeta(index: number, key: unknown, value: unknown) {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new InvalidArgumentError(`Invalid parameter index: ${index}.`);
+  }
+  return (target: unknown, context: ClassDecoratorContext | ClassMethodDecoratorContext): void => {
+    locate(recordOfContext(target, context), locationOfContext(context, index), true)!.set(key, value);
+  };
+}
@@ -0,0 +1,155 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionFunction } from "./reflection-function.ts";
+import { getFunctionSyntax } from "./source.ts";
+
+class Job {
+  name: string;
+  constructor(name: string, retries = 0) { this.name = name; }
+  run(): string { return `ran ${this.name}`; }
+  static create(name: string): Job { return new Job(name); }
+  get label(): string { return this.name; }
+}
+
+function LegacyJob(this: any, name: string) { this.name = name; }
+
+const handlers = {
+  arrow: (job: string) => `arrow ${job}`,
+  bareArrow: (job: any) => job,
+  asyncArrow: async (job: string) => job,
+  method(job: string) { return `method ${job}`; },
+  async asyncMethod() { },
+  *generatorMethod() { yield 1; },
+  [Symbol.iterator]() { return [][Symbol.iterator](); },
+  async(job: string) { return job; },
+  expression: function (job: string) { return job; },
+  async asyncFunction() { },
+};
+
+async function asyncFunction() { }
+function* generatorFunction() { yield 1; }
+
+describe('ReflectionFunction', () => {
+  describe('getKind()', () => {
+    it('should classify classes, functions, arrows and methods', () => {
+      assert.strictEqual(new ReflectionFunction(Job).getKind(), 'class');
+      assert.strictEqual(new ReflectionFunction(LegacyJob).getKind(), 'function');
+      assert.strictEqual(new ReflectionFunction(handlers.expression).getKind(), 'function');
+      assert.strictEqual(new ReflectionFunction(asyncFunction).getKind(), 'function');
+      assert.strictEqual(new ReflectionFunction(generatorFunction).getKind(), 'function');
+      assert.strictEqual(new ReflectionFunction(handlers.arrow).getKind(), 'arrow');
+      assert.strictEqual(new ReflectionFunction(handlers.asyncArrow).getKind(), 'arrow');
+      assert.strictEqual(new ReflectionFunction(handlers.method).getKind(), 'method');
+      assert.strictEqual(new ReflectionFunction(handlers.asyncMethod).getKind(), 'method');
+      assert.strictEqual(new ReflectionFunction(handlers.generatorMethod).getKind(), 'method');
+      assert.strictEqual(new ReflectionFunction(handlers[Symbol.iterator]).getKind(), 'method');
+      assert.strictEqual(new ReflectionFunction(handlers.async).getKind(), 'method');
+      assert.strictEqual(new ReflectionFunction(Job.prototype.run).getKind(), 'method');
+      assert.strictEqual(new ReflectionFunction(Job.create).getKind(), 'method');
+      const getter = Object.getOwnPropertyDescriptor(Job.prototype, 'label')!.get!;
+      assert.strictEqual(new ReflectionFunction(getter).getKind(), 'method');
+    });
+
+    it('should classify bound, native and proxied functions', () => {
+      assert.strictEqual(new ReflectionFunction(handlers.method.bind(handlers)).getKind(), 'bound');
+      assert.strictEqual(new ReflectionFunction(Job.bind(null)).getKind(), 'bound');
+      assert.strictEqual(new ReflectionFunction(Math.max).getKind(), 'native');
+      assert.strictEqual(new ReflectionFunction(Map).getKind(), 'native');
+      assert.strictEqual(new ReflectionFunction(new Proxy(Job, {})).getKind(), 'native');
+    });
+
+    it('should handle functions whose name is not a string', () => {
+      const Named = class {
+        static name(): string { return 'named'; }
+      } as unknown as Function;
+      assert.strictEqual(new ReflectionFunction(Named).getKind(), 'class');
+      assert.strictEqual(new ReflectionFunction(Named).getName(), '[Anonymous]');
+      assert.strictEqual(new ReflectionFunction(new Proxy(Named, {})).getKind(), 'native');
+    });
+
+    it('should read arrow and method shapes from source text', () => {
+      assert.strictEqual(getFunctionSyntax('async x => x'), 'arrow');
+      assert.strictEqual(getFunctionSyntax('async (a = ")") => a'), 'arrow');
+      assert.strictEqual(getFunctionSyntax('/* => */ run(a) { return () => a; }'), 'method');
+      assert.strictEqual(getFunctionSyntax('["=>"](a) { }'), 'method');
+      assert.strictEqual(getFunctionSyntax('function () { [native code] }'), 'native');
+    });
+
+    it('should report async and generator functions of any kind', () => {
+      assert.strictEqual(new ReflectionFunction(handlers.asyncArrow).isAsync(), true);
+      assert.strictEqual(new ReflectionFunction(handlers.asyncMethod).isAsync(), true);
+      assert.strictEqual(new ReflectionFunction(generatorFunction).isGenerator(), true);
+      assert.strictEqual(new ReflectionFunction(handlers.generatorMethod).isGenerator(), true);
+      assert.strictEqual(new ReflectionFunction(handlers.arrow).isAsync(), false);
+    });
+  });
+
+  describe('isInstantiable() and isCallable()', () => {
+    it('should only accept constructors for new', () => {
+      const instantiable = [Job, LegacyJob, handlers.expression, Job.bind(null), Map, new Proxy(Job, {})];
+      for (const fn of instantiable) {
+        assert.strictEqual(new ReflectionFunction(fn).isInstantiable(), true, fn.name);
+      }
+      const notInstantiable = [
+        handlers.arrow, handlers.method, handlers.asyncMethod, handlers.generatorMethod,
+        asyncFunction, generatorFunction, Job.prototype.run, handlers.arrow.bind(null), Math.max,
+      ];
+      for (const fn of notInstantiable) {
+        assert.strictEqual(new ReflectionFunction(fn).isInstantiable(), false, fn.name);
+      }
+    });
+
+    it('should not run the function while checking', () => {
+      let calls = 0;
+      function Counted() { calls++; }
+      assert.strictEqual(new ReflectionFunction(Counted).isInstantiable(), true);
+      assert.strictEqual(calls, 0);
+    });
+
+    it('should report classes as not callable', () => {
+      assert.strictEqual(new ReflectionFunction(Job).isCallable(), false);
+      assert.strictEqual(new ReflectionFunction(LegacyJob).isCallable(), true);
+      assert.strictEqual(new ReflectionFunction(handlers.arrow).isCallable(), true);
+    });
+  });
+
+  describe('Calling', () => {
+    it('invoke should call functions and invokeWith should pass this', () => {
+      assert.strictEqual(new ReflectionFunction(handlers.arrow).invoke('a'), 'arrow a');
+      assert.strictEqual(new ReflectionFunction(Job.prototype.run).invokeWith(new Job('b')), 'ran b');
+      assert.throws(() => new ReflectionFunction(Job).invoke('c'), {
+        name: 'NotCallableError',
+        code: 'ERR_NOT_CALLABLE',
+        message: 'Job is a class and cannot be called without new; use newInstance().',
+      });
+    });
+
+    it('newInstance should construct or fail before calling the function', () => {
+      assert.ok(new ReflectionFunction(Job).newInstance('a') instanceof Job);
+      assert.strictEqual(new ReflectionFunction(LegacyJob).newInstance('b').name, 'b');
+      assert.throws(() => new ReflectionFunction(handlers.arrow).newInstance(), /arrow is not instantiable: arrow functions cannot be called with new\./);
+      assert.throws(() => new ReflectionFunction(handlers.method).newInstance(), /method is not instantiable: methods cannot be called with new\./);
+      assert.throws(() => new ReflectionFunction(asyncFunction).newInstance(), /async functions cannot be called with new/);
+      assert.throws(() => new ReflectionFunction(generatorFunction).newInstance(), /generator functions cannot be called with new/);
+      assert.throws(() => new ReflectionFunction(Math.max).newInstance(), /max is not instantiable: it is not a constructor\./);
+    });
+  });
+
+  describe('Parameters', () => {
+    it('should parse parameters of functions and class constructors', () => {
+      const reflection = new ReflectionFunction(Job);
+      assert.deepStrictEqual(reflection.getParameters().map((parameter) => parameter.getName()), ['name', 'retries']);
+      assert.strictEqual(reflection.getNumberOfRequiredParameters(), 1);
+      assert.strictEqual(new ReflectionFunction(handlers.bareArrow).getNumberOfParameters(), 1);
+      assert.deepStrictEqual(new ReflectionFunction(Job.bind(null)).getParameters(), []);
+    });
+  });
+
+  it('should throw TypeError for non-functions', () => {
+    assert.throws(() => new ReflectionFunction({} as any), TypeError);
+  });
+
+  it('toString should include the kind', () => {
+    assert.strictEqual(new ReflectionFunction(handlers.arrow).toString(), 'ReflectionFunction for [arrow arrow]');
+  });
+});
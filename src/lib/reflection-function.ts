@@ -0,0 +1,252 @@
+import { InvalidTargetError, NotCallableError, NotInstantiableError } from "./errors.ts";
+import { ReflectionParameter } from "./reflection-parameter.ts";
+import { getFunctionSyntax, getSource, parseParameters } from "./source.ts";
+
+/**
+ * The kind of a reflected function:
+ * - `class`: a class, which can only be called with `new`;
+ * - `function`: a `function` declaration or expression, including async and generator functions;
+ * - `arrow`: an arrow function;
+ * - `method`: an object or class method, getter or setter;
+ * - `bound`: a function created with `Function.prototype.bind()`;
+ * - `native`: a built-in function, or a Proxy wrapping a function.
+ */
+export type FunctionKind = 'class' | 'function' | 'arrow' | 'method' | 'bound' | 'native';
+
+/**
+ * Checks if a function can be called with `new`, without calling it or reading its properties.
+ * A Proxy is only constructible if its target is; the trap keeps the target from running.
+ * @param {Function} fn - The function to check.
+ * @returns {boolean} True if the function has a [[Construct]] internal method.
+ */
+function isConstructor(fn: Function): boolean {
+  try {
+    new (new Proxy(fn, { construct: () => ({}) }) as any)();
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * @class ReflectionFunction
+ * @description Classifies a function and reports how it can be called.
+ */
+export class ReflectionFunction {
+  /**
+   * @type {Function}
+   * @private
+   * The reflected function.
+   */
+  private _fn: Function;
+
+  /**
+   * @type {FunctionKind}
+   * @private
+   * The kind of the function, determined once from its source text.
+   */
+  private _kind: FunctionKind;
+
+  /**
+   * @type {ReflectionParameter[]|null}
+   * @private
+   * Lazily parsed parameters.
+   */
+  private _parameters: ReflectionParameter[] | null = null;
+
+  /**
+   * Creates an instance of ReflectionFunction.
+   * @param {Function} fn - The function to reflect.
+   * @throws {InvalidTargetError} If fn is not a function.
+   */
+  constructor(fn: Function) {
+    if (typeof fn !== 'function') {
+      throw new InvalidTargetError('ReflectionFunction expects a function.');
+    }
+    this._fn = fn;
+    const syntax = getFunctionSyntax(getSource(fn));
+    // Bound functions print as native code; their name is the only trace of `bind()`
+    this._kind = syntax === 'native' && typeof fn.name === 'string' && fn.name.startsWith('bound ') && !Object.hasOwn(fn, 'prototype')
+      ? 'bound'
+      : syntax;
+  }
+
+  /**
+   * Gets the name of the function.
+   * @returns {string} The function name, or '[Anonymous]' if it has none (or `name` is not a string,
+   * e.g. a class with a `static name()` method).
+   */
+  getName(): string {
+    return typeof this._fn.name === 'string' && this._fn.name ? this._fn.name : '[Anonymous]';
+  }
+
+  /**
+   * Gets the reflected function.
+   * @returns {Function} The underlying function.
+   */
+  getClosure(): Function {
+    return this._fn;
+  }
+
+  /**
+   * Gets the kind of the function.
+   * @returns {FunctionKind} 'class', 'function', 'arrow', 'method', 'bound' or 'native'.
+   */
+  getKind(): FunctionKind {
+    return this._kind;
+  }
+
+  /**
+   * Checks if the function is an async function or async generator, of any kind.
+   * Bound functions do not expose whether their target is async.
+   * @returns {boolean} True if the function is async.
+   */
+  isAsync(): boolean {
+    const tag = Object.prototype.toString.call(this._fn);
+    return tag === '[object AsyncFunction]' || tag === '[object AsyncGeneratorFunction]';
+  }
+
+  /**
+   * Checks if the function is a generator or async generator, of any kind.
+   * Bound functions do not expose whether their target is a generator.
+   * @returns {boolean} True if the function is a generator.
+   */
+  isGenerator(): boolean {
+    const tag = Object.prototype.toString.call(this._fn);
+    return tag === '[object GeneratorFunction]' || tag === '[object AsyncGeneratorFunction]';
+  }
+
+  /**
+   * Checks if the function can be called with `new`: classes, plain `function`s that are neither
+   * async nor generators, and bound or native functions wrapping a constructor.
+   * The check does not call the function.
+   * @returns {boolean} True if the function is a constructor.
+   */
+  isInstantiable(): boolean {
+    return isConstructor(this._fn);
+  }
+
+  /**
+   * Checks if the function can be called without `new`. Only classes cannot; bound and native
+   * functions are assumed callable, as their implementation cannot be inspected (e.g. `Map` is not).
+   * @returns {boolean} True if the function can be called.
+   */
+  isCallable(): boolean {
+    return this._kind !== 'class';
+  }
+
+  /**
+   * Gets the arity of the function as reported by `Function.prototype.length`.
+   * @returns {number} The function length.
+   */
+  getLength(): number {
+    return this._fn.length;
+  }
+
+  /**
+   * Gets the parameters of the function, parsed from its source. For classes, these are the
+   * parameters of the explicit constructor. Returns an empty array for native or bound functions.
+   * @returns {ReflectionParameter[]} The function parameters.
+   */
+  getParameters(): ReflectionParameter[] {
+    if (!this._parameters) {
+      this._parameters = parseParameters(this._fn).map(
+        (parsed, position) => new ReflectionParameter(parsed, position)
+      );
+    }
+    return this._parameters;
+  }
+
+  /**
+   * Gets the number of declared parameters, including optional and rest parameters.
+   * @returns {number} The number of parameters.
+   */
+  getNumberOfParameters(): number {
+    return this.getParameters().length;
+  }
+
+  /**
+   * Gets the number of required parameters.
+   * @returns {number} The number of parameters that are neither defaulted nor rest parameters.
+   */
+  getNumberOfRequiredParameters(): number {
+    return this.getParameters().filter((param) => !param.isOptional()).length;
+  }
+
+  /**
+   * Calls the function without a `this` value.
+   * @param {...any} args - Arguments to pass to the function.
+   * @returns {any} The function's return value.
+   * @throws {NotCallableError} If the function is a class.
+   */
+  invoke(...args: any[]): any {
+    return this.invokeWith(undefined, ...args);
+  }
+
+  /**
+   * Calls the function with the given `this` value, e.g. the object a method belongs to.
+   * Arrow and bound functions ignore it.
+   * @param {any} thisArg - The `this` value.
+   * @param {...any} args - Arguments to pass to the function.
+   * @returns {any} The function's return value.
+   * @throws {NotCallableError} If the function is a class.
+   */
+  invokeWith(thisArg: any, ...args: any[]): any {
+    if (!this.isCallable()) {
+      throw new NotCallableError(`${this.getName()} is a class and cannot be called without new; use newInstance().`, {
+        target: this.getName(),
+      });
+    }
+    return this._fn.apply(thisArg, args);
+  }
+
+  /**
+   * Calls the function with `new`.
+   * @param {...any} args - Arguments to pass to the constructor.
+   * @returns {any} The constructed object.
+   * @throws {NotInstantiableError} If the function is not a constructor, before it is called.
+   */
+  newInstance(...args: any[]): any {
+    this.assertInstantiable();
+    return Reflect.construct(this._fn, args);
+  }
+
+  /**
+   * Throws if the function cannot be called with `new`, explaining why.
+   * @throws {NotInstantiableError} If the function is not a constructor.
+   */
+  assertInstantiable(): void {
+    if (this.isInstantiable()) return;
+    throw new NotInstantiableError(`${this.getName()} is not instantiable: ${this._notInstantiableReason()}.`, {
+      target: this.getName(),
+    });
+  }
+
+  /**
+   * Returns a string representation of the reflected function.
+   * @returns {string} A string describing the function.
+   */
+  toString(): string {
+    return `ReflectionFunction for [${this._kind} ${this.getName()}]`;
+  }
+
+  /**
+   * Explains why the function is not a constructor.
+   * @returns {string} The reason, for error messages.
+   * @private
+   */
+  private _notInstantiableReason(): string {
+    if (this.isAsync()) return 'async functions cannot be called with new';
+    if (this.isGenerator()) return 'generator functions cannot be called with new';
+    switch (this._kind) {
+      case 'arrow':
+        return 'arrow functions cannot be called with new';
+      case 'method':
+        return 'methods cannot be called with new';
+      case 'bound':
+        return 'the bound function is not a constructor';
+      default:
+        return 'it is not a constructor';
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { ReflectionMethod } from "./reflection-method.ts";
+
+class Service {
+  constructor(name: string) { }
+
+  handle(request: string, retries = 3, ...rest: unknown[]): string {
+    return request;
+  }
+
+  async load(id: number, { cache, ttl = 10 }: { cache: boolean; ttl?: number }): Promise<number> {
+    return id;
+  }
+
+  *ids(start: number /* inclusive */, end: number = start + 10) {
+    yield start;
+  }
+
+  async *stream(source: string = "a,b", separator = ",") {
+    yield source;
+  }
+
+  [Symbol.iterator]() {
+    return [][Symbol.iterator]();
+  }
+
+  get computed(): () => number {
+    return () => 42;
+  }
+
+  static create(name = `service-${"default"}`, [first, second]: number[] = [1, 2]): Service {
+    return new Service(name);
+  }
+}
+
+class ExtendedService extends Service {
+  handle(request: string): string {
+    return `extended ${request}`;
+  }
+}
+
+describe('ReflectionMethod', () => {
+  describe('Resolution through ReflectionClass', () => {
+    it('getMethod should resolve prototype methods on instances', () => {
+      const method = new ReflectionClass(new Service('svc')).getMethod('handle');
+      assert.ok(method instanceof ReflectionMethod);
+      assert.strictEqual(method.getName(), 'handle');
+      assert.strictEqual(method.getDeclaringClass(), Service);
+      assert.strictEqual(method.isStatic(), false);
+    });
+
+    it('getMethod should resolve static methods on classes', () => {
+      const method = new ReflectionClass(ExtendedService).getMethod('create');
+      assert.ok(method);
+      assert.strictEqual(method.isStatic(), true);
+      assert.strictEqual(method.getDeclaringClass(), Service);
+    });
+
+    it('getMethod should report the nearest declaring class for overrides', () => {
+      const reflection = new ReflectionClass(new ExtendedService('svc'));
+      assert.strictEqual(reflection.getMethod('handle')?.getDeclaringClass(), ExtendedService);
+      assert.strictEqual(reflection.getMethod('load')?.getDeclaringClass(), Service);
+    });
+
+    it('getMethod should return null for accessors, constructors and unknown names', () => {
+      const reflection = new ReflectionClass(new Service('svc'));
+      assert.strictEqual(reflection.getMethod('computed'), null);
+      assert.strictEqual(reflection.getMethod('constructor'), null);
+      assert.strictEqual(reflection.getMethod('missing'), null);
+    });
+
+    it('getMethod should resolve own instance methods first', () => {
+      const instance = new Service('svc');
+      const override = () => 'own';
+      (instance as any).handle = override;
+      const method = new ReflectionClass(instance).getMethod('handle');
+      assert.strictEqual(method?.getClosure(), override);
+      assert.strictEqual(method?.getDeclaringClass(), Service);
+    });
+
+    it('getOwnMethodObjects should mirror getOwnMethods', () => {
+      const reflection = new ReflectionClass(new ExtendedService('svc'));
+      const names = reflection.getOwnMethodObjects().map((method) => method.getName());
+      assert.deepStrictEqual(names.sort(), reflection.getOwnMethods().sort());
+    });
+
+    it('getMethodObjects should return sorted methods from the whole chain', () => {
+      const names = new ReflectionClass(new ExtendedService('svc'))
+        .getMethodObjects()
+        .map((method) => method.getName());
+      assert.deepStrictEqual(names, ['handle', 'ids', 'load', 'stream']);
+    });
+  });
+
+  describe('Kind and arity', () => {
+    const reflection = new ReflectionClass(new Service('svc'));
+
+    it('getKind should classify sync, async and generator methods', () => {
+      assert.strictEqual(reflection.getMethod('handle')?.getKind(), 'sync');
+      assert.strictEqual(reflection.getMethod('load')?.getKind(), 'async');
+      assert.strictEqual(reflection.getMethod('ids')?.getKind(), 'generator');
+      assert.strictEqual(reflection.getMethod('stream')?.getKind(), 'async-generator');
+    });
+
+    it('isAsync and isGenerator should follow the kind', () => {
+      const stream = reflection.getMethod('stream')!;
+      assert.ok(stream.isAsync());
+      assert.ok(stream.isGenerator());
+      assert.strictEqual(reflection.getMethod('handle')!.isAsync(), false);
+    });
+
+    it('getLength should report Function.prototype.length', () => {
+      assert.strictEqual(reflection.getMethod('handle')?.getLength(), 1);
+      assert.strictEqual(reflection.getMethod('load')?.getLength(), 2);
+    });
+  });
+
+  describe('Parameters', () => {
+    const reflection = new ReflectionClass(new Service('svc'));
+
+    it('should parse names, defaults and rest parameters', () => {
+      const params = reflection.getMethod('handle')!.getParameters();
+      assert.deepStrictEqual(params.map((p) => p.getName()), ['request', 'retries', 'rest']);
+      assert.deepStrictEqual(params.map((p) => p.isDefaultValueAvailable()), [false, true, false]);
+      assert.deepStrictEqual(params.map((p) => p.isVariadic()), [false, false, true]);
+      assert.deepStrictEqual(params.map((p) => p.getPosition()), [0, 1, 2]);
+    });
+
+    it('should count total and required parameters', () => {
+      const method = reflection.getMethod('handle')!;
+      assert.strictEqual(method.getNumberOfParameters(), 3);
+      assert.strictEqual(method.getNumberOfRequiredParameters(), 1);
+    });
+
+    it('should keep destructured patterns intact', () => {
+      const params = reflection.getMethod('load')!.getParameters();
+      assert.strictEqual(params.length, 2);
+      assert.ok(params[1].isDestructured());
+      assert.strictEqual(params[1].getName(), '{ cache, ttl = 10 }');
+      assert.strictEqual(params[1].isDefaultValueAvailable(), false);
+    });
+
+    it('should ignore comments and expressions inside defaults', () => {
+      const params = reflection.getMethod('ids')!.getParameters();
+      assert.deepStrictEqual(params.map((p) => p.getName()), ['start', 'end']);
+      assert.ok(params[1].isOptional());
+    });
+
+    it('should handle template literals and array patterns in static methods', () => {
+      const params = new ReflectionClass(Service).getMethod('create')!.getParameters();
+      assert.deepStrictEqual(params.map((p) => p.getName()), ['name', '[first, second]']);
+      assert.ok(params.every((p) => p.isDefaultValueAvailable()));
+    });
+
+    it('should parse computed method keys and arrow functions', () => {
+      const iterator = new ReflectionMethod(Service, 'iterator', Service.prototype[Symbol.iterator]);
+      assert.deepStrictEqual(iterator.getParameters(), []);
+      const arrow = new ReflectionMethod(Object, 'arrow', (value: number) => value);
+      assert.deepStrictEqual(arrow.getParameters().map((p) => p.getName()), ['value']);
+      const bare = new ReflectionMethod(Object, 'bare', new Function('return async item => item')());
+      assert.deepStrictEqual(bare.getParameters().map((p) => p.getName()), ['item']);
+    });
+
+    it('should return no parameters for native and bound functions', () => {
+      assert.deepStrictEqual(new ReflectionMethod(Array, 'push', Array.prototype.push).getParameters(), []);
+      const bound = Service.prototype.handle.bind(null);
+      assert.deepStrictEqual(new ReflectionMethod(Service, 'handle', bound).getParameters(), []);
+    });
+  });
+
+  describe('Invocation and Utility', () => {
+    it('invoke should call the method with the given this', () => {
+      const method = new ReflectionClass(ExtendedService).getMethodObjects()[0];
+      assert.strictEqual(method.getName(), 'create');
+      assert.ok(method.invoke(Service, 'x') instanceof Service);
+      const handle = new ReflectionClass(new ExtendedService('svc')).getMethod('handle')!;
+      assert.strictEqual(handle.invoke(new ExtendedService('other'), 'req'), 'extended req');
+    });
+
+    it('should throw TypeError when constructed with a non-function', () => {
+      assert.throws(() => new ReflectionMethod(Service, 'bad', 42 as any), TypeError);
+    });
+
+    it('toString should return a descriptive string', () => {
+      assert.strictEqual(
+        new ReflectionClass(Service).getMethod('create')!.toString(),
+        'ReflectionMethod for [static Service.create]'
+      );
+      assert.strictEqual(
+        new ReflectionClass(new Service('svc')).getMethod('handle')!.toString(),
+        'ReflectionMethod for [Service.handle]'
+      );
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { InvalidTargetError } from "./errors.ts";
+import { formatKey, type MemberKey } from "./keys.ts";
+import * as metadata from "./metadata.ts";
+import { ReflectionParameter } from "./reflection-parameter.ts";
+import { parseParameters } from "./source.ts";
+import { getTraitOrigin } from "./traits.ts";
+
+/**
+ * The kind of a reflected method, derived from the function's internal tag.
+ */
+export type MethodKind = 'sync' | 'async' | 'generator' | 'async-generator';
+
+/**
+ * @class ReflectionMethod
+ * @description Provides information about a single method of a class or object.
+ */
+export class ReflectionMethod {
+  /**
+   * @type {MemberKey}
+   * @private
+   * The name or symbol of the method.
+   */
+  private _name: MemberKey;
+
+  /**
+   * @type {Function}
+   * @private
+   * The method implementation.
+   */
+  private _fn: Function;
+
+  /**
+   * @type {Function|null}
+   * @private
+   * The class (constructor function) declaring the method.
+   * Null for members of objects without a constructor, e.g. `Object.create(null)`.
+   */
+  private _declaringClass: Function | null;
+
+  /**
+   * @type {boolean}
+   * @private
+   * Whether the method is static (declared on the constructor rather than the prototype).
+   */
+  private _static: boolean;
+
+  /**
+   * @type {ReflectionParameter[]|null}
+   * @private
+   * Lazily parsed parameters.
+   */
+  private _parameters: ReflectionParameter[] | null = null;
+
+  /**
+   * Creates an instance of ReflectionMethod.
+   * @param {Function|null} declaringClass - The class declaring the method, or null if there is none.
+   * @param {MemberKey} name - The name or symbol of the method.
+   * @param {Function} fn - The method implementation.
+   * @param {boolean} [isStatic=false] - Whether the method is static.
+   * @throws {InvalidTargetError} If fn is not a function.
+   */
+  constructor(declaringClass: Function | null, name: MemberKey, fn: Function, isStatic: boolean = false) {
+    if (typeof fn !== 'function') {
+      throw new InvalidTargetError(`Method ${formatKey(name)} must be a function.`, {
+        target: declaringClass ? declaringClass.name || '[Anonymous]' : null,
+        member: name,
+      });
+    }
+    this._declaringClass = declaringClass;
+    this._name = name;
+    this._fn = fn;
+    this._static = isStatic;
+  }
+
+  /**
+   * Gets the name of the method.
+   * @returns {MemberKey} The method name, or its symbol for symbol-keyed methods.
+   */
+  getName(): MemberKey {
+    return this._name;
+  }
+
+  /**
+   * Gets the class declaring the method.
+   * @returns {Function|null} The declaring class constructor, or null if there is none.
+   */
+  getDeclaringClass(): Function | null {
+    return this._declaringClass;
+  }
+
+  /**
+   * Gets the method implementation.
+   * @returns {Function} The underlying function.
+   */
+  getClosure(): Function {
+    return this._fn;
+  }
+
+  /**
+   * Checks if the method is static.
+   * @returns {boolean} True if the method is declared on the constructor.
+   */
+  isStatic(): boolean {
+    return this._static;
+  }
+
+  /**
+   * Gets the kind of the method.
+   * @returns {MethodKind} 'sync', 'async', 'generator' or 'async-generator'.
+   */
+  getKind(): MethodKind {
+    switch (Object.prototype.toString.call(this._fn)) {
+      case '[object AsyncFunction]':
+        return 'async';
+      case '[object GeneratorFunction]':
+        return 'generator';
+      case '[object AsyncGeneratorFunction]':
+        return 'async-generator';
+      default:
+        return 'sync';
+    }
+  }
+
+  /**
+   * Checks if the method is an async function or async generator.
+   * @returns {boolean} True if the method is async.
+   */
+  isAsync(): boolean {
+    const kind = this.getKind();
+    return kind === 'async' || kind === 'async-generator';
+  }
+
+  /**
+   * Checks if the method is a generator or async generator.
+   * @returns {boolean} True if the method is a generator.
+   */
+  isGenerator(): boolean {
+    const kind = this.getKind();
+    return kind === 'generator' || kind === 'async-generator';
+  }
+
+  /**
+   * Gets the arity of the method as reported by `Function.prototype.length`,
+   * i.e. the number of parameters before the first default or rest parameter.
+   * @returns {number} The function length.
+   */
+  getLength(): number {
+    return this._fn.length;
+  }
+
+  /**
+   * Gets the parameters of the method, parsed from its source.
+   * Returns an empty array for native or bound functions.
+   * @returns {ReflectionParameter[]} The method parameters.
+   */
+  getParameters(): ReflectionParameter[] {
+    if (!this._parameters) {
+      this._parameters = parseParameters(this._fn).map(
+        (parsed, position) => new ReflectionParameter(parsed, position)
+      );
+    }
+    return this._parameters;
+  }
+
+  /**
+   * Gets the number of declared parameters, including optional and rest parameters.
+   * @returns {number} The number of parameters.
+   */
+  getNumberOfParameters(): number {
+    return this.getParameters().length;
+  }
+
+  /**
+   * Gets the number of required parameters.
+   * @returns {number} The number of parameters that are neither defaulted nor rest parameters.
+   */
+  getNumberOfRequiredParameters(): number {
+    return this.getParameters().filter((param) => !param.isOptional()).length;
+  }
+
+  /**
+   * Invokes the method on the given target.
+   * @param {any} target - The `this` value; the class for static methods, an instance otherwise.
+   * @param {...any} args - Arguments to pass to the method.
+   * @returns {any} The method's return value.
+   */
+  invoke(target: any, ...args: any[]): any {
+    return this._fn.apply(target, args);
+  }
+
+  /**
+   * Gets metadata attached to the method, looking up the inheritance chain of the declaring class.
+   * @param {unknown} key - The metadata key.
+   * @returns {unknown} The nearest metadata value, or undefined.
+   */
+  getMetadata(key: unknown): unknown {
+    const target = this._metadataTarget();
+    return target ? metadata.getMetadata(key, target, this._name) : undefined;
+  }
+
+  /**
+   * Checks if metadata is attached to the method, including inherited metadata.
+   * @param {unknown} key - The metadata key.
+   * @returns {boolean} True if the key is defined.
+   */
+  hasMetadata(key: unknown): boolean {
+    const target = this._metadataTarget();
+    return target ? metadata.hasMetadata(key, target, this._name) : false;
+  }
+
+  /**
+   * Gets all metadata attached to the method, merged up the inheritance chain.
+   * @returns {Map<unknown, unknown>} The merged metadata.
+   */
+  getAllMetadata(): Map<unknown, unknown> {
+    const target = this._metadataTarget();
+    return target ? metadata.getAllMetadata(target, this._name) : new Map();
+  }
+
+  /**
+   * Gets metadata for one of the method's parameters, looking up the inheritance chain.
+   * @param {unknown} key - The metadata key.
+   * @param {number} index - The zero-based parameter index.
+   * @returns {unknown} The nearest metadata value, or undefined.
+   */
+  getParameterMetadata(key: unknown, index: number): unknown {
+    const target = this._metadataTarget();
+    return target ? metadata.getMetadata(key, target, this._name, index) : undefined;
+  }
+
+  /**
+   * Gets the trait the method was composed from with `mix()` or `use()`.
+   * @returns {Function|null} The trait, or null if the class declares the method itself.
+   */
+  getTrait(): Function | null {
+    if (!this._declaringClass) return null;
+    return getTraitOrigin(this._declaringClass, this._name, this._static, { value: this._fn })?.trait ?? null;
+  }
+
+  /**
+   * Returns a string representation of the reflected method.
+   * @returns {string} A string describing the method.
+   */
+  toString(): string {
+    const name = (this._declaringClass as any)?.name || '[Anonymous]';
+    return `ReflectionMethod for [${this._static ? 'static ' : ''}${name}.${formatKey(this._name)}]`;
+  }
+
+  /**
+   * Determines the metadata target: the declaring class for static methods,
+   * its prototype otherwise.
+   * @returns {object|null} The metadata target, or null without a declaring class.
+   * @private
+   */
+  private _metadataTarget(): object | null {
+    if (!this._declaringClass) return null;
+    return this._static ? this._declaringClass : this._declaringClass.prototype ?? null;
+  }
+}
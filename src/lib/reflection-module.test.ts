@@ -0,0 +1,106 @@
+import { after, before, describe, it } from "node:test";
+import * as assert from "node:assert";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { Contract } from "./contract.ts";
+import { InvalidTargetError, ReflectionError } from "./errors.ts";
+import { ReflectionClass } from "./reflection.ts";
+import { ReflectionModule } from "./reflection-module.ts";
+
+const errors = await import('./errors.ts');
+
+describe('ReflectionModule', () => {
+  it('should classify exports', () => {
+    const module = new ReflectionModule(errors);
+    assert.strictEqual(module.isNamespace(), true);
+    assert.ok(module.getExportNames().includes('ReflectionError'));
+    assert.strictEqual(module.getExportKind('ReflectionError'), 'class');
+    assert.strictEqual(module.getExportKind('missing'), null);
+    assert.strictEqual(module.getExport('ReflectionError'), ReflectionError);
+    assert.strictEqual(module.getClass('ReflectionError')?.getName(), 'ReflectionError');
+    assert.strictEqual(module.getClasses().length, module.getExportNames().length);
+    assert.deepStrictEqual(module.getFunctions(), []);
+  });
+
+  it('should find subclasses and implementations', () => {
+    const module = new ReflectionModule(errors);
+    assert.deepStrictEqual(
+      module.getSubclassesOf(ReflectionError).map((reflection) => reflection.getName()),
+      ['AccessDeniedError', 'ClassNotFoundError', 'InvalidArgumentError', 'InvalidTargetError', 'MemberNotFoundError',
+        'NotAClassError', 'NotCallableError', 'NotInstantiableError', 'ReadOnlyMemberError']
+    );
+    assert.strictEqual(module.getSubclassesOf('TypeError').length, 10);
+
+    abstract class Describable {
+      abstract describe(): string;
+    }
+    Object.defineProperty(Describable.prototype, 'describe', { value() { }, writable: true, configurable: true });
+    class Invoice {
+      describe(): string { return 'invoice'; }
+    }
+    class Total extends Invoice { }
+    const plain = new ReflectionModule({ Describable, Invoice, Total, VERSION: '1.0', helper: () => 1, default: Invoice });
+    assert.strictEqual(plain.isNamespace(), false);
+    assert.deepStrictEqual(plain.getImplementationsOf(Describable).map((reflection) => reflection.getName()), ['Invoice', 'Total']);
+    const describable = new Contract('Describable', { describe: { kind: 'method' } });
+    assert.deepStrictEqual(plain.getImplementationsOf(describable).map((reflection) => reflection.getName()), ['Describable', 'Invoice', 'Total']);
+    assert.deepStrictEqual(plain.getConstants(), { VERSION: '1.0' });
+    assert.deepStrictEqual(plain.getFunctions().map((fn) => fn.getKind()), ['arrow']);
+  });
+
+  it('should point module namespaces passed to ReflectionClass to ReflectionModule', () => {
+    assert.throws(() => new ReflectionClass(errors), {
+      name: 'InvalidTargetError',
+      message: 'Target is a module namespace: reflect it with ReflectionModule.',
+    });
+    assert.throws(() => new ReflectionModule(null as any), InvalidTargetError);
+  });
+
+  describe('import() and scan()', () => {
+    let directory: string;
+
+    before(() => {
+      directory = mkdtempSync(join(tmpdir(), 'reflection-module-'));
+      mkdirSync(join(directory, 'commands', 'admin'), { recursive: true });
+      writeFileSync(join(directory, 'base.mjs'), 'export class BaseCommand { run() {} }\n');
+      writeFileSync(join(directory, 'commands', 'hello.mjs'), [
+        "import { BaseCommand } from '../base.mjs';",
+        'export default class HelloCommand extends BaseCommand { }',
+        'export const description = "Says hello";',
+      ].join('\n'));
+      writeFileSync(join(directory, 'commands', 'admin', 'reset.mjs'), [
+        "import { BaseCommand } from '../../base.mjs';",
+        'export class ResetCommand extends BaseCommand { }',
+        'export function confirm() { return true; }',
+      ].join('\n'));
+      writeFileSync(join(directory, 'commands', 'README.md'), '# Commands\n');
+      writeFileSync(join(directory, 'commands', 'types.d.ts'), 'export {};\n');
+    });
+
+    after(() => rmSync(directory, { recursive: true, force: true }));
+
+    it('should import a module by path or URL', async () => {
+      const module = await ReflectionModule.import(join(directory, 'commands', 'hello.mjs'));
+      assert.strictEqual(module.getName(), 'hello');
+      assert.strictEqual(module.getUrl(), pathToFileURL(join(directory, 'commands', 'hello.mjs')).href);
+      assert.deepStrictEqual(module.getExportNames(), ['default', 'description']);
+      assert.strictEqual(String(await ReflectionModule.import(pathToFileURL(join(directory, 'base.mjs')))), 'ReflectionModule for [Module: base]');
+    });
+
+    it('should find every exported class extending a base in a directory', async () => {
+      const { BaseCommand } = await import(pathToFileURL(join(directory, 'base.mjs')).href);
+      const flat = await ReflectionModule.scan(join(directory, 'commands'));
+      assert.deepStrictEqual(flat.map((module) => module.getName()), ['hello']);
+
+      const modules = await ReflectionModule.scan(join(directory, 'commands'), { recursive: true });
+      assert.deepStrictEqual(modules.map((module) => module.getName()), ['reset', 'hello']);
+      const commands = modules.flatMap((module) => module.getSubclassesOf(BaseCommand));
+      assert.deepStrictEqual(commands.map((reflection) => reflection.getName()), ['ResetCommand', 'HelloCommand']);
+
+      const filtered = await ReflectionModule.scan(directory, { recursive: true, filter: (path) => !path.includes('admin') });
+      assert.deepStrictEqual(filtered.map((module) => module.getName()), ['base', 'hello']);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import type { Contract } from "./contract.ts";
+import { InvalidTargetError } from "./errors.ts";
+import { isModuleNamespace } from "./identity.ts";
+import { ReflectionClass } from "./reflection.ts";
+import { ReflectionFunction } from "./reflection-function.ts";
+
+/**
+ * The kind of a module export:
+ * - `class`: a class (ES5 constructor functions are functions);
+ * - `function`: any other function;
+ * - `constant`: any other value.
+ */
+export type ExportKind = 'class' | 'function' | 'constant';
+
+/**
+ * @interface ModuleExport
+ * @description An export of a module.
+ */
+export interface ModuleExport {
+  /** The export name; `default` for the default export. */
+  name: string;
+  kind: ExportKind;
+  value: unknown;
+}
+
+/**
+ * @interface ModuleScanOptions
+ * @description Options accepted by `ReflectionModule.scan()`.
+ */
+export interface ModuleScanOptions {
+  /** Scan subdirectories as well. Defaults to false. */
+  recursive?: boolean;
+  /** Only import the files this returns true for, e.g. to skip tests. Called with the absolute path. */
+  filter?: (path: string) => boolean;
+}
+
+/**
+ * File extensions `ReflectionModule.scan()` imports. Declaration files (`.d.ts`) are skipped.
+ */
+const SCRIPT_EXTENSIONS = /(?<!\.d)\.(?:[cm]?js|[cm]?ts)$/;
+
+/**
+ * @class ReflectionModule
+ * @description Reflects an ES module namespace (the result of `await import(path)`): lists its exported
+ * classes, functions and constants, and finds exported classes by base class or contract.
+ * @example
+ * ```ts
+ * const modules = await ReflectionModule.scan('./commands', { recursive: true });
+ * const commands = modules.flatMap((module) => module.getSubclassesOf(BaseCommand));
+ * ```
+ */
+export class ReflectionModule {
+  /**
+   * @type {Record<string, unknown>}
+   * @private
+   * The module namespace, or the object standing in for it (e.g. `module.exports` of a CommonJS module).
+   */
+  private _namespace: Record<string, unknown>;
+
+  /**
+   * @type {string|null}
+   * @private
+   * The URL or specifier the module was imported from, if known.
+   */
+  private _url: string | null;
+
+  /**
+   * Creates an instance of ReflectionModule.
+   * @param {object} namespace - The module namespace, e.g. `await import('./plugin.js')`.
+   * @param {string|null} [url=null] - The URL or specifier the module was imported from.
+   * @throws {InvalidTargetError} If the namespace is not an object.
+   */
+  constructor(namespace: object, url: string | null = null) {
+    if (namespace === null || typeof namespace !== 'object') {
+      throw new InvalidTargetError('ReflectionModule expects a module namespace object.');
+    }
+    this._namespace = namespace as Record<string, unknown>;
+    this._url = url;
+  }
+
+  /**
+   * Imports a module and reflects it. Paths (absolute, or relative to the working directory) are converted
+   * to file URLs; other specifiers, such as URLs and package names, are imported as they are.
+   * @param {string|URL} specifier - The path, URL or package name.
+   * @returns {Promise<ReflectionModule>} The reflected module.
+   */
+  static async import(specifier: string | URL): Promise<ReflectionModule> {
+    const url = await toImportUrl(specifier);
+    return new ReflectionModule(await import(url), url);
+  }
+
+  /**
+   * Imports every script of a directory, one after another in path order, and reflects them.
+   * JavaScript and TypeScript files are imported (TypeScript needs a runtime that supports it);
+   * declaration files are skipped. Import errors reject the returned promise.
+   * @param {string} directory - The directory, absolute or relative to the working directory.
+   * @param {ModuleScanOptions} [options] - Scan options, e.g. `{ recursive: true }`.
+   * @returns {Promise<ReflectionModule[]>} The reflected modules.
+   */
+  static async scan(directory: string, options: ModuleScanOptions = {}): Promise<ReflectionModule[]> {
+    // Loaded on demand, so the package can still be bundled for browsers
+    const { readdir } = await import('node:fs/promises');
+    const { join, resolve } = await import('node:path');
+    const root = resolve(directory);
+    const entries = await readdir(root, { recursive: options.recursive === true, withFileTypes: true });
+    const files = entries
+      .filter((entry) => entry.isFile() && SCRIPT_EXTENSIONS.test(entry.name))
+      .map((entry) => join(entry.parentPath, entry.name))
+      .filter((path) => options.filter?.(path) ?? true)
+      .sort();
+
+    const modules: ReflectionModule[] = [];
+    for (const file of files) {
+      modules.push(await ReflectionModule.import(file));
+    }
+    return modules;
+  }
+
+  /**
+   * Gets the name of the module: its file name without extension, or the specifier it was imported from.
+   * @returns {string} The module name, or '[Anonymous]' if the module was not imported by this class.
+   */
+  getName(): string {
+    if (!this._url) return '[Anonymous]';
+    const file = this._url.replace(/[?#].*$/, '').split(/[\\/]/).pop() ?? '';
+    return decodeURIComponent(file).replace(/\.[^.]+$/, '') || this._url;
+  }
+
+  /**
+   * Gets the URL or specifier the module was imported from.
+   * @returns {string|null} The URL, or null if unknown.
+   */
+  getUrl(): string | null {
+    return this._url;
+  }
+
+  /**
+   * Checks if the reflected object is a real module namespace rather than an object standing in for one.
+   * @returns {boolean} True for module namespaces.
+   */
+  isNamespace(): boolean {
+    return isModuleNamespace(this._namespace);
+  }
+
+  /**
+   * Gets the export names, in the order of the namespace (sorted, for real namespaces).
+   * @returns {string[]} The export names, including `default`.
+   */
+  getExportNames(): string[] {
+    return Object.keys(this._namespace);
+  }
+
+  /**
+   * Checks if the module has an export.
+   * @param {string} name - The export name.
+   * @returns {boolean} True if the module exports the name.
+   */
+  hasExport(name: string): boolean {
+    return Object.hasOwn(this._namespace, name);
+  }
+
+  /**
+   * Gets the value of an export.
+   * @param {string} name - The export name.
+   * @returns {unknown} The exported value, or undefined if there is no such export.
+   */
+  getExport(name: string): unknown {
+    return this.hasExport(name) ? this._namespace[name] : undefined;
+  }
+
+  /**
+   * Classifies an export.
+   * @param {string} name - The export name.
+   * @returns {ExportKind|null} The kind of the export, or null if there is no such export.
+   */
+  getExportKind(name: string): ExportKind | null {
+    return this.hasExport(name) ? exportKind(this._namespace[name]) : null;
+  }
+
+  /**
+   * Lists every export with its kind.
+   * @returns {ModuleExport[]} The exports, in the order of `getExportNames()`.
+   */
+  getExports(): ModuleExport[] {
+    return this.getExportNames().map((name) => {
+      const value = this._namespace[name];
+      return { name, kind: exportKind(value), value };
+    });
+  }
+
+  /**
+   * Reflects the exported classes. A class exported under several names (e.g. also as `default`) is listed once.
+   * @returns {ReflectionClass<Function>[]} The reflected classes.
+   */
+  getClasses(): ReflectionClass<Function>[] {
+    return this._values('class').map((type) => new ReflectionClass(type as Function));
+  }
+
+  /**
+   * Reflects an exported class by export name.
+   * @param {string} name - The export name.
+   * @returns {ReflectionClass<Function>|null} The reflected class, or null if the export is not a class.
+   */
+  getClass(name: string): ReflectionClass<Function> | null {
+    return this.getExportKind(name) === 'class' ? new ReflectionClass(this._namespace[name] as Function) : null;
+  }
+
+  /**
+   * Reflects the exported functions that are not classes, each listed once.
+   * @returns {ReflectionFunction[]} The reflected functions.
+   */
+  getFunctions(): ReflectionFunction[] {
+    return this._values('function').map((fn) => new ReflectionFunction(fn as Function));
+  }
+
+  /**
+   * Gets the exported values that are not functions.
+   * @returns {Record<string, unknown>} The constants, keyed by export name.
+   */
+  getConstants(): Record<string, unknown> {
+    return Object.fromEntries(
+      this.getExports().filter((entry) => entry.kind === 'constant').map((entry) => [entry.name, entry.value])
+    );
+  }
+
+  /**
+   * Reflects the exported classes extending a class, directly or through ancestors.
+   * @param {Function|string} base - The base class, or its name.
+   * @returns {ReflectionClass<Function>[]} The subclasses; the base class itself is not included.
+   */
+  getSubclassesOf(base: Function | string): ReflectionClass<Function>[] {
+    return this.getClasses().filter((reflection) => reflection.isSubclassOf(base));
+  }
+
+  /**
+   * Reflects the exported classes implementing a contract, or the instance methods of a class
+   * (e.g. an abstract class used with `implements`), whether or not they extend it.
+   * @param {Contract|Function} base - The contract, or the class whose instance methods are required.
+   * @returns {ReflectionClass<Function>[]} The implementing classes; a base class itself is not included.
+   */
+  getImplementationsOf(base: Contract<any> | Function): ReflectionClass<Function>[] {
+    return this.getClasses().filter((reflection) => {
+      if (typeof base !== 'function') return reflection.implements(base).valid;
+      const prototype = reflection.getPrototype();
+      return reflection.getConstructor() !== base && prototype !== null &&
+        new ReflectionClass(base).isInstanceCheck(prototype, 'structural');
+    });
+  }
+
+  /**
+   * Returns a string representation of the reflected module.
+   * @returns {string} A string describing the module.
+   */
+  toString(): string {
+    return `ReflectionModule for [Module: ${this.getName()}]`;
+  }
+
+  /**
+   * Gets the exported values of one kind, each once.
+   * @param {ExportKind} kind - The kind of export.
+   * @returns {unknown[]} The values, in export order.
+   * @private
+   */
+  private _values(kind: ExportKind): unknown[] {
+    return Array.from(new Set(this.getExports().filter((entry) => entry.kind === kind).map((entry) => entry.value)));
+  }
+}
+
+/**
+ * Classifies an exported value.
+ */
+function exportKind(value: unknown): ExportKind {
+  if (typeof value !== 'function') return 'constant';
+  return new ReflectionFunction(value).getKind() === 'class' ? 'class' : 'function';
+}
+
+/**
+ * Converts paths to file URLs for `import()`; other specifiers are returned unchanged.
+ */
+async function toImportUrl(specifier: string | URL): Promise<string> {
+  if (specifier instanceof URL) return specifier.href;
+  if (!/^(?:\.{1,2}[\\/]|[\\/]|[a-zA-Z]:[\\/])/.test(specifier)) return specifier;
+  const { pathToFileURL } = await import('node:url');
+  const { resolve } = await import('node:path');
+  return pathToFileURL(resolve(specifier)).href;
+}
@@ -0,0 +1,90 @@
+import type { ParsedParameter } from "./source.ts";
+
+/**
+ * @class ReflectionParameter
+ * @description Describes a single parameter of a reflected function or method.
+ * Parameter information is parsed from the function source, so it is only available
+ * for functions whose source is not native code.
+ */
+export class ReflectionParameter {
+  /**
+   * @type {ParsedParameter}
+   * @private
+   * The parsed parameter description.
+   */
+  private _parsed: ParsedParameter;
+
+  /**
+   * @type {number}
+   * @private
+   * The zero-based position of the parameter.
+   */
+  private _position: number;
+
+  /**
+   * Creates an instance of ReflectionParameter.
+   * @param {ParsedParameter} parsed - The parsed parameter description.
+   * @param {number} position - The zero-based position of the parameter.
+   */
+  constructor(parsed: ParsedParameter, position: number) {
+    this._parsed = parsed;
+    this._position = position;
+  }
+
+  /**
+   * Gets the name of the parameter.
+   * For destructured parameters this is the raw pattern text, e.g. `{ a, b }`.
+   * @returns {string} The parameter name.
+   */
+  getName(): string {
+    return this._parsed.name;
+  }
+
+  /**
+   * Gets the zero-based position of the parameter.
+   * @returns {number} The position.
+   */
+  getPosition(): number {
+    return this._position;
+  }
+
+  /**
+   * Checks if the parameter declares a default value.
+   * @returns {boolean} True if a default value is available.
+   */
+  isDefaultValueAvailable(): boolean {
+    return this._parsed.hasDefault;
+  }
+
+  /**
+   * Checks if the parameter is a rest parameter (`...args`).
+   * @returns {boolean} True if the parameter is variadic.
+   */
+  isVariadic(): boolean {
+    return this._parsed.isRest;
+  }
+
+  /**
+   * Checks if the parameter is optional, i.e. has a default value or is a rest parameter.
+   * @returns {boolean} True if the parameter is optional.
+   */
+  isOptional(): boolean {
+    return this._parsed.hasDefault || this._parsed.isRest;
+  }
+
+  /**
+   * Checks if the parameter is an object or array destructuring pattern.
+   * @returns {boolean} True if the parameter is destructured.
+   */
+  isDestructured(): boolean {
+    return this._parsed.isDestructured;
+  }
+
+  /**
+   * Returns a string representation of the parameter.
+   * @returns {string} A string describing the parameter.
+   */
+  toString(): string {
+    return `Parameter #${this._position} [ <${this.isOptional() ? 'optional' : 'required'}> ${this._parsed.isRest ? '...' : ''}${this._parsed.name} ]`;
+  }
+}
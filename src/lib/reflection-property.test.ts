@@ -0,0 +1,175 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { ReflectionProperty } from "./reflection-property.ts";
+
+class Entity {
+  public id: number;
+  private _label: string = 'untitled';
+  public reads: number = 0;
+
+  constructor(id: number) {
+    this.id = id;
+    Object.defineProperty(this, 'createdAt', { value: 1700000000, enumerable: false, writable: false });
+  }
+
+  get label(): string {
+    this.reads++;
+    return this._label;
+  }
+
+  set label(value: string) {
+    this._label = value.trim();
+  }
+
+  get summary(): string {
+    return `#${this.id} ${this._label}`;
+  }
+
+  get lazyLoader(): () => string {
+    this.reads++;
+    return () => 'loaded';
+  }
+
+  static registry: string = 'default';
+
+  static get tableName(): string {
+    return 'entities';
+  }
+}
+
+class User extends Entity {
+  public email: string = '';
+}
+
+describe('ReflectionProperty', () => {
+  describe('Resolution through ReflectionClass', () => {
+    it('getProperty should resolve own data properties on instances', () => {
+      const property = new ReflectionClass(new User(1)).getProperty('email');
+      assert.ok(property instanceof ReflectionProperty);
+      assert.strictEqual(property.getKind(), 'data');
+      assert.strictEqual(property.getDeclaringClass(), User);
+      assert.strictEqual(property.isStatic(), false);
+    });
+
+    it('getProperty should resolve accessors declared on a parent prototype', () => {
+      const property = new ReflectionClass(new User(1)).getProperty('label');
+      assert.ok(property);
+      assert.strictEqual(property.getKind(), 'accessor');
+      assert.strictEqual(property.getDeclaringClass(), Entity);
+    });
+
+    it('getProperty should resolve static properties and accessors on classes', () => {
+      const reflection = new ReflectionClass(User);
+      const registry = reflection.getProperty('registry')!;
+      assert.strictEqual(registry.isStatic(), true);
+      assert.strictEqual(registry.getDeclaringClass(), Entity);
+      const tableName = reflection.getProperty('tableName')!;
+      assert.ok(tableName.isAccessor());
+      assert.strictEqual(tableName.getValue(User), 'entities');
+    });
+
+    it('getProperty should return null for unknown properties', () => {
+      assert.strictEqual(new ReflectionClass(new User(1)).getProperty('missing'), null);
+    });
+
+    it('getPropertyObjects should not invoke getters', () => {
+      const user = new User(1);
+      const properties = new ReflectionClass(user).getPropertyObjects();
+      assert.ok(properties.some((property) => property.getName() === 'label'));
+      assert.ok(properties.some((property) => property.getName() === 'lazyLoader'));
+      assert.strictEqual(user.reads, 0);
+    });
+
+    it('getOwnPropertyObjects should mirror getOwnProperties', () => {
+      const reflection = new ReflectionClass(new User(1));
+      const names = reflection.getOwnPropertyObjects().map((property) => property.getName());
+      assert.deepStrictEqual(names.sort(), reflection.getOwnProperties().sort());
+    });
+  });
+
+  describe('Descriptor flags', () => {
+    const reflection = new ReflectionClass(new User(1));
+
+    it('should report read-only and non-enumerable data properties', () => {
+      const createdAt = reflection.getProperty('createdAt')!;
+      assert.strictEqual(createdAt.isWritable(), false);
+      assert.ok(createdAt.isReadOnly());
+      assert.strictEqual(createdAt.isEnumerable(), false);
+      assert.strictEqual(createdAt.isConfigurable(), false);
+    });
+
+    it('should report writable enumerable data properties', () => {
+      const email = reflection.getProperty('email')!;
+      assert.ok(email.isWritable());
+      assert.ok(email.isEnumerable());
+      assert.ok(email.isConfigurable());
+    });
+
+    it('should treat accessors as writable only when they have a setter', () => {
+      const label = reflection.getProperty('label')!;
+      assert.ok(label.hasGetter());
+      assert.ok(label.hasSetter());
+      assert.ok(label.isWritable());
+      const summary = reflection.getProperty('summary')!;
+      assert.ok(summary.hasGetter());
+      assert.strictEqual(summary.hasSetter(), false);
+      assert.ok(summary.isReadOnly());
+    });
+
+    it('getDescriptor should return a copy of the descriptor', () => {
+      const email = reflection.getProperty('email')!;
+      const descriptor = email.getDescriptor();
+      descriptor.writable = false;
+      assert.ok(email.isWritable());
+    });
+  });
+
+  describe('Reading and writing values', () => {
+    it('getValue should invoke accessors with the given target', () => {
+      const user = new User(7);
+      const summary = new ReflectionClass(User.prototype).getProperty('summary')!;
+      assert.strictEqual(summary.getValue(user), '#7 untitled');
+    });
+
+    it('setValue should go through setters', () => {
+      const user = new User(1);
+      new ReflectionClass(user).getProperty('label')!.setValue(user, '  admin  ');
+      assert.strictEqual(user.label, 'admin');
+    });
+
+    it('setValue should assign data properties', () => {
+      const user = new User(1);
+      const email = new ReflectionClass(user).getProperty('email')!;
+      email.setValue(user, 'a@example.com');
+      assert.strictEqual(email.getValue(user), 'a@example.com');
+    });
+
+    it('setValue should throw TypeError for read-only properties', () => {
+      const user = new User(1);
+      const reflection = new ReflectionClass(user);
+      assert.throws(() => reflection.getProperty('summary')!.setValue(user, 'x'), TypeError);
+      assert.throws(() => reflection.getProperty('createdAt')!.setValue(user, 0), TypeError);
+    });
+  });
+
+  describe('Method discovery with accessors', () => {
+    it('getMethods and hasMethod should not report getters returning functions', () => {
+      const user = new User(1);
+      const reflection = new ReflectionClass(user);
+      assert.strictEqual(reflection.getMethods().includes('lazyLoader'), false);
+      assert.strictEqual(reflection.hasMethod('lazyLoader'), false);
+      assert.strictEqual(new ReflectionClass(new Entity(1)).hasOwnMethod('lazyLoader'), false);
+      assert.strictEqual(user.reads, 0);
+    });
+  });
+
+  describe('Utility', () => {
+    it('toString should return a descriptive string', () => {
+      assert.strictEqual(
+        new ReflectionClass(User).getProperty('registry')!.toString(),
+        'ReflectionProperty for [static Entity.registry]'
+      );
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { AccessDeniedError, ReadOnlyMemberError } from "./errors.ts";
+import { formatKey, type MemberKey } from "./keys.ts";
+import * as metadata from "./metadata.ts";
+import { getTraitOrigin } from "./traits.ts";
+
+/**
+ * The kind of a reflected property, derived from its descriptor.
+ */
+export type PropertyKind = 'data' | 'accessor';
+
+/**
+ * @class ReflectionProperty
+ * @description Provides information about a single property of a class or object,
+ * based on its property descriptor. Inspecting a ReflectionProperty never invokes getters.
+ */
+export class ReflectionProperty {
+  /**
+   * @type {MemberKey}
+   * @private
+   * The name or symbol of the property.
+   */
+  private _name: MemberKey;
+
+  /**
+   * @type {PropertyDescriptor}
+   * @private
+   * The descriptor of the property on the object declaring it.
+   */
+  private _descriptor: PropertyDescriptor;
+
+  /**
+   * @type {Function|null}
+   * @private
+   * The class (constructor function) declaring the property.
+   * Null for members of objects without a constructor, e.g. `Object.create(null)`.
+   */
+  private _declaringClass: Function | null;
+
+  /**
+   * @type {boolean}
+   * @private
+   * Whether the property is static (found on the constructor chain).
+   */
+  private _static: boolean;
+
+  /**
+   * Creates an instance of ReflectionProperty.
+   * @param {Function|null} declaringClass - The class declaring the property, or null if there is none.
+   * @param {MemberKey} name - The name or symbol of the property.
+   * @param {PropertyDescriptor} descriptor - The property descriptor.
+   * @param {boolean} [isStatic=false] - Whether the property is static.
+   */
+  constructor(declaringClass: Function | null, name: MemberKey, descriptor: PropertyDescriptor, isStatic: boolean = false) {
+    this._declaringClass = declaringClass;
+    this._name = name;
+    this._descriptor = descriptor;
+    this._static = isStatic;
+  }
+
+  /**
+   * Gets the name of the property.
+   * @returns {MemberKey} The property name, or its symbol for symbol-keyed properties.
+   */
+  getName(): MemberKey {
+    return this._name;
+  }
+
+  /**
+   * Gets the class declaring the property.
+   * @returns {Function|null} The declaring class constructor, or null if there is none.
+   */
+  getDeclaringClass(): Function | null {
+    return this._declaringClass;
+  }
+
+  /**
+   * Gets a copy of the underlying property descriptor.
+   * @returns {PropertyDescriptor} The property descriptor.
+   */
+  getDescriptor(): PropertyDescriptor {
+    return { ...this._descriptor };
+  }
+
+  /**
+   * Checks if the property is static.
+   * @returns {boolean} True if the property was found on the constructor chain.
+   */
+  isStatic(): boolean {
+    return this._static;
+  }
+
+  /**
+   * Gets the kind of the property.
+   * @returns {PropertyKind} 'accessor' for getter/setter pairs, 'data' otherwise.
+   */
+  getKind(): PropertyKind {
+    return 'get' in this._descriptor || 'set' in this._descriptor ? 'accessor' : 'data';
+  }
+
+  /**
+   * Checks if the property is an accessor (getter and/or setter).
+   * @returns {boolean} True if the property is an accessor.
+   */
+  isAccessor(): boolean {
+    return this.getKind() === 'accessor';
+  }
+
+  /**
+   * Checks if the property has a getter.
+   * @returns {boolean} True if a getter is defined.
+   */
+  hasGetter(): boolean {
+    return typeof this._descriptor.get === 'function';
+  }
+
+  /**
+   * Checks if the property has a setter.
+   * @returns {boolean} True if a setter is defined.
+   */
+  hasSetter(): boolean {
+    return typeof this._descriptor.set === 'function';
+  }
+
+  /**
+   * Checks if the property can be assigned.
+   * Data properties are writable if their descriptor says so; accessors if they have a setter.
+   * @returns {boolean} True if the property is writable.
+   */
+  isWritable(): boolean {
+    return this.isAccessor() ? this.hasSetter() : this._descriptor.writable === true;
+  }
+
+  /**
+   * Checks if the property is read-only.
+   * @returns {boolean} True if the property cannot be assigned.
+   */
+  isReadOnly(): boolean {
+    return !this.isWritable();
+  }
+
+  /**
+   * Checks if the property is enumerable.
+   * @returns {boolean} True if the property shows up in `for...in` and `Object.keys`.
+   */
+  isEnumerable(): boolean {
+    return this._descriptor.enumerable === true;
+  }
+
+  /**
+   * Checks if the property is configurable.
+   * @returns {boolean} True if the property can be redefined or deleted.
+   */
+  isConfigurable(): boolean {
+    return this._descriptor.configurable === true;
+  }
+
+  /**
+   * Reads the property from the given target.
+   * Accessors are invoked with `target` as `this`; data properties are read from `target`.
+   * @param {any} target - The object to read from; the class for static properties.
+   * @returns {any} The property value.
+   * @throws {AccessDeniedError} If the getter (or a Proxy trap) throws; the original error is its `cause`.
+   */
+  getValue(target: any): any {
+    try {
+      if (this.isAccessor()) {
+        return this._descriptor.get ? this._descriptor.get.call(target) : undefined;
+      }
+      return target[this._name];
+    } catch (error) {
+      throw new AccessDeniedError(`Cannot read ${this._qualifiedName()}: ${error instanceof Error ? error.message : String(error)}`, {
+        target: this._className(),
+        member: this._name,
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Assigns the property on the given target.
+   * Accessors are invoked with `target` as `this`; data properties are assigned on `target`.
+   * @param {any} target - The object to write to; the class for static properties.
+   * @param {any} value - The value to assign.
+   * @throws {ReadOnlyMemberError} If the property is read-only or the assignment is rejected.
+   */
+  setValue(target: any, value: any): void {
+    const details = { target: this._className(), member: this._name };
+    if (!this.isWritable()) {
+      throw new ReadOnlyMemberError(`Cannot set read-only property ${formatKey(this._name)}.`, details);
+    }
+    if (this.isAccessor()) {
+      this._descriptor.set!.call(target, value);
+      return;
+    }
+    if (!Reflect.set(target, this._name, value)) {
+      throw new ReadOnlyMemberError(`Cannot set property ${formatKey(this._name)}.`, details);
+    }
+  }
+
+  /**
+   * Gets metadata attached to the property, looking up the inheritance chain of the declaring class.
+   * @param {unknown} key - The metadata key.
+   * @returns {unknown} The nearest metadata value, or undefined.
+   */
+  getMetadata(key: unknown): unknown {
+    const target = this._metadataTarget();
+    return target ? metadata.getMetadata(key, target, this._name) : undefined;
+  }
+
+  /**
+   * Checks if metadata is attached to the property, including inherited metadata.
+   * @param {unknown} key - The metadata key.
+   * @returns {boolean} True if the key is defined.
+   */
+  hasMetadata(key: unknown): boolean {
+    const target = this._metadataTarget();
+    return target ? metadata.hasMetadata(key, target, this._name) : false;
+  }
+
+  /**
+   * Gets all metadata attached to the property, merged up the inheritance chain.
+   * @returns {Map<unknown, unknown>} The merged metadata.
+   */
+  getAllMetadata(): Map<unknown, unknown> {
+    const target = this._metadataTarget();
+    return target ? metadata.getAllMetadata(target, this._name) : new Map();
+  }
+
+  /**
+   * Gets the trait the property (typically an accessor) was composed from with `mix()` or `use()`.
+   * @returns {Function|null} The trait, or null if the class declares the property itself.
+   */
+  getTrait(): Function | null {
+    if (!this._declaringClass) return null;
+    return getTraitOrigin(this._declaringClass, this._name, this._static, this._descriptor)?.trait ?? null;
+  }
+
+  /**
+   * Returns a string representation of the reflected property.
+   * @returns {string} A string describing the property.
+   */
+  toString(): string {
+    return `ReflectionProperty for [${this._static ? 'static ' : ''}${this._qualifiedName()}]`;
+  }
+
+  /**
+   * Gets the name of the declaring class, for messages.
+   * @returns {string} The class name.
+   * @private
+   */
+  private _className(): string {
+    return (this._declaringClass as any)?.name || '[Anonymous]';
+  }
+
+  /**
+   * Gets the property name prefixed with the declaring class name, for messages.
+   * @returns {string} The qualified name, e.g. `User.email`.
+   * @private
+   */
+  private _qualifiedName(): string {
+    return `${this._className()}.${formatKey(this._name)}`;
+  }
+
+  /**
+   * Determines the metadata target: the declaring class for static properties,
+   * its prototype otherwise.
+   * @returns {object|null} The metadata target, or null without a declaring class.
+   * @private
+   */
+  private _metadataTarget(): object | null {
+    if (!this._declaringClass) return null;
+    return this._static ? this._declaringClass : this._declaringClass.prototype ?? null;
+  }
+}
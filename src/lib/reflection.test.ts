@@ -54,6 +54,20 @@ class NoConstructor {
   myMethod(): number { return 5; }
 }
 
+const serialize = Symbol('serialize');
+class Collection {
+  items: number[] = [1, 2];
+  [serialize](): string { return JSON.stringify(this.items); }
+  *[Symbol.iterator]() { yield* this.items; }
+  get [Symbol.toStringTag](): string { return 'Collection'; }
+  static [Symbol.hasInstance](obj: unknown): boolean { return Array.isArray(obj); }
+}
+class Stream extends Collection {
+  async *[Symbol.asyncIterator]() { yield* this.items; }
+  [Symbol.dispose](): void { this.items = []; }
+  async [Symbol.asyncDispose](): Promise<void> { this.items = []; }
+}
+
 
 describe('ReflectionClass', () => {
   describe('Constructor and Basic Properties', () => {
@@ -103,6 +117,86 @@ describe('ReflectionClass', () => {
       assert.strictEqual(reflectObjectClass.getParentClass(), null);
       assert.strictEqual(reflectObjectClass.getParentClassName(), null);
     });
+
+    class Puppy extends Dog {
+      eat(): void { }
+      toString(): string { return 'Puppy'; }
+      static staticDogMethod(): string { return 'Static method from Puppy'; }
+    }
+
+    it('getAncestors should return the full constructor chain, nearest first', () => {
+      assert.deepStrictEqual(new ReflectionClass(Puppy).getAncestors(), [Dog, Animal, Object]);
+      assert.deepStrictEqual(new ReflectionClass(myDog).getAncestors(), [Animal, Object]);
+      assert.deepStrictEqual(reflectObjectClass.getAncestors(), []);
+    });
+
+    it('getAncestors should skip prototype links without their own constructor', () => {
+      const link = Object.create(Dog.prototype);
+      const leaf = Object.create(link);
+      assert.deepStrictEqual(new ReflectionClass(leaf).getAncestors(), [Animal, Object]);
+    });
+
+    it('isSubclassOf should accept classes and names', () => {
+      const reflectPuppy = new ReflectionClass(Puppy);
+      assert.ok(reflectPuppy.isSubclassOf(Animal));
+      assert.ok(reflectPuppy.isSubclassOf('Dog'));
+      assert.ok(reflectDogClass.isSubclassOf(Object));
+      assert.strictEqual(reflectDogClass.isSubclassOf(Dog), false);
+      assert.strictEqual(reflectAnimalClass.isSubclassOf(Dog), false);
+    });
+
+    it('getDeclaringClass should find the class defining a member', () => {
+      assert.strictEqual(new ReflectionClass(new Puppy('Bit', 'Pug')).getDeclaringClass('bark'), Dog);
+      assert.strictEqual(new ReflectionClass(new Puppy('Bit', 'Pug')).getDeclaringClass('eat'), Puppy);
+      assert.strictEqual(new ReflectionClass(myDog).getDeclaringClass('breed'), Dog);
+      assert.strictEqual(new ReflectionClass(Puppy).getDeclaringClass('staticAnimalProperty'), Animal);
+      assert.strictEqual(new ReflectionClass(Puppy).getDeclaringClass('missing'), null);
+    });
+
+    it('getOverriddenMethods should list instance and static overrides', () => {
+      const dogOverrides = reflectDogClass.getOverriddenMethods();
+      assert.deepStrictEqual(dogOverrides.map((method) => method.getName()), ['eat']);
+      assert.strictEqual(dogOverrides[0].getDeclaringClass(), Dog);
+      assert.strictEqual(dogOverrides[0].isStatic(), false);
+
+      const puppyOverrides = new ReflectionClass(new Puppy('Bit', 'Pug')).getOverriddenMethods();
+      assert.deepStrictEqual(
+        puppyOverrides.map((method) => [method.getName(), method.isStatic()]),
+        [['eat', false], ['toString', false], ['staticDogMethod', true]]
+      );
+      assert.deepStrictEqual(reflectAnimalClass.getOverriddenMethods(), []);
+    });
+
+    it('should handle classes extending null', () => {
+      class Detached extends null {
+        describe(): string { return 'detached'; }
+      }
+      const reflectDetached = new ReflectionClass(Detached);
+      assert.strictEqual(reflectDetached.getParentClass(), null);
+      assert.strictEqual(reflectDetached.getParentClassName(), null);
+      assert.deepStrictEqual(reflectDetached.getAncestors(), []);
+      assert.strictEqual(reflectDetached.isSubclassOf(Object), false);
+      assert.deepStrictEqual(reflectDetached.getOverriddenMethods(), []);
+      const instance = Object.create(Detached.prototype);
+      assert.deepStrictEqual(new ReflectionClass(instance).getMethods(), ['describe']);
+    });
+
+    it('should handle objects created with Object.create(null)', () => {
+      const bare = Object.create(null);
+      bare.run = () => 'ran';
+      bare.value = 1;
+      const reflectBare = new ReflectionClass(bare);
+      assert.strictEqual(reflectBare.getName(), '[Anonymous]');
+      assert.strictEqual(reflectBare.getConstructor(), null);
+      assert.strictEqual(reflectBare.getPrototype(), null);
+      assert.strictEqual(reflectBare.getParentClass(), null);
+      assert.deepStrictEqual(reflectBare.getAncestors(), []);
+      assert.deepStrictEqual(reflectBare.getMethods(), ['run']);
+      assert.ok(reflectBare.hasMethod('run'));
+      assert.strictEqual(reflectBare.getMethod('run')!.getDeclaringClass(), null);
+      assert.strictEqual(reflectBare.getDeclaringClass('value'), null);
+      assert.strictEqual(reflectBare.toString(), 'ReflectionClass for [Object: [Anonymous]]');
+    });
   });
 
   describe('Properties', () => {
@@ -200,6 +294,80 @@ describe('ReflectionClass', () => {
     });
   });
 
+  describe('Symbol-keyed Members', () => {
+    const reflectStream = new ReflectionClass(new Stream());
+
+    it('listing methods should exclude symbols by default', () => {
+      assert.deepStrictEqual(reflectStream.getMethods(), []);
+      assert.deepStrictEqual(reflectStream.getOwnProperties(), ['items']);
+    });
+
+    it('getMethods should list symbol-keyed methods after names when requested', () => {
+      const reflectCollection = new ReflectionClass(new Collection());
+      assert.deepStrictEqual(reflectCollection.getMethods({ includeSymbols: true }), [serialize, Symbol.iterator]);
+    });
+
+    it('getOwnMethods should include symbols declared on the direct prototype', () => {
+      assert.deepStrictEqual(
+        reflectStream.getOwnMethods({ includeSymbols: true }),
+        [Symbol.asyncIterator, Symbol.dispose, Symbol.asyncDispose]
+      );
+    });
+
+    it('getProperties should include symbol-keyed accessors when requested', () => {
+      const props = reflectStream.getProperties({ includeSymbols: true });
+      assert.ok(props.includes(Symbol.toStringTag));
+      assert.ok(props.includes('items'));
+    });
+
+    it('static listings should include symbol-keyed static methods', () => {
+      assert.deepStrictEqual(new ReflectionClass(Stream).getMethods({ includeSymbols: true }), [Symbol.hasInstance]);
+    });
+
+    it('has* methods should accept symbols', () => {
+      assert.ok(reflectStream.hasMethod(serialize));
+      assert.ok(reflectStream.hasOwnMethod(Symbol.dispose));
+      assert.strictEqual(reflectStream.hasOwnMethod(serialize), false);
+      assert.ok(reflectStream.hasProperty(Symbol.toStringTag));
+      assert.strictEqual(reflectStream.hasMethod(Symbol.toStringTag), false);
+      assert.strictEqual(reflectStream.hasOwnProperty(Symbol.iterator), false);
+    });
+
+    it('getMethod and getProperty should accept symbols', () => {
+      const method = reflectStream.getMethod(Symbol.iterator)!;
+      assert.strictEqual(method.getName(), Symbol.iterator);
+      assert.strictEqual(method.getDeclaringClass(), Collection);
+      assert.strictEqual(method.getKind(), 'generator');
+      assert.strictEqual(method.toString(), 'ReflectionMethod for [Collection.[Symbol.iterator]]');
+      assert.ok(reflectStream.getProperty(Symbol.toStringTag)!.isAccessor());
+    });
+
+    it('object listings should accept the same options', () => {
+      const names = reflectStream.getMethodObjects({ includeSymbols: true }).map((method) => method.getName());
+      // Symbols keep discovery order: the nearest prototype first
+      assert.deepStrictEqual(names, [Symbol.asyncIterator, Symbol.dispose, Symbol.asyncDispose, serialize, Symbol.iterator]);
+    });
+
+    it('protocol helpers should check what instances implement', () => {
+      assert.ok(reflectStream.isIterable());
+      assert.ok(reflectStream.isAsyncIterable());
+      assert.ok(reflectStream.isDisposable());
+      assert.ok(reflectStream.isAsyncDisposable());
+      const reflectCollectionClass = new ReflectionClass(Collection);
+      assert.ok(reflectCollectionClass.isIterable());
+      assert.strictEqual(reflectCollectionClass.isAsyncIterable(), false);
+      assert.strictEqual(reflectCollectionClass.isDisposable(), false);
+      assert.ok(reflectCollectionClass.implementsProtocol(serialize));
+      assert.strictEqual(new ReflectionClass(Dog).isIterable(), false);
+    });
+
+    it('protocol helpers should see built-in protocols', () => {
+      assert.ok(new ReflectionClass([1, 2]).isIterable());
+      assert.ok(new ReflectionClass(Map).isIterable());
+      assert.ok(new ReflectionClass(new Date()).implementsProtocol(Symbol.toPrimitive));
+    });
+  });
+
   describe('Instantiation and Type Checking', () => {
     const reflectDogClass = new ReflectionClass(Dog);
     const reflectMyDogInstance = new ReflectionClass(myDog);
@@ -210,7 +378,7 @@ describe('ReflectionClass', () => {
     });
 
     it('newInstance should create an instance of the class', () => {
-      const newDog = reflectDogClass.newInstance('Rex', 'German Shepherd') as Dog;
+      const newDog: Dog = reflectDogClass.newInstance('Rex', 'German Shepherd');
       assert.ok(newDog instanceof Dog);
       assert.strictEqual(newDog.name, 'Rex');
       assert.strictEqual(newDog.breed, 'German Shepherd');
@@ -220,10 +388,90 @@ describe('ReflectionClass', () => {
       assert.strictEqual(reflectMyDogInstance.newInstance('Test'), null);
     });
 
-    it('newInstance should throw TypeError for non-constructor functions (like arrow functions)', () => {
+    it('newInstance should throw NotInstantiableError for non-constructor functions (like arrow functions)', () => {
       const reflectArrow = new ReflectionClass(arrowFunc);
-      assert.ok(reflectArrow.isInstantiable()); // Arrow functions are typeof 'function'
-      assert.throws(() => reflectArrow.newInstance(), TypeError, "arrowFunc is not a constructor or cannot be instantiated: (intermediate value) is not a constructor");
+      assert.strictEqual(reflectArrow.isInstantiable(), false);
+      assert.throws(() => reflectArrow.newInstance(), TypeError);
+      assert.throws(() => reflectArrow.newInstance(), {
+        name: 'NotInstantiableError',
+        code: 'ERR_NOT_INSTANTIABLE',
+        target: 'arrowFunc',
+        message: 'arrowFunc is not instantiable: arrow functions cannot be called with new.',
+      });
+    });
+
+    it('newInstance should let errors thrown by the constructor propagate', () => {
+      class Failing {
+        constructor() { throw new RangeError('nope'); }
+      }
+      assert.throws(() => new ReflectionClass(Failing).newInstance(), RangeError);
+    });
+
+    it('isInstantiable should accept ES5 constructors and reject methods', () => {
+      function Legacy(this: any) { this.legacy = true; }
+      assert.strictEqual(new ReflectionClass(Legacy).isInstantiable(), true);
+      assert.strictEqual((new ReflectionClass(Legacy).newInstance() as any).legacy, true);
+      assert.strictEqual(new ReflectionClass(Dog.prototype.bark).isInstantiable(), false);
+      assert.strictEqual(new ReflectionClass(async function load() { }).isInstantiable(), false);
+      assert.strictEqual(reflectMyDogInstance.isInstantiable(), false);
+      assert.strictEqual(reflectDogClass.getFunction()?.getKind(), 'class');
+      assert.strictEqual(reflectMyDogInstance.getFunction(), null);
+    });
+
+    it('newInstance should type arguments from the constructor', () => {
+      // @ts-expect-error breed is required
+      assert.strictEqual(reflectDogClass.newInstance('Rex').breed, undefined);
+    });
+
+    it('getConstructorParameters should use the nearest declared constructor', () => {
+      class Puppy extends Dog { }
+      assert.deepStrictEqual(reflectDogClass.getConstructorParameters().map((parameter) => parameter.getName()), ['name', 'breed']);
+      assert.deepStrictEqual(new ReflectionClass(Puppy).getConstructorParameters().map((parameter) => parameter.getName()), ['name', 'breed']);
+      assert.deepStrictEqual(new ReflectionClass(NoConstructor).getConstructorParameters(), []);
+    });
+
+    it('getConstructorParameters should ignore constructor calls in field initializers', () => {
+      class Computed {
+        static y = Object.constructor('return 1');
+        z = this.constructor ();
+      }
+      assert.deepStrictEqual(new ReflectionClass(Computed).getConstructorParameters(), []);
+    });
+
+    it('newInstanceWithoutConstructor should allocate an instance without running the constructor', () => {
+      const dog: Dog = reflectDogClass.newInstanceWithoutConstructor();
+      assert.ok(dog instanceof Dog);
+      assert.deepStrictEqual(Object.keys(dog), []);
+      assert.strictEqual(reflectMyDogInstance.newInstanceWithoutConstructor(), null);
+      assert.throws(() => new ReflectionClass(arrowFunc).newInstanceWithoutConstructor(), /arrowFunc is not instantiable/);
+    });
+
+    it('newInstanceArgs should map named arguments onto constructor parameters', () => {
+      class Order {
+        args: unknown[];
+        constructor(id: string, status = 'open', ...tags: string[]) {
+          this.args = [id, status, ...tags];
+        }
+      }
+      const reflectOrder = new ReflectionClass(Order);
+      const order: Order = reflectOrder.newInstanceArgs({ tags: ['a', 'b'], id: '1' });
+      assert.deepStrictEqual(order.args, ['1', 'open', 'a', 'b']);
+      assert.deepStrictEqual(reflectDogClass.newInstanceArgs({ breed: 'Beagle', name: 'Rex' }).breed, 'Beagle');
+      assert.deepStrictEqual(reflectOrder.newInstanceArgs({ status: 'closed' }).args, [undefined, 'closed']);
+      assert.throws(() => reflectOrder.newInstanceArgs({ id: '1', total: 5 }), /Order has no constructor parameter named "total"\./);
+      assert.throws(() => reflectOrder.newInstanceArgs({ id: '1', tags: 'a' }), TypeError);
+      assert.strictEqual(reflectMyDogInstance.newInstanceArgs({ name: 'Rex' }), null);
+    });
+
+    it('newInstanceArgs should not pass trailing arguments that were not given', () => {
+      class Counter {
+        count: number;
+        constructor(start?: number, step = 1) {
+          this.count = arguments.length;
+        }
+      }
+      assert.strictEqual(new ReflectionClass(Counter).newInstanceArgs({}).count, 0);
+      assert.strictEqual(new ReflectionClass(Counter).newInstanceArgs({ step: 2 }).count, 2);
     });
 
     it('isInstanceCheck should correctly check instance type', () => {
@@ -239,6 +487,38 @@ describe('ReflectionClass', () => {
     });
   });
 
+  describe('Declared Members', () => {
+    class Session {
+      static #count = 0;
+      #id = Session.#count;
+      static {
+        Session.#count++;
+      }
+      get #label(): string { return `session-${this.#id}`; }
+      describe(): string { return this.#label; }
+    }
+
+    it('getPrivateMembers should list private names parsed from the class source', () => {
+      assert.deepStrictEqual(new ReflectionClass(Session).getPrivateMembers(), [
+        { name: '#count', kind: 'field', isStatic: true, isPrivate: true },
+        { name: '#id', kind: 'field', isStatic: false, isPrivate: true },
+        { name: '#label', kind: 'getter', isStatic: false, isPrivate: true },
+      ]);
+      assert.deepStrictEqual(new ReflectionClass(new Session()).getPrivateMembers().length, 3);
+    });
+
+    it('getStaticBlocks should return the source of static blocks', () => {
+      assert.deepStrictEqual(new ReflectionClass(Session).getStaticBlocks(), ['Session.#count++;']);
+      assert.deepStrictEqual(new ReflectionClass(Dog).getStaticBlocks(), []);
+    });
+
+    it('getAutoAccessors should be empty without accessor fields or source', () => {
+      assert.deepStrictEqual(new ReflectionClass(Session).getAutoAccessors(), []);
+      assert.deepStrictEqual(new ReflectionClass(Map).getPrivateMembers(), []);
+      assert.deepStrictEqual(new ReflectionClass(Object.create(null)).getStaticBlocks(), []);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should reflect on an object literal', () => {
       const reflectObj = new ReflectionClass(objLiteral);
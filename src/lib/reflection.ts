@@ -1,3 +1,122 @@
+import { ReflectionFunction } from "./reflection-function.ts";
+import { ReflectionMethod } from "./reflection-method.ts";
+import { ReflectionParameter } from "./reflection-parameter.ts";
+import { ReflectionProperty } from "./reflection-property.ts";
+import type { Contract, ContractResult } from "./contract.ts";
+import {
+  ClassNotFoundError,
+  InvalidArgumentError,
+  InvalidTargetError,
+  MemberNotFoundError,
+  NotAClassError,
+  NotInstantiableError,
+  ReflectionError,
+} from "./errors.ts";
+import {
+  exactMethodNames,
+  Interceptor,
+  matchesSelector,
+  type InterceptorHooks,
+  type MethodSelector,
+} from "./interceptor.ts";
+import * as metadata from "./metadata.ts";
+import {
+  formatKey,
+  isBuiltinFunctionProperty,
+  ownKeys,
+  sortKeys,
+  toMemberKey,
+  type MemberKey,
+  type MemberListOptions,
+} from "./keys.ts";
+import { SCHEMA_VERSION, sortMemberSchemas, type ClassSchema, type MethodSchema, type PropertySchema } from "./schema.ts";
+import { getBrandCheck } from "./brand.ts";
+import { getOwnTraits } from "./traits.ts";
+import { findClass, getClassId, isBuiltinPrototype, isModuleNamespace, type InstanceCheckMode } from "./identity.ts";
+import { MemberQuery, type ReflectionMember } from "./member-query.ts";
+import {
+  ClassWatcher,
+  compareSnapshots,
+  takeSnapshot,
+  type ClassSnapshot,
+  type MutationEvent,
+  type SnapshotChange,
+} from "./snapshot.ts";
+import {
+  PropertyGuard,
+  propertyTypesOf,
+  validateInstance,
+  ValidationError,
+  type PropertyType,
+  type ValidationIssue,
+} from "./validation.ts";
+import {
+  dataValue,
+  inspectChain,
+  ownDescriptor,
+  prototypeOf,
+  readTargetProperty,
+  safeConstructorOf,
+  unwrapProxy,
+  type InspectionIssue,
+} from "./inspection.ts";
+import { getMemberIndex, invalidate as invalidateMembers, isChainEnd, type MemberIndex } from "./member-cache.ts";
+import {
+  declaresConstructor,
+  parseClassBody,
+  parseParameters,
+  type ParsedClassBody,
+  type ParsedClassMember,
+} from "./source.ts";
+
+/**
+ * The constructor arguments of a reflected class; `any[]` when the target is not a constructor type.
+ */
+export type ConstructorArgs<T> = T extends abstract new (...args: infer A) => any ? A : any[];
+
+/**
+ * The instance type of a reflected class; `object | null` when the target is not a constructor type.
+ */
+export type InstanceOf<T> = T extends abstract new (...args: any) => infer R ? R : object | null;
+
+/**
+ * Checks if an own property of an object holds a method.
+ * Reads the property descriptor only, so getters are never invoked.
+ * @param {object} holder - The object owning the property.
+ * @param {PropertyKey} name - The property key.
+ * @returns {boolean} True if the property is a data property holding a function.
+ */
+function isOwnMethod(holder: object, name: PropertyKey): boolean {
+  return typeof ownDescriptor(holder, name)?.value === 'function';
+}
+
+/**
+ * @interface ReflectionOptions
+ * @description Options accepted by the ReflectionClass constructor.
+ */
+export interface ReflectionOptions {
+  /**
+   * Reuse the members found on the class and prototype chain across calls and across reflections of the
+   * same class, instead of walking the chain every time. Call `ReflectionClass.invalidate()` after changing
+   * a class at runtime. Defaults to false.
+   */
+  cache?: boolean;
+  /**
+   * Throw instead of returning null or false: `getMethod()`, `getProperty()` and `getDeclaringClass()` throw a
+   * `MemberNotFoundError` for missing members, as do `hasMethod()`, `hasOwnMethod()`, `hasProperty()` and
+   * `hasOwnProperty()`; `getFunction()` and the `newInstance*()` methods throw a `NotAClassError` when an
+   * instance is reflected. Defaults to false.
+   */
+  strict?: boolean;
+  /**
+   * Never run user code while inspecting: the constructor, prototype and name are read from descriptors,
+   * `hasProperty()` walks descriptors instead of using `in`, and proxies created with `createProxy()` or
+   * registered with `registerProxy()` are inspected through their target without running their traps.
+   * Other proxies cannot be detected and still run their traps. Disables `cache`. Defaults to false.
+   */
+  safe?: boolean;
+}
+
 /**
  * @class ReflectionClass
  * @description A class to provide reflection-like capabilities for JavaScript objects and classes, now with TypeScript.
@@ -12,12 +131,13 @@ export class ReflectionClass<T extends object | Function> {
   private _target: T;
 
   /**
-   * @type {Function}
+   * @type {Function|null}
    * @private
    * The constructor function. If target is an instance, this is target.constructor.
    * If target is a class constructor, this is target.
+   * Null for instances without a constructor, e.g. `Object.create(null)`.
    */
-  private _constructorFn: Function;
+  private _constructorFn: Function | null;
 
   /**
    * @type {object|null}
@@ -26,25 +146,109 @@ export class ReflectionClass<T extends object | Function> {
    */
   private _prototype: object | null;
 
+  /**
+   * @type {boolean}
+   * @private
+   * Whether member lookups use the shared member cache.
+   */
+  private _cache: boolean;
+
+  /**
+   * @type {boolean}
+   * @private
+   * Whether lookups throw instead of returning null or false.
+   */
+  private _strict: boolean;
+
+  /**
+   * @type {boolean}
+   * @private
+   * Whether inspection avoids running accessors and the traps of known proxies.
+   */
+  private _safe: boolean;
+
+  /**
+   * @type {object}
+   * @private
+   * The object whose members are inspected: the target, or in safe mode the object behind a known proxy.
+   */
+  private _subject: object;
+
+  /**
+   * @type {InspectionIssue[]}
+   * @private
+   * What could not be read while creating the reflection, e.g. the constructor of a revoked Proxy.
+   */
+  private _issues: InspectionIssue[] = [];
+
   /**
    * Creates an instance of ReflectionClass.
    * @param {T} target - The class constructor or object instance to reflect upon.
-   * @throws {TypeError} If the target is not a function or an object.
+   * @param {ReflectionOptions} [options] - Reflection options, e.g. `{ cache: true }` for hot paths.
+   * @throws {InvalidTargetError} If the target is not a function or an object, or is a module namespace.
    */
-  constructor(target: T) {
-    if (typeof target !== 'function' && typeof target !== 'object') {
-      throw new TypeError(
+  constructor(target: T, options: ReflectionOptions = {}) {
+    if (target === null || (typeof target !== 'function' && typeof target !== 'object')) {
+      throw new InvalidTargetError(
         'Target must be a class constructor or an object instance.'
       );
     }
+    if (isModuleNamespace(options.safe === true ? unwrapProxy(target) : target)) {
+      throw new InvalidTargetError('Target is a module namespace: reflect it with ReflectionModule.');
+    }
 
     this._target = target;
-    this._constructorFn =
-      typeof target === 'function' ? target : (target as any).constructor;
-    this._prototype =
-      typeof target === 'function'
-        ? (target as any).prototype
-        : Object.getPrototypeOf(target);
+    this._safe = options.safe === true;
+    this._subject = this._safe ? unwrapProxy(target) : target;
+    const constructorFn = typeof target === 'function'
+      ? this._subject
+      : this._safe ? safeConstructorOf(target) : this._read(target, 'constructor');
+    this._constructorFn = typeof constructorFn === 'function' ? constructorFn : null;
+    if (typeof target !== 'function') {
+      this._prototype = prototypeOf(target, this._safe);
+    } else {
+      const prototype = this._safe ? dataValue(this._subject, 'prototype') : this._read(target, 'prototype');
+      this._prototype = this._safe && prototype ? unwrapProxy(prototype as object) : (prototype ?? null) as object | null;
+    }
+    this._cache = options.cache === true && !this._safe;
+    this._strict = options.strict === true;
+  }
+
+  /**
+   * Reads the `constructor` or `prototype` of the target, recording an inspection issue instead of
+   * throwing if the read fails (e.g. because the target is a revoked Proxy).
+   * @param {object} target - The target.
+   * @param {string} key - The property to read.
+   * @returns {unknown} The value, or undefined if it cannot be read.
+   * @private
+   */
+  private _read(target: object, key: 'constructor' | 'prototype'): unknown {
+    const [value, issue] = readTargetProperty(target, key);
+    if (issue) this._issues.push(issue);
+    return value;
+  }
+
+  /**
+   * Reflects a class registered with `registerClass()`.
+   * @param {string} id - The class ID.
+   * @returns {ReflectionClass<Function>} The reflection of the class.
+   * @throws {ClassNotFoundError} If no class is registered under the ID.
+   */
+  static forName(id: string): ReflectionClass<Function> {
+    const type = findClass(id);
+    if (!type) {
+      throw new ClassNotFoundError(`No class is registered as "${id}".`, { target: id });
+    }
+    return new ReflectionClass(type);
+  }
+
+  /**
+   * Drops cached members of a class (static and instance side) or object, so reflections created with
+   * `{ cache: true }` see members added, removed or redefined at runtime. Subclasses are refreshed as well.
+   * @param {object} [target] - The class or object that changed; clears the whole cache if omitted.
+   */
+  static invalidate(target?: object): void {
+    invalidateMembers(target);
   }
 
   /**
@@ -52,14 +256,15 @@ export class ReflectionClass<T extends object | Function> {
    * @returns {string} The name of the class.
    */
   getName(): string {
-    return (this._constructorFn as any).name || '[Anonymous]';
+    const name: any = this._safe ? dataValue(this._constructorFn, 'name') : (this._constructorFn as any)?.name;
+    return name || '[Anonymous]';
   }
 
   /**
    * Gets the constructor function of the reflected class/object.
-   * @returns {Function} The constructor function.
+   * @returns {Function|null} The constructor function, or null for objects without one (e.g. `Object.create(null)`).
    */
-  getConstructor(): Function {
+  getConstructor(): Function | null {
     return this._constructorFn;
   }
 
@@ -76,9 +281,87 @@ export class ReflectionClass<T extends object | Function> {
    * @returns {Function|null} The parent class constructor or null if no parent.
    */
   getParentClass(): Function | null {
-    if (!this._prototype) return null;
-    const parentPrototype = Object.getPrototypeOf(this._prototype);
-    return parentPrototype ? parentPrototype.constructor : null;
+    return this.getAncestors()[0] ?? null;
+  }
+
+  /**
+   * Gets all ancestor classes, from the parent class up to the root of the chain.
+   * Prototypes without an own `constructor` (e.g. plain `Object.create(proto)` links) are skipped.
+   * Classes extending `null` and objects created with `Object.create(null)` have no ancestors.
+   * @returns {Function[]} The ancestor constructors, nearest first.
+   */
+  getAncestors(): Function[] {
+    const ancestors: Function[] = [];
+    if (!this._prototype) return ancestors;
+    let current: any = prototypeOf(this._prototype, this._safe);
+    while (current) {
+      const descriptor = ownDescriptor(current, 'constructor');
+      if (
+        descriptor &&
+        typeof descriptor.value === 'function' &&
+        descriptor.value !== this._constructorFn &&
+        !ancestors.includes(descriptor.value)
+      ) {
+        ancestors.push(descriptor.value);
+      }
+      current = prototypeOf(current, this._safe);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Checks if the reflected class is a subclass of another class.
+   * A class is not considered a subclass of itself.
+   * @param {Function|string} parent - The parent class, or its name.
+   * @returns {boolean} True if parent is one of the ancestors.
+   */
+  isSubclassOf(parent: Function | string): boolean {
+    return this.getAncestors().some((ancestor) =>
+      typeof parent === 'string' ? ancestor.name === parent : ancestor === parent
+    );
+  }
+
+  /**
+   * Gets the class declaring a member, i.e. the nearest class in the chain that defines it.
+   * Follows the reflection mode: the static chain for classes, the instance and prototype chain for instances.
+   * @param {PropertyKey} name - The name or symbol of the member.
+   * @returns {Function|null} The declaring class, or null if the member does not exist.
+   * @throws {MemberNotFoundError} In strict mode, if the member does not exist.
+   */
+  getDeclaringClass(name: PropertyKey): Function | null {
+    return this._found(this._findProperty(name), 'member', name)?.getDeclaringClass() ?? null;
+  }
+
+  /**
+   * Gets the methods the class redefines from one of its ancestors.
+   * Covers both instance methods (declared on the prototype) and static methods,
+   * whether a class or an instance is reflected; overrides of built-ins such as `toString` are included.
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {ReflectionMethod[]} The overriding methods, instance methods first.
+   */
+  getOverriddenMethods(options: MemberListOptions = {}): ReflectionMethod[] {
+    const constructorFn = this._constructorFn;
+    if (!constructorFn) return [];
+    const overrides: ReflectionMethod[] = [];
+    const holders: [object | null, boolean][] = [
+      [this._prototype, false],
+      [constructorFn, true],
+    ];
+    for (const [holder, isStatic] of holders) {
+      if (!holder) continue;
+      for (const name of sortKeys(ownKeys(holder, options.includeSymbols === true))) {
+        if (name === 'constructor' || !isOwnMethod(holder, name)) continue;
+        let ancestor: any = prototypeOf(holder, this._safe);
+        while (ancestor && !isOwnMethod(ancestor, name)) {
+          ancestor = prototypeOf(ancestor, this._safe);
+        }
+        if (ancestor) {
+          const descriptor = ownDescriptor(holder, name)!;
+          overrides.push(new ReflectionMethod(constructorFn, name, descriptor.value, isStatic));
+        }
+      }
+    }
+    return overrides;
   }
 
   /**
@@ -109,162 +392,376 @@ export class ReflectionClass<T extends object | Function> {
   /**
    * Gets own properties of the class (static properties) or instance.
    * Does not include properties from the prototype chain.
-   * @returns {string[]} An array of own property names.
+   * For other selections, e.g. properties of both sides or of a given ancestor, use `members()`.
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {MemberKey[]} An array of own property names.
    */
-  getOwnProperties(): string[] {
-    return Object.getOwnPropertyNames(this._target);
+  getOwnProperties(options?: { includeSymbols?: false }): string[];
+  getOwnProperties(options: MemberListOptions): MemberKey[];
+  getOwnProperties(options: MemberListOptions = {}): MemberKey[] {
+    return ownKeys(this._subject, options.includeSymbols === true);
   }
 
   /**
    * Gets all properties of the class (static properties) or instance, including inherited ones.
-   * @returns {string[]} An array of all property names.
+   * For other selections, e.g. fields without methods or inherited properties only, use `members()`.
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {MemberKey[]} An array of all property names.
    */
-  getProperties(): string[] {
-    const props = new Set<string>();
-    let current: any = this._target;
+  getProperties(options?: { includeSymbols?: false }): string[];
+  getProperties(options: MemberListOptions): MemberKey[];
+  getProperties(options: MemberListOptions = {}): MemberKey[] {
+    const index = this._memberIndex();
+    if (index) {
+      const includeSymbols = options.includeSymbols === true;
+      const keys = includeSymbols ? index.keys : index.names;
+      const own = this.isInstance() ? ownKeys(this._subject, includeSymbols) : [];
+      return own.length > 0 ? Array.from(new Set([...own, ...keys])) : keys.slice();
+    }
+    const props = new Set<MemberKey>();
+    let current: any = this._subject;
     // For instances, we iterate up the prototype chain from the instance itself
     // For classes (constructors), we iterate up the prototype chain from the constructor itself (for static inherited props)
-    while (
-      current !== null &&
-      current !== Object.prototype &&
-      current !== Function.prototype
-    ) {
-      Object.getOwnPropertyNames(current).forEach((prop) => props.add(prop));
-      current = Object.getPrototypeOf(current);
+    while (!isChainEnd(current)) {
+      ownKeys(current, options.includeSymbols === true).forEach((prop) => props.add(prop));
+      current = prototypeOf(current, this._safe);
     }
     return Array.from(props);
   }
 
+  /**
+   * Gets a reflected property by name, resolved the same way a property read would resolve it:
+   * own properties first, then up the prototype chain (or the static chain for classes).
+   * Only descriptors are inspected, so getters are never invoked.
+   * @param {PropertyKey} name - The name or symbol of the property.
+   * @returns {ReflectionProperty|null} The reflected property, or null if it does not exist.
+   * @throws {MemberNotFoundError} In strict mode, if the property does not exist.
+   */
+  getProperty(name: PropertyKey): ReflectionProperty | null {
+    return this._found(this._findProperty(name), 'property', name);
+  }
+
+  /**
+   * Looks up a property the way `getProperty()` does, without the strict mode check.
+   * @param {PropertyKey} name - The name or symbol of the property.
+   * @returns {ReflectionProperty|null} The reflected property, or null if it does not exist.
+   * @private
+   */
+  private _findProperty(name: PropertyKey): ReflectionProperty | null {
+    const key = toMemberKey(name);
+    const index = this._memberIndex();
+    if (index) {
+      const own = this.isInstance() ? ownDescriptor(this._subject, key) : undefined;
+      if (own) return new ReflectionProperty(this._constructorFn, key, own, false);
+      const member = index.members.get(key);
+      return member
+        ? new ReflectionProperty(this._declaringClassOf(member.holder), key, member.descriptor, this.isClass())
+        : null;
+    }
+    let current: any = this._subject;
+    while (!isChainEnd(current)) {
+      const descriptor = ownDescriptor(current, key);
+      if (descriptor) {
+        const declaringClass = current === this._subject && this.isInstance()
+          ? this._constructorFn
+          : this._declaringClassOf(current);
+        return new ReflectionProperty(declaringClass, key, descriptor, this.isClass());
+      }
+      current = prototypeOf(current, this._safe);
+    }
+    return null;
+  }
+
+  /**
+   * Gets own properties as ReflectionProperty objects.
+   * Covers the same members as getOwnProperties().
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {ReflectionProperty[]} An array of reflected own properties.
+   */
+  getOwnPropertyObjects(options: MemberListOptions = {}): ReflectionProperty[] {
+    return this.getOwnProperties(options)
+      .map((name) => this._findProperty(name))
+      .filter((property): property is ReflectionProperty => property !== null);
+  }
+
+  /**
+   * Gets all properties as ReflectionProperty objects, including inherited ones.
+   * Each name returned by getProperties() is resolved through getProperty(),
+   * so accessors declared on a prototype are reported as accessors of their declaring class.
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {ReflectionProperty[]} An array of reflected properties.
+   */
+  getPropertyObjects(options: MemberListOptions = {}): ReflectionProperty[] {
+    return this.getProperties(options)
+      .map((name) => this._findProperty(name))
+      .filter((property): property is ReflectionProperty => property !== null);
+  }
+
   /**
    * Gets own methods of the class (static methods) or instance.
    * For instances, it gets methods directly defined on the instance's prototype.
    * For classes, it gets static methods defined directly on the class.
-   * @returns {string[]} An array of own method names.
+   * For other selections, e.g. own instance methods of a class, use `members()`.
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {MemberKey[]} An array of own method names.
    */
-  getOwnMethods(): string[] {
-    const target = this.isClass() ? this._target : this._prototype;
+  getOwnMethods(options?: { includeSymbols?: false }): string[];
+  getOwnMethods(options: MemberListOptions): MemberKey[];
+  getOwnMethods(options: MemberListOptions = {}): MemberKey[] {
+    const target = this.isClass() ? this._subject : this._prototype;
     if (!target) return [];
-    return Object.getOwnPropertyNames(target).filter((prop) => {
-      try {
-        return typeof (target as any)[prop] === 'function' && prop !== 'constructor';
-      } catch (e) {
-        // Property access might be restricted
-        return false;
-      }
-    });
+    return ownKeys(target, options.includeSymbols === true).filter(
+      (prop) => prop !== 'constructor' && isOwnMethod(target, prop)
+    );
   }
 
   /**
      * Gets all methods of the class or instance, including inherited ones.
      * For instances, this includes methods from its prototype chain and own instance methods.
      * For classes, this includes static methods from its prototype chain (inheritance via extends).
-     * @returns {string[]} An array of all method names.
+     * Names are sorted; symbol-keyed methods follow the names when included.
+     * For other selections, e.g. inherited static methods only, use `members()`.
+     * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+     * @returns {MemberKey[]} An array of all method names.
      */
-  getMethods(): string[] {
-    const methods = new Set<string>();
-    let currentProto: any = this.isClass() ? this._target : this._prototype; // Start with prototype for instances, or class itself for static
-
-    // Iterate prototype chain for instance methods (from prototype) or static methods (from class and its ancestors)
-    while (
-      currentProto &&
-      currentProto !== Object.prototype &&
-      currentProto !== Function.prototype
-    ) {
-      Object.getOwnPropertyNames(currentProto).forEach((prop) => {
-        if (prop !== 'constructor') {
-          try {
-            if (typeof currentProto[prop] === 'function') {
-              methods.add(prop);
-            }
-          } catch (e) {
-            // Access might be restricted
-            // console.error(`Error accessing property ${prop} on prototype:`, e);
+  getMethods(options?: { includeSymbols?: false }): string[];
+  getMethods(options: MemberListOptions): MemberKey[];
+  getMethods(options: MemberListOptions = {}): MemberKey[] {
+    const includeSymbols = options.includeSymbols === true;
+    const methods = new Set<MemberKey>();
+    const index = this._memberIndex();
+    if (index) {
+      const sorted = includeSymbols ? index.sortedMethods : index.sortedMethodNames;
+      if (!this.isInstance() || !ownKeys(this._subject, includeSymbols).some((key) => isOwnMethod(this._subject, key))) {
+        return sorted.slice();
+      }
+      sorted.forEach((prop) => methods.add(prop));
+    } else {
+      let currentProto: any = this.isClass() ? this._subject : this._prototype; // Start with prototype for instances, or class itself for static
+
+      // Iterate prototype chain for instance methods (from prototype) or static methods (from class and its ancestors)
+      while (!isChainEnd(currentProto)) {
+        ownKeys(currentProto, includeSymbols).forEach((prop) => {
+          if (prop !== 'constructor' && isOwnMethod(currentProto, prop)) {
+            methods.add(prop);
           }
-        }
-      });
-      currentProto = Object.getPrototypeOf(currentProto);
+        });
+        currentProto = prototypeOf(currentProto, this._safe);
+      }
     }
 
     // If reflecting an instance, also check for methods directly on the instance itself
     if (this.isInstance()) {
-      const instanceTarget = this._target as object; // Explicitly use the instance
-      const instanceKeys = Object.getOwnPropertyNames(instanceTarget);
+      const instanceTarget = this._subject; // Explicitly use the instance
+      const instanceKeys = ownKeys(instanceTarget, includeSymbols);
       for (const key of instanceKeys) {
-        try {
-          const value = (instanceTarget as any)[key];
-          if (typeof value === 'function') {
-            methods.add(key);
-          }
-        } catch (e) {
-          // This catch is for safety, though not expected to be hit for simple function properties
-          // console.error(`Error accessing property ${key} on instance:`, e);
+        if (isOwnMethod(instanceTarget, key)) {
+          methods.add(key);
         }
       }
     }
-    return Array.from(methods).sort();
+    return sortKeys(methods);
+  }
+  /**
+   * Gets a reflected method by name, resolved the same way a call would resolve it:
+   * own instance methods first, then up the prototype chain (or the static chain for classes).
+   * Accessors are not treated as methods and are never invoked.
+   * @param {PropertyKey} name - The name or symbol of the method.
+   * @returns {ReflectionMethod|null} The reflected method, or null if there is no such method.
+   * @throws {MemberNotFoundError} In strict mode, if there is no such method.
+   */
+  getMethod(name: PropertyKey): ReflectionMethod | null {
+    return this._found(this._findMethod(name), 'method', name);
+  }
+
+  /**
+   * Looks up a method the way `getMethod()` does, without the strict mode check.
+   * @param {PropertyKey} name - The name or symbol of the method.
+   * @returns {ReflectionMethod|null} The reflected method, or null if there is no such method.
+   * @private
+   */
+  private _findMethod(name: PropertyKey): ReflectionMethod | null {
+    const key = toMemberKey(name);
+    if (key === 'constructor') return null;
+    if (this.isInstance()) {
+      const own = ownDescriptor(this._subject, key);
+      if (own) {
+        return typeof own.value === 'function'
+          ? new ReflectionMethod(this._constructorFn, key, own.value, false)
+          : null;
+      }
+    }
+
+    const index = this._memberIndex();
+    if (index) {
+      const member = index.members.get(key);
+      return member && typeof member.descriptor.value === 'function'
+        ? new ReflectionMethod(this._declaringClassOf(member.holder), key, member.descriptor.value, this.isClass())
+        : null;
+    }
+
+    let current: any = this.isClass() ? this._subject : this._prototype;
+    while (!isChainEnd(current)) {
+      const descriptor = ownDescriptor(current, key);
+      if (descriptor) {
+        return typeof descriptor.value === 'function'
+          ? new ReflectionMethod(this._declaringClassOf(current), key, descriptor.value, this.isClass())
+          : null;
+      }
+      current = prototypeOf(current, this._safe);
+    }
+    return null;
   }
+
+  /**
+   * Gets own methods as ReflectionMethod objects.
+   * Covers the same members as getOwnMethods().
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {ReflectionMethod[]} An array of reflected own methods.
+   */
+  getOwnMethodObjects(options: MemberListOptions = {}): ReflectionMethod[] {
+    const target = this.isClass() ? this._subject : this._prototype;
+    if (!target) return [];
+    const declaringClass = this._declaringClassOf(target);
+    const methods: ReflectionMethod[] = [];
+    for (const name of ownKeys(target, options.includeSymbols === true)) {
+      const descriptor = ownDescriptor(target, name);
+      if (name !== 'constructor' && descriptor && typeof descriptor.value === 'function') {
+        methods.push(new ReflectionMethod(declaringClass, name, descriptor.value, this.isClass()));
+      }
+    }
+    return methods;
+  }
+
+  /**
+   * Gets all methods as ReflectionMethod objects, including inherited ones.
+   * Each name returned by getMethods() is resolved through getMethod().
+   * @param {MemberListOptions} [options] - Listing options, e.g. `{ includeSymbols: true }`.
+   * @returns {ReflectionMethod[]} An array of reflected methods, sorted by name.
+   */
+  getMethodObjects(options: MemberListOptions = {}): ReflectionMethod[] {
+    return this.getMethods(options)
+      .map((name) => this._findMethod(name))
+      .filter((method): method is ReflectionMethod => method !== null);
+  }
+
+  /**
+   * Lists what member lookups could not inspect along the reflected chain, with the reason: keys or descriptors
+   * that could not be read (e.g. because a Proxy trap threw), prototypes that could not be followed, and
+   * in safe mode the known proxies whose target was inspected instead. Lookups skip these members.
+   * A target whose `constructor` or `prototype` cannot be read (e.g. a revoked Proxy) is reflected without one.
+   * @returns {InspectionIssue[]} The issues, nearest first; empty if everything could be inspected.
+   */
+  getInspectionIssues(): InspectionIssue[] {
+    return [...this._issues, ...inspectChain(this._target, this._safe)];
+  }
+
+  /**
+   * Drops cached members of the reflected class and prototype; see `ReflectionClass.invalidate()`.
+   */
+  invalidate(): void {
+    if (this._constructorFn) invalidateMembers(this._constructorFn);
+    if (this._prototype) invalidateMembers(this._prototype);
+  }
+
+  /**
+   * Gets the cached members of the reflected chain: the static chain for classes, the prototype chain
+   * for instances. Own members of instances are never cached.
+   * @returns {MemberIndex|null} The member index, or null if caching is off or there is no chain.
+   * @private
+   */
+  private _memberIndex(): MemberIndex | null {
+    if (!this._cache) return null;
+    const start = this.isClass() ? this._subject : this._prototype;
+    return start ? getMemberIndex(start) : null;
+  }
+
+  /**
+   * Determines the class declaring members found on the given object in the chain.
+   * @param {object} holder - A constructor or prototype object from the reflected chain.
+   * @returns {Function|null} The declaring class constructor.
+   * @private
+   */
+  private _declaringClassOf(holder: object): Function | null {
+    if (typeof holder === 'function') return holder;
+    const descriptor = ownDescriptor(holder, 'constructor');
+    return descriptor && typeof descriptor.value === 'function'
+      ? descriptor.value
+      : this._constructorFn;
+  }
+
   /**
    * Checks if the class/object has a specific own property.
-   * @param {string} name - The name of the property.
+   * @param {PropertyKey} name - The name or symbol of the property.
    * @returns {boolean} True if the property exists as an own property.
+   * @throws {MemberNotFoundError} In strict mode, instead of returning false.
    */
-  hasOwnProperty(name: string): boolean {
-    return Object.prototype.hasOwnProperty.call(this._target, name);
+  hasOwnProperty(name: PropertyKey): boolean {
+    return this._found(Object.prototype.hasOwnProperty.call(this._subject, name), 'own property', name);
   }
 
   /**
    * Checks if the class/object has a specific property (including prototype chain).
-   * @param {string} name - The name of the property.
+   * In safe mode, descriptors are walked instead of using `in`, which runs the `has` trap of proxies.
+   * @param {PropertyKey} name - The name or symbol of the property.
    * @returns {boolean} True if the property exists.
+   * @throws {MemberNotFoundError} In strict mode, instead of returning false.
    */
-  hasProperty(name: string): boolean {
-    return name in this._target;
+  hasProperty(name: PropertyKey): boolean {
+    if (!this._safe) {
+      return this._found(name in this._target, 'property', name);
+    }
+    let current: object | null = this._subject;
+    while (current && !Object.prototype.hasOwnProperty.call(current, name)) {
+      current = prototypeOf(current, true);
+    }
+    return this._found(current !== null, 'property', name);
   }
 
   /**
    * Checks if the class/object has a specific own method.
    * For instances, checks methods on its prototype. For classes, checks static methods.
-   * @param {string} name - The name of the method.
+   * @param {PropertyKey} name - The name or symbol of the method.
    * @returns {boolean} True if the method exists as an own method.
+   * @throws {MemberNotFoundError} In strict mode, instead of returning false.
    */
-  hasOwnMethod(name: string): boolean {
-    const target = this.isClass() ? this._target : this._prototype;
-    if (!target) return false;
-    return (
-      Object.prototype.hasOwnProperty.call(target, name) &&
-      typeof (target as any)[name] === 'function'
-    );
+  hasOwnMethod(name: PropertyKey): boolean {
+    const target = this.isClass() ? this._subject : this._prototype;
+    return this._found(target !== null && isOwnMethod(target, name), 'own method', name);
   }
 
   /**
    * Checks if the class/object has a specific method (including prototype chain).
-   * @param {string} name - The name of the method.
+   * @param {PropertyKey} name - The name or symbol of the method.
    * @returns {boolean} True if the method exists.
+   * @throws {MemberNotFoundError} In strict mode, instead of returning false.
    */
-  hasMethod(name: string): boolean {
-    const initialTarget = this.isClass() ? this._target : this._prototype;
-    if (!initialTarget) return false;
+  hasMethod(name: PropertyKey): boolean {
+    return this._found(this._hasMethod(name), 'method', name);
+  }
 
-    let current: any = initialTarget;
-    while (
-      current &&
-      current !== Object.prototype &&
-      current !== Function.prototype
-    ) {
-      if (
-        Object.prototype.hasOwnProperty.call(current, name) &&
-        typeof current[name] === 'function'
-      ) {
+  /**
+   * Checks for a method the way `hasMethod()` does, without the strict mode check.
+   * @param {PropertyKey} name - The name or symbol of the method.
+   * @returns {boolean} True if the method exists.
+   * @private
+   */
+  private _hasMethod(name: PropertyKey): boolean {
+    const initialTarget = this.isClass() ? this._subject : this._prototype;
+    const index = this._memberIndex();
+    if (index?.methods.has(toMemberKey(name))) {
+      return true;
+    }
+
+    let current: any = index ? null : initialTarget;
+    while (!isChainEnd(current)) {
+      if (isOwnMethod(current, name)) {
         return true;
       }
-      current = Object.getPrototypeOf(current);
+      current = prototypeOf(current, this._safe);
     }
     // For instances, also check if the method is directly on the instance itself
-    if (
-      this.isInstance() &&
-      typeof (this._target as any)[name] === 'function' &&
-      Object.prototype.hasOwnProperty.call(this._target, name)
-    ) {
+    if (this.isInstance() && isOwnMethod(this._subject, name)) {
       return true;
     }
     // For classes, check static methods up the chain (already covered by initialTarget logic if _target is class)
@@ -275,55 +772,655 @@ export class ReflectionClass<T extends object | Function> {
   }
 
   /**
-   * Checks if the reflected target (class) is instantiable.
-   * @returns {boolean} True if the target is a function (and thus potentially a class constructor).
+   * Checks if instances implement a symbol-keyed protocol method, e.g. `Symbol.iterator`.
+   * For classes, the prototype chain is inspected (what instances would inherit);
+   * for instances, the instance itself and its whole prototype chain, including built-ins.
+   * @param {symbol} symbol - The protocol symbol.
+   * @returns {boolean} True if a method is defined for the symbol.
+   */
+  implementsProtocol(symbol: symbol): boolean {
+    let current: any = this.isClass() ? this._prototype : this._subject;
+    while (current) {
+      if (isOwnMethod(current, symbol)) {
+        return true;
+      }
+      current = prototypeOf(current, this._safe);
+    }
+    return false;
+  }
+
+  /**
+   * Checks if instances are iterable (implement `Symbol.iterator`).
+   * @returns {boolean} True if instances are iterable.
+   */
+  isIterable(): boolean {
+    return this.implementsProtocol(Symbol.iterator);
+  }
+
+  /**
+   * Checks if instances are async iterable (implement `Symbol.asyncIterator`).
+   * @returns {boolean} True if instances are async iterable.
+   */
+  isAsyncIterable(): boolean {
+    return this.implementsProtocol(Symbol.asyncIterator);
+  }
+
+  /**
+   * Checks if instances are disposable (implement `Symbol.dispose`).
+   * Returns false on runtimes without explicit resource management.
+   * @returns {boolean} True if instances are disposable.
+   */
+  isDisposable(): boolean {
+    return typeof Symbol.dispose === 'symbol' && this.implementsProtocol(Symbol.dispose);
+  }
+
+  /**
+   * Checks if instances are async disposable (implement `Symbol.asyncDispose`).
+   * Returns false on runtimes without explicit resource management.
+   * @returns {boolean} True if instances are async disposable.
+   */
+  isAsyncDisposable(): boolean {
+    return typeof Symbol.asyncDispose === 'symbol' && this.implementsProtocol(Symbol.asyncDispose);
+  }
+
+  /**
+   * Checks the reflected class or instance against a contract.
+   * @param {Contract} contract - The contract to check.
+   * @returns {ContractResult} The detailed result, listing missing and mismatched members.
+   */
+  implements(contract: Contract<any>): ContractResult {
+    return contract.check(this._target);
+  }
+
+  /**
+   * Asserts that the reflected class or instance satisfies a contract.
+   * @param {Contract} contract - The contract to check.
+   * @throws {ContractError} If the contract is not satisfied.
+   */
+  assertImplements(contract: Contract<any>): void {
+    contract.assert(this._target);
+  }
+
+  /**
+   * Gets the property types of instances of the reflected class, declared with the `Validate` decorator
+   * or in a static `schema` field, including those declared by parent classes.
+   * @returns {Map<string, PropertyType>} The property types, keyed by property name.
+   */
+  getPropertyTypes(): Map<string, PropertyType> {
+    return propertyTypesOf(this._constructorFn);
+  }
+
+  /**
+   * Validates an instance against the property types of the reflected class. Nested instances are
+   * validated against the property types of their own declared class.
+   * @param {unknown} instance - The value to validate.
+   * @returns {ValidationIssue[]} The invalid values with their paths, e.g. `['addresses', 0, 'city']`; empty if the instance is valid.
+   * @throws {InvalidArgumentError} If a property type is malformed.
+   */
+  validate(instance: unknown): ValidationIssue[] {
+    return this._constructorFn ? validateInstance(instance, this._constructorFn) : [];
+  }
+
+  /**
+   * Asserts that an instance matches the property types of the reflected class.
+   * @param {unknown} instance - The value to validate.
+   * @throws {ValidationError} If the instance is not valid, listing every invalid value.
+   */
+  assertValid(instance: unknown): void {
+    const issues = this.validate(instance);
+    if (issues.length > 0) {
+      throw new ValidationError(this.getName(), issues);
+    }
+  }
+
+  /**
+   * Makes assignments to the typed properties throw a `ValidationError` when the value is invalid.
+   * Reflecting an instance guards that instance only. Reflecting a class or prototype installs accessors on
+   * the prototype, which covers accessors and properties declared with `declare` but not class fields:
+   * they are own properties of each instance and shadow the accessors. Decorate the class with `Guarded`
+   * to guard its instances, fields included, as they are constructed.
+   * @returns {PropertyGuard} The installed guard; call `restore()` to stop the checks.
+   * @throws {InvalidTargetError} If the reflected class has no prototype.
+   * @throws {ReadOnlyMemberError} If a typed property cannot be redefined.
+   */
+  guard(): PropertyGuard {
+    const target = this.isClass() ? this._prototype : this._target;
+    if (!target) {
+      throw new InvalidTargetError(`Cannot guard ${this.getName()}: it has no prototype.`, { target: this.getName() });
+    }
+    return new PropertyGuard(target, this.getName(), this.getPropertyTypes());
+  }
+
+  /**
+   * Wraps the selected methods with hooks, e.g. for logging, timing or retries.
+   * Methods follow the reflection mode: reflecting a class intercepts its static methods,
+   * reflecting a prototype intercepts the instance methods of every instance,
+   * and reflecting an instance intercepts that instance only.
+   * @param {MethodSelector} selector - Method names or symbols, glob patterns over names, or a predicate.
+   * @param {InterceptorHooks} hooks - The hooks to run around each call.
+   * @returns {Interceptor} The installed interceptor; call `restore()` to remove it.
+   * @throws {MemberNotFoundError} If an exact method name does not resolve to a method.
+   * @throws {InvalidArgumentError} If a selected method is a generator.
+   * @throws {ReadOnlyMemberError} If a selected method cannot be redefined.
+   */
+  intercept(selector: MethodSelector, hooks: InterceptorHooks): Interceptor {
+    const names = exactMethodNames(selector);
+    let methods: ReflectionMethod[];
+    if (names) {
+      methods = names.map((name) => {
+        const method = this._findMethod(name);
+        if (!method) {
+          throw new MemberNotFoundError(`Cannot intercept ${this.getName()}.${formatKey(name)}: no such method.`, {
+            target: this.getName(),
+            member: toMemberKey(name),
+          });
+        }
+        return method;
+      });
+    } else {
+      methods = this.getMethodObjects({ includeSymbols: true })
+        .filter((method) => matchesSelector(selector, method));
+    }
+    return new Interceptor(this._target, this.getName(), methods, hooks);
+  }
+
+  /**
+   * Checks if the reflected target can be instantiated with `new`: classes, ES5 constructor functions
+   * and bound or native constructors. Arrow functions, methods, and async or generator functions cannot.
+   * @returns {boolean} True if the target is a constructor; false for instances.
    */
   isInstantiable(): this is ReflectionClass<new (...args: any[]) => any> {
-    // A more robust check might involve checking if it's a class declaration
-    // or a function that doesn't throw when called with 'new'.
-    // For simplicity, we consider any function instantiable.
-    // The type guard `this is ReflectionClass<new (...args: any[]) => any>` helps TypeScript understand.
-    return typeof this._target === 'function';
+    return typeof this._target === 'function' && new ReflectionFunction(this._target).isInstantiable();
+  }
+
+  /**
+   * Gets a `ReflectionFunction` classifying the reflected target (class, ES5 constructor, arrow function...).
+   * @returns {ReflectionFunction|null} The reflected function, or null when reflecting an instance.
+   * @throws {NotAClassError} In strict mode, when reflecting an instance.
+   */
+  getFunction(): ReflectionFunction | null {
+    if (typeof this._target === 'function') return new ReflectionFunction(this._target);
+    this._requireClass('getFunction()');
+    return null;
+  }
+
+  /**
+   * Gets the parameters of the constructor. Classes without an explicit constructor
+   * use the constructor of the nearest ancestor declaring one.
+   * @returns {ReflectionParameter[]} The constructor parameters, or an empty array if they cannot be determined.
+   */
+  getConstructorParameters(): ReflectionParameter[] {
+    let current: Function | null = this._constructorFn;
+    while (current && !declaresConstructor(current)) {
+      const parent = prototypeOf(current, this._safe);
+      current = typeof parent === 'function' && !isBuiltinPrototype(parent, 'Function') ? parent : null;
+    }
+    return current
+      ? parseParameters(current).map((parsed, position) => new ReflectionParameter(parsed, position))
+      : [];
   }
 
   /**
    * Creates a new instance of the reflected class.
-   * @param {...any} args - Arguments to pass to the class constructor.
-   * @returns {object|null} A new instance of the class, or null if the target is not instantiable.
-   * @throws {TypeError} If the target is not a constructor.
+   * @param {...ConstructorArgs<T>} args - Arguments to pass to the class constructor.
+   * @returns {InstanceOf<T>} A new instance of the class, or null when reflecting an instance.
+   * @throws {NotInstantiableError} If the target is a function that is not a constructor, before calling it.
+   * @throws {NotAClassError} In strict mode, when reflecting an instance.
    */
-  newInstance(...args: any[]): object | null {
-    if (!this.isInstantiable()) {
-      // Or throw new TypeError(`${this.getName()} is not instantiable.`);
-      return null;
+  newInstance(...args: ConstructorArgs<T>): InstanceOf<T> {
+    const Constructor = this._constructorTarget();
+    if (!Constructor) {
+      return null as InstanceOf<T>;
+    }
+    return new Constructor(...args);
+  }
+
+  /**
+   * Creates a new instance of the reflected class without running its constructor,
+   * e.g. to hydrate it from stored data. Class fields are not initialized either.
+   * @returns {InstanceOf<T>} An empty object inheriting from the class prototype, or null when reflecting an instance.
+   * @throws {NotInstantiableError} If the target is not a constructor or has no prototype object.
+   * @throws {NotAClassError} In strict mode, when reflecting an instance.
+   */
+  newInstanceWithoutConstructor(): InstanceOf<T> {
+    const Constructor = this._constructorTarget();
+    if (!Constructor) {
+      return null as InstanceOf<T>;
     }
-    // The type guard from isInstantiable should ensure _target is a constructor type.
-    // However, to be absolutely safe with TypeScript's strictness:
-    const Constructor = this._target as new (...args: any[]) => any;
-    try {
-      return new Constructor(...args);
-    } catch (e: any) {
-      // Catch potential runtime errors if it's not truly a constructor (e.g. arrow function)
-      throw new TypeError(`${this.getName()} is not a constructor or cannot be instantiated: ${e.message}`);
+    const prototype = Constructor.prototype;
+    if (prototype === null || (typeof prototype !== 'object' && typeof prototype !== 'function')) {
+      throw new NotInstantiableError(`${this.getName()} has no prototype to create instances from.`, { target: this.getName() });
     }
+    return Object.create(prototype);
+  }
+
+  /**
+   * Creates a new instance of the reflected class, passing arguments by constructor parameter name.
+   * Parameters without an argument receive undefined (TypeScript's optional parameters cannot be told apart
+   * from required ones at runtime); a rest parameter takes an array. Destructured parameters have no name
+   * and always receive undefined.
+   * @param {Record<string, unknown>} namedArgs - The arguments, keyed by parameter name.
+   * @returns {InstanceOf<T>} A new instance of the class, or null when reflecting an instance.
+   * @throws {InvalidArgumentError} If an argument does not match a parameter or a rest argument is not an array.
+   * @throws {NotInstantiableError} If the target is not a constructor.
+   * @throws {NotAClassError} In strict mode, when reflecting an instance.
+   */
+  newInstanceArgs(namedArgs: Record<string, unknown>): InstanceOf<T> {
+    if (!this._constructorTarget()) {
+      return null as InstanceOf<T>;
+    }
+    const parameters = this.getConstructorParameters().filter((parameter) => !parameter.isDestructured());
+    const names = new Set(parameters.map((parameter) => parameter.getName()));
+    for (const name of Object.keys(namedArgs)) {
+      if (!names.has(name)) {
+        throw new InvalidArgumentError(`${this.getName()} has no constructor parameter named "${name}".`, {
+          target: this.getName(),
+          member: name,
+        });
+      }
+    }
+
+    const args: unknown[] = [];
+    for (const parameter of parameters) {
+      const name = parameter.getName();
+      if (!Object.hasOwn(namedArgs, name)) continue;
+      const value = namedArgs[name];
+      if (parameter.isVariadic() && !Array.isArray(value)) {
+        throw new InvalidArgumentError(`Rest parameter "${name}" of ${this.getName()} must be given an array.`, {
+          target: this.getName(),
+          member: name,
+        });
+      }
+      // Skipped parameters before this one receive undefined; missing trailing ones are not passed at all
+      args.length = parameter.getPosition();
+      args.push(...(parameter.isVariadic() ? value as unknown[] : [value]));
+    }
+    return this.newInstance(...args as ConstructorArgs<T>);
   }
 
   /**
    * Checks if a given object is an instance of the reflected class.
    * This is only meaningful if the reflected target is a class constructor.
+   * The `instanceof` mode fails for objects from other realms (e.g. `node:vm` contexts) and from
+   * duplicated copies of a module; `structural` compares instance methods instead, and `registry`
+   * compares class IDs (see `registerClass()` and `CLASS_ID`).
    * @param {object} obj - The object to check.
+   * @param {InstanceCheckMode} [mode='instanceof'] - How to decide.
    * @returns {boolean} True if obj is an instance of the reflected class.
-   * @throws {Error} If the reflected target is not a class constructor.
+   * @throws {NotAClassError} If the reflected target is not a class constructor.
+   * @throws {ReflectionError} In `registry` mode, if the reflected class has no class ID (`ERR_NO_CLASS_ID`).
    */
-  isInstanceCheck(obj: any): boolean {
+  isInstanceCheck(obj: any, mode: InstanceCheckMode = 'instanceof'): boolean {
     if (!this.isClass() || !(this._constructorFn instanceof Function)) {
-      throw new Error(
-        `Cannot perform instance check: ${this.getName()} is not a class constructor.`
+      throw new NotAClassError(
+        `Cannot perform instance check: ${this.getName()} is not a class constructor.`,
+        { target: this.getName() }
       );
     }
+    if (mode === 'structural') {
+      if (obj === null || (typeof obj !== 'object' && typeof obj !== 'function')) return false;
+      const candidate = new ReflectionClass(obj);
+      return this._prototype !== null && new ReflectionClass(this._prototype)
+        .getMethods({ includeSymbols: true })
+        .every((name) => name === 'constructor' || candidate.hasMethod(name));
+    }
+    if (mode === 'registry') {
+      const id = getClassId(this._constructorFn);
+      if (id === null) {
+        throw new ReflectionError('ERR_NO_CLASS_ID', `Cannot perform registry instance check: ${this.getName()} has no class ID.`, {
+          target: this.getName(),
+        });
+      }
+      if (obj === null || (typeof obj !== 'object' && typeof obj !== 'function')) return false;
+      for (let current = Object.getPrototypeOf(obj); !isChainEnd(current); current = Object.getPrototypeOf(current)) {
+        const ctor = Object.getOwnPropertyDescriptor(current, 'constructor')?.value;
+        if (typeof ctor === 'function' && getClassId(ctor) === id) return true;
+      }
+      return false;
+    }
     return obj instanceof (this._constructorFn as any); // Cast to 'any' or a specific constructor type
   }
 
+  /**
+   * Gets the stable ID of the reflected class, which survives minification and realm boundaries.
+   * @returns {string|null} The ID declared with `CLASS_ID` or given to `registerClass()`, or null.
+   */
+  getClassId(): string | null {
+    return this._constructorFn ? getClassId(this._constructorFn) : null;
+  }
+
+  /**
+   * Gets the traits composed into the class with `mix()` or `use()`, including those of ancestor classes
+   * (`mix()` composes into an intermediate parent class), nearest first.
+   * @returns {Function[]} The traits, each listed once.
+   */
+  getTraits(): Function[] {
+    if (!this._constructorFn) return [];
+    const traits = new Set<Function>();
+    for (const type of [this._constructorFn, ...new ReflectionClass(this._constructorFn).getAncestors()]) {
+      getOwnTraits(type).forEach((trait) => traits.add(trait));
+    }
+    return Array.from(traits);
+  }
+
+  /**
+   * Checks if the class uses a trait, directly, through an ancestor class, or through another trait.
+   * @param {Function} trait - The trait.
+   * @returns {boolean} True if the trait was composed into the class.
+   */
+  usesTrait(trait: Function): boolean {
+    const pending = this.getTraits();
+    const seen = new Set<Function>();
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      if (current === trait) return true;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      pending.push(...new ReflectionClass(current).getTraits());
+    }
+    return false;
+  }
+
+  /**
+   * Checks if the reflected class opted into brand checks with `defineBrand()`.
+   * @returns {boolean} True if the class defines its own brand check.
+   */
+  isBranded(): boolean {
+    return this._constructorFn !== null && getBrandCheck(this._constructorFn) !== null;
+  }
+
+  /**
+   * Checks if a value carries the private brand of the reflected class, i.e. was constructed by it.
+   * Unlike `isInstanceCheck()`, this ignores the prototype chain, so objects faking the prototype
+   * are rejected and instances whose prototype was changed are still recognized.
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} True if the value carries the brand.
+   * @throws {ReflectionError} If the class does not define a brand (`ERR_NO_BRAND`, see `defineBrand()`).
+   */
+  hasBrand(value: unknown): boolean {
+    const check = this._constructorFn ? getBrandCheck(this._constructorFn) : null;
+    if (!check) {
+      throw new ReflectionError('ERR_NO_BRAND', `${this.getName()} does not define a brand; call defineBrand() in a static block of the class.`, {
+        target: this.getName(),
+      });
+    }
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+      return false;
+    }
+    return check(value) === true;
+  }
+
+  /**
+   * Lists the `#private` members declared in the body of the reflected class, parsed from its source text.
+   * Best effort: classes whose source is unavailable (native or bound) report none.
+   * @returns {ParsedClassMember[]} The private fields, methods and accessors, in declaration order.
+   */
+  getPrivateMembers(): ParsedClassMember[] {
+    return this._classBody()?.members.filter((member) => member.isPrivate) ?? [];
+  }
+
+  /**
+   * Lists the auto-accessors (`accessor` fields) declared in the body of the reflected class,
+   * parsed from its source text.
+   * @returns {ParsedClassMember[]} The auto-accessors, public and private, in declaration order.
+   */
+  getAutoAccessors(): ParsedClassMember[] {
+    return this._classBody()?.members.filter((member) => member.kind === 'accessor') ?? [];
+  }
+
+  /**
+   * Lists the static initialization blocks of the reflected class, parsed from its source text.
+   * @returns {string[]} The source text of each block, without the braces.
+   */
+  getStaticBlocks(): string[] {
+    return this._classBody()?.staticBlocks ?? [];
+  }
+
+  /**
+   * Gets the reflected target as a constructor, checking it can be called with `new`.
+   * @returns {Function|null} The constructor, or null when reflecting an instance.
+   * @throws {NotInstantiableError} If the target is a function that is not a constructor (e.g. an arrow function).
+   * @throws {NotAClassError} In strict mode, when reflecting an instance.
+   * @private
+   */
+  private _constructorTarget(): (new (...args: any[]) => any) | null {
+    if (typeof this._target !== 'function') {
+      this._requireClass('Instantiation');
+      return null;
+    }
+    new ReflectionFunction(this._target).assertInstantiable();
+    return this._target as unknown as new (...args: any[]) => any;
+  }
+
+  /**
+   * Applies strict mode to the result of a lookup: throws instead of returning null or false.
+   * @param {R} result - The lookup result.
+   * @param {string} kind - What was looked up, for the message (e.g. `method`).
+   * @param {PropertyKey} name - The name or symbol looked up.
+   * @returns {R} The result, unchanged.
+   * @throws {MemberNotFoundError} In strict mode, if the result is null or false.
+   * @private
+   */
+  private _found<R>(result: R, kind: string, name: PropertyKey): R {
+    if (this._strict && (result === null || result === false)) {
+      const side = this.isClass() ? 'static ' : '';
+      throw new MemberNotFoundError(`${this.getName()} has no ${side}${kind} ${formatKey(name)}.`, {
+        target: this.getName(),
+        member: toMemberKey(name),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Throws in strict mode when an operation that needs a class is used on a reflected instance.
+   * @param {string} operation - The operation, for the message.
+   * @throws {NotAClassError} In strict mode.
+   * @private
+   */
+  private _requireClass(operation: string): void {
+    if (this._strict) {
+      throw new NotAClassError(`${operation} needs a class, but an instance of ${this.getName()} is reflected.`, {
+        target: this.getName(),
+      });
+    }
+  }
+
+  /**
+   * Parses the body of the reflected class.
+   * @returns {ParsedClassBody|null} The class body, or null if the source is unavailable or not a class.
+   * @private
+   */
+  private _classBody(): ParsedClassBody | null {
+    return this._constructorFn ? parseClassBody(this._constructorFn) : null;
+  }
+
+  /**
+   * Gets metadata for the class or one of its members, looking up the inheritance chain.
+   * Members follow the reflection mode: static members when reflecting a class,
+   * instance members when reflecting an instance.
+   * @param {unknown} key - The metadata key.
+   * @param {PropertyKey} [member] - The member name; omit for class-level metadata.
+   * @returns {unknown} The nearest metadata value, or undefined.
+   */
+  getMetadata(key: unknown, member?: PropertyKey): unknown {
+    const target = this._metadataTarget();
+    return target ? metadata.getMetadata(key, target, member) : undefined;
+  }
+
+  /**
+   * Gets metadata declared directly on the reflected class, ignoring parent classes.
+   * @param {unknown} key - The metadata key.
+   * @param {PropertyKey} [member] - The member name; omit for class-level metadata.
+   * @returns {unknown} The metadata value, or undefined.
+   */
+  getOwnMetadata(key: unknown, member?: PropertyKey): unknown {
+    const target = this._metadataTarget();
+    return target ? metadata.getOwnMetadata(key, target, member) : undefined;
+  }
+
+  /**
+   * Checks if metadata exists for the class or one of its members, including inherited metadata.
+   * @param {unknown} key - The metadata key.
+   * @param {PropertyKey} [member] - The member name; omit for class-level metadata.
+   * @returns {boolean} True if the key is defined.
+   */
+  hasMetadata(key: unknown, member?: PropertyKey): boolean {
+    const target = this._metadataTarget();
+    return target ? metadata.hasMetadata(key, target, member) : false;
+  }
+
+  /**
+   * Gets the metadata keys for the class or one of its members, including inherited ones.
+   * @param {PropertyKey} [member] - The member name; omit for class-level metadata.
+   * @returns {unknown[]} The metadata keys.
+   */
+  getMetadataKeys(member?: PropertyKey): unknown[] {
+    const target = this._metadataTarget();
+    return target ? metadata.getMetadataKeys(target, member) : [];
+  }
+
+  /**
+   * Gets all metadata for the class or one of its members, merged from the root ancestor
+   * down to the reflected class, so values declared on subclasses win.
+   * @param {PropertyKey} [member] - The member name; omit for class-level metadata.
+   * @returns {Map<unknown, unknown>} The merged metadata.
+   */
+  getAllMetadata(member?: PropertyKey): Map<unknown, unknown> {
+    const target = this._metadataTarget();
+    return target ? metadata.getAllMetadata(target, member) : new Map();
+  }
+
+  /**
+   * Gets parameter metadata, looking up the inheritance chain.
+   * @param {unknown} key - The metadata key.
+   * @param {number} index - The zero-based parameter index.
+   * @param {PropertyKey} [member] - The method name; omit for constructor parameters.
+   * @returns {unknown} The nearest metadata value, or undefined.
+   */
+  getParameterMetadata(key: unknown, index: number, member?: PropertyKey): unknown {
+    const target = member === undefined ? this._constructorFn : this._metadataTarget();
+    return target ? metadata.getMetadata(key, target, member, index) : undefined;
+  }
+
+  /**
+   * Gets reflections of both sides of the reflected class, whichever side is reflected:
+   * the prototype (or the reflected instance) for instance members and the constructor for static members.
+   * @returns {{instanceSide: ReflectionClass|null, staticSide: ReflectionClass|null}} The reflections,
+   * null for a side that does not exist.
+   * @private
+   */
+  private _sides(cache: boolean = this._cache): { instanceSide: ReflectionClass<any> | null; staticSide: ReflectionClass<any> | null } {
+    // Not strict: the sides are used to list members, which probes names that may not resolve
+    const options = { cache, safe: this._safe };
+    return {
+      instanceSide: this.isClass()
+        ? (this._prototype ? new ReflectionClass(this._prototype, options) : null)
+        : (this._strict || cache !== this._cache ? new ReflectionClass(this._target, options) : this),
+      staticSide: this.isClass()
+        ? (this._strict || cache !== this._cache ? new ReflectionClass(this._target, options) : this)
+        : (this._constructorFn ? new ReflectionClass(this._constructorFn, options) : null),
+    };
+  }
+
+  /**
+   * Determines the metadata target matching the reflection mode:
+   * the constructor for classes, the class prototype for instances.
+   * @returns {object|null} The metadata target, or null for objects without a constructor.
+   * @private
+   */
+  private _metadataTarget(): object | null {
+    if (typeof this._constructorFn !== 'function') return null;
+    if (this.isClass()) return this._constructorFn;
+    const prototype = this._safe ? dataValue(this._constructorFn, 'prototype') : this._constructorFn.prototype;
+    return (prototype as object | null | undefined) ?? null;
+  }
+
+  /**
+   * Describes the reflected class as a stable, versioned JSON document: name, ancestors,
+   * and static and instance methods and properties (inherited and symbol-keyed ones included),
+   * in a deterministic order. Suitable for API-surface snapshots; compare documents with `diffSchemas()`.
+   * When an instance is reflected, its own properties are included in the instance properties.
+   * @returns {ClassSchema} The class schema.
+   */
+  describe(): ClassSchema {
+    const { instanceSide, staticSide } = this._sides();
+    const staticMembers = describeMembers(staticSide, true);
+    const instanceMembers = describeMembers(instanceSide, false);
+
+    return {
+      version: SCHEMA_VERSION,
+      name: this.getName(),
+      parents: this.getAncestors().map((ancestor) => ancestor.name || '[Anonymous]'),
+      methods: { static: staticMembers.methods, instance: instanceMembers.methods },
+      properties: { static: staticMembers.properties, instance: instanceMembers.properties },
+    };
+  }
+
+  /**
+   * Starts a query over the static and instance members of the reflected class, whichever is reflected.
+   * Members are resolved the way `getMethod()` and `getProperty()` resolve them; properties holding
+   * methods are reported as methods, and `constructor` and the built-in `length`, `name` and `prototype`
+   * are left out.
+   * @example
+   * ```ts
+   * reflection.members().methods().static().inherited().names();
+   * reflection.members().accessors().instance().declaredIn(Parent).toArray();
+   * ```
+   * @returns {MemberQuery} The query, selecting every member until filters are added.
+   */
+  members(): MemberQuery {
+    return new MemberQuery(() => {
+      const { instanceSide, staticSide } = this._sides();
+      return [...listMembers(instanceSide, false), ...listMembers(staticSide, true)];
+    }, this._constructorFn);
+  }
+
+  /**
+   * Captures the static and instance members visible through the reflected class, with their descriptors
+   * and declaring classes. Descriptors keep the methods, accessor functions and values themselves, so
+   * `compare()` can tell a patched method from the original. The member cache is bypassed.
+   * @returns {ClassSnapshot} The snapshot.
+   */
+  snapshot(): ClassSnapshot {
+    const { instanceSide, staticSide } = this._sides(false);
+    return takeSnapshot(this.getName(), instanceSide, staticSide);
+  }
+
+  /**
+   * Compares the reflected class with an earlier snapshot, e.g. to find methods a plugin patched.
+   * @param {ClassSnapshot} snapshot - A snapshot taken by `snapshot()`.
+   * @returns {SnapshotChange[]} The members added, removed or replaced since the snapshot.
+   */
+  compare(snapshot: ClassSnapshot): SnapshotChange[] {
+    return compareSnapshots(snapshot, this.snapshot());
+  }
+
+  /**
+   * Watches the reflected class (or the class of the reflected instance) for changes. The returned watcher
+   * wraps the class and its prototype in proxies: assignments, `Object.defineProperty()` and `delete` made
+   * through them are reported with the stack trace of the code making them. Changes made directly to the
+   * class are not reported; `ClassWatcher#getChanges()` finds them without a stack trace.
+   * @param {(event: MutationEvent) => void} [listener] - Called with every change made through the proxies.
+   * @returns {ClassWatcher} The watcher; pass `getClass()` to the code under test.
+   * @throws {InvalidTargetError} If the reflected class has no prototype.
+   */
+  watch(listener?: (event: MutationEvent) => void): ClassWatcher {
+    if (!this._constructorFn || !this._prototype) {
+      throw new InvalidTargetError(`Cannot watch ${this.getName()}: it has no prototype.`, { target: this.getName() });
+    }
+    const type = this._constructorFn;
+    return new ClassWatcher(type, this._prototype, this.getName(), () => new ReflectionClass(type, { safe: this._safe }).snapshot(), listener);
+  }
+
+  /**
+   * Serializes the reflection as its class schema, so `JSON.stringify(reflection)` produces `describe()`.
+   * @returns {ClassSchema} The class schema.
+   */
+  toJSON(): ClassSchema {
+    return this.describe();
+  }
+
   /**
    * Returns a string representation of the reflected class/object.
    * @returns {string} A string describing the reflected entity.
@@ -333,3 +1430,75 @@ export class ReflectionClass<T extends object | Function> {
       }: ${this.getName()}]`;
   }
 }
+
+/**
+ * Lists the members visible through one reflection (the static or the instance side), sorted by name.
+ * `constructor` and built-in function properties are left out.
+ * @param {ReflectionClass|null} side - The reflection of one side, or null if there is none.
+ * @param {boolean} isStatic - Whether the side is the static side.
+ * @returns {ReflectionMember[]} The methods and properties.
+ */
+function listMembers(side: ReflectionClass<any> | null, isStatic: boolean): ReflectionMember[] {
+  if (!side) return [];
+  const members: ReflectionMember[] = [];
+  for (const key of sortKeys(side.getProperties({ includeSymbols: true }))) {
+    if (key === 'constructor') continue;
+    const method = side.getMethod(key);
+    if (method) {
+      members.push(method);
+      continue;
+    }
+    const property = side.getProperty(key);
+    if (property && !(isStatic && isBuiltinFunctionProperty(key, property.isEnumerable()))) {
+      members.push(property);
+    }
+  }
+  return members;
+}
+
+/**
+ * Describes the methods and properties visible through one reflection (the static or the instance side).
+ * Built-in function properties and `constructor` are left out, as are properties holding methods.
+ * @param {ReflectionClass|null} side - The reflection of one side, or null if there is none.
+ * @param {boolean} isStatic - Whether the side is the static side.
+ * @returns {{methods: MethodSchema[], properties: PropertySchema[]}} The sorted member schemas.
+ */
+function describeMembers(
+  side: ReflectionClass<any> | null,
+  isStatic: boolean
+): { methods: MethodSchema[]; properties: PropertySchema[] } {
+  if (!side) return { methods: [], properties: [] };
+  const nameOf = (ctor: Function | null) => (ctor as any)?.name || '[Anonymous]';
+
+  const methods = side.getMethodObjects({ includeSymbols: true }).map((method): MethodSchema => ({
+    key: formatKey(method.getName()),
+    symbol: typeof method.getName() === 'symbol',
+    kind: method.getKind(),
+    length: method.getLength(),
+    parameters: method.getParameters().map((parameter) =>
+      `${parameter.isVariadic() ? '...' : ''}${parameter.getName()}${parameter.isDefaultValueAvailable() ? '?' : ''}`
+    ),
+    declaredIn: nameOf(method.getDeclaringClass()),
+  }));
+
+  const properties = side.getPropertyObjects({ includeSymbols: true })
+    .filter((property) => {
+      const key = property.getName();
+      return key !== 'constructor' &&
+        !(isStatic && isBuiltinFunctionProperty(key, property.isEnumerable())) &&
+        side.getMethod(key) === null;
+    })
+    .map((property): PropertySchema => ({
+      key: formatKey(property.getName()),
+      symbol: typeof property.getName() === 'symbol',
+      kind: property.getKind(),
+      getter: property.hasGetter(),
+      setter: property.hasSetter(),
+      writable: property.isWritable(),
+      enumerable: property.isEnumerable(),
+      configurable: property.isConfigurable(),
+      declaredIn: nameOf(property.getDeclaringClass()),
+    }));
+
+  return { methods: sortMemberSchemas(methods), properties: sortMemberSchemas(properties) };
+}
@@ -0,0 +1,133 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { diffSchemas, SCHEMA_VERSION } from "./schema.ts";
+
+class Animal {
+  name: string;
+  constructor(name: string) { this.name = name; }
+  eat(): void { }
+  static create(name: string): Animal { return new Animal(name); }
+  static kingdom: string = 'animalia';
+}
+
+class Dog extends Animal {
+  breed = '';
+  bark(times = 1): void { }
+  eat(): void { }
+  get loud(): boolean { return true; }
+  async *[Symbol.asyncIterator]() { }
+  static register(...names: string[]): void { }
+}
+
+describe('Class Schema', () => {
+  describe('describe()', () => {
+    const schema = new ReflectionClass(Dog).describe();
+
+    it('should include version, name and parent chain', () => {
+      assert.strictEqual(schema.version, SCHEMA_VERSION);
+      assert.strictEqual(schema.name, 'Dog');
+      assert.deepStrictEqual(schema.parents, ['Animal', 'Object']);
+    });
+
+    it('should describe static and instance methods with kind, arity and parameters', () => {
+      assert.deepStrictEqual(schema.methods.static.map((method) => method.key), ['create', 'register']);
+      assert.deepStrictEqual(schema.methods.static[1], {
+        key: 'register',
+        symbol: false,
+        kind: 'sync',
+        length: 0,
+        parameters: ['...names'],
+        declaredIn: 'Dog',
+      });
+      assert.deepStrictEqual(
+        schema.methods.instance.map((method) => [method.key, method.kind, method.declaredIn]),
+        [['bark', 'sync', 'Dog'], ['eat', 'sync', 'Dog'], ['[Symbol.asyncIterator]', 'async-generator', 'Dog']]
+      );
+      assert.deepStrictEqual(schema.methods.instance[0].parameters, ['times?']);
+      assert.ok(schema.methods.instance[2].symbol);
+    });
+
+    it('should describe properties with descriptor flags', () => {
+      assert.deepStrictEqual(schema.properties.static.map((property) => property.key), ['kingdom']);
+      assert.deepStrictEqual(schema.properties.instance, [{
+        key: 'loud',
+        symbol: false,
+        kind: 'accessor',
+        getter: true,
+        setter: false,
+        writable: false,
+        enumerable: false,
+        configurable: true,
+        declaredIn: 'Dog',
+      }]);
+    });
+
+    it('should include own properties when an instance is reflected', () => {
+      const instanceSchema = new ReflectionClass(new Dog('Rex')).describe();
+      assert.deepStrictEqual(instanceSchema.properties.instance.map((property) => property.key), ['breed', 'loud', 'name']);
+      assert.deepStrictEqual(instanceSchema.methods, schema.methods);
+    });
+
+    it('should be deterministic and JSON-serializable through toJSON', () => {
+      const reflection = new ReflectionClass(Dog);
+      assert.strictEqual(JSON.stringify(reflection), JSON.stringify(schema));
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(reflection)), reflection.describe());
+    });
+
+    it('should describe objects without a constructor', () => {
+      const bare = Object.create(null);
+      bare.value = 1;
+      const bareSchema = new ReflectionClass(bare).describe();
+      assert.strictEqual(bareSchema.name, '[Anonymous]');
+      assert.deepStrictEqual(bareSchema.parents, []);
+      assert.deepStrictEqual(bareSchema.properties.static, []);
+      assert.deepStrictEqual(bareSchema.properties.instance.map((property) => property.declaredIn), ['[Anonymous]']);
+    });
+  });
+
+  describe('diffSchemas()', () => {
+    it('should report no changes for identical schemas', () => {
+      assert.deepStrictEqual(diffSchemas(new ReflectionClass(Dog).describe(), new ReflectionClass(Dog).describe()), []);
+    });
+
+    it('should report added, removed and changed members', () => {
+      class DogV2 extends Animal {
+        breed = '';
+        bark(times: number, loudly = false): void { }
+        async fetch(): Promise<void> { }
+        set loud(value: boolean) { }
+        async *[Symbol.asyncIterator]() { }
+        static register(...names: string[]): void { }
+      }
+      const before = new ReflectionClass(Dog).describe();
+      const after = { ...new ReflectionClass(DogV2).describe(), name: 'Dog' };
+      const changes = diffSchemas(before, after);
+      assert.deepStrictEqual(
+        changes.map((change) => [change.type, change.member, change.static, change.key, change.fields]),
+        [
+          ['changed', 'method', true, 'register', ['declaredIn']],
+          ['changed', 'method', false, 'bark', ['length', 'parameters', 'declaredIn']],
+          ['changed', 'method', false, 'eat', ['declaredIn']],
+          ['changed', 'method', false, '[Symbol.asyncIterator]', ['declaredIn']],
+          ['added', 'method', false, 'fetch', undefined],
+          ['changed', 'property', false, 'loud', ['getter', 'setter', 'writable', 'declaredIn']],
+        ]
+      );
+      assert.strictEqual((changes[1].after as any).length, 1);
+    });
+
+    it('should report class-level and removed members', () => {
+      class Cat extends Animal { }
+      const changes = diffSchemas(new ReflectionClass(Dog).describe(), new ReflectionClass(Cat).describe());
+      assert.deepStrictEqual(changes[0], { type: 'changed', member: 'class', static: false, key: 'name', before: 'Dog', after: 'Cat' });
+      assert.ok(changes.some((change) => change.type === 'removed' && change.key === 'bark'));
+      assert.ok(changes.some((change) => change.type === 'removed' && change.member === 'property' && change.key === 'loud'));
+    });
+
+    it('should throw TypeError for different schema versions', () => {
+      const schema = new ReflectionClass(Dog).describe();
+      assert.throws(() => diffSchemas(schema, { ...schema, version: 2 as any }), TypeError);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { InvalidArgumentError } from "./errors.ts";
+import type { MethodKind } from "./reflection-method.ts";
+import type { PropertyKind } from "./reflection-property.ts";
+
+/**
+ * The version of the schema format produced by `ReflectionClass#describe()`.
+ * Bumped whenever the document shape changes.
+ */
+export const SCHEMA_VERSION = 1;
+
+/**
+ * @interface MethodSchema
+ * @description A method in a class schema.
+ */
+export interface MethodSchema {
+  /** The method name; symbol keys are written as `[description]`. */
+  key: string;
+  symbol: boolean;
+  kind: MethodKind;
+  /** `Function.prototype.length` of the implementation. */
+  length: number;
+  /** Parameter names; optional parameters end in `?`, rest parameters start with `...`. */
+  parameters: string[];
+  declaredIn: string;
+}
+
+/**
+ * @interface PropertySchema
+ * @description A property in a class schema.
+ */
+export interface PropertySchema {
+  /** The property name; symbol keys are written as `[description]`. */
+  key: string;
+  symbol: boolean;
+  kind: PropertyKind;
+  getter: boolean;
+  setter: boolean;
+  writable: boolean;
+  enumerable: boolean;
+  configurable: boolean;
+  declaredIn: string;
+}
+
+/**
+ * @interface MemberSchemas
+ * @description Members of one side (static or instance) of a class.
+ */
+export interface MemberSchemas<T> {
+  static: T[];
+  instance: T[];
+}
+
+/**
+ * @interface ClassSchema
+ * @description A stable, JSON-serializable description of a reflected class.
+ */
+export interface ClassSchema {
+  version: typeof SCHEMA_VERSION;
+  name: string;
+  /** Ancestor class names, nearest first. */
+  parents: string[];
+  methods: MemberSchemas<MethodSchema>;
+  properties: MemberSchemas<PropertySchema>;
+}
+
+/**
+ * @interface SchemaChange
+ * @description A single difference between two class schemas.
+ */
+export interface SchemaChange {
+  type: 'added' | 'removed' | 'changed';
+  /** What changed: the class itself (name or parents), a method or a property. */
+  member: 'class' | 'method' | 'property';
+  static: boolean;
+  /** The member key, or `name`/`parents` for class-level changes. */
+  key: string;
+  /** The fields that differ, for changed members. */
+  fields?: string[];
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Orders member schemas deterministically: string keys alphabetically, then symbol keys.
+ * @param {T[]} members - The members to sort in place.
+ * @returns {T[]} The sorted members.
+ */
+export function sortMemberSchemas<T extends { key: string; symbol: boolean }>(members: T[]): T[] {
+  return members.sort((a, b) =>
+    a.symbol === b.symbol ? (a.key < b.key ? -1 : a.key > b.key ? 1 : 0) : a.symbol ? 1 : -1
+  );
+}
+
+/**
+ * Lists the fields whose values differ between two member schemas.
+ * @param {object} before - The old schema.
+ * @param {object} after - The new schema.
+ * @returns {string[]} The differing field names.
+ */
+function changedFields(before: object, after: object): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(fields).filter(
+    (field) => JSON.stringify((before as any)[field]) !== JSON.stringify((after as any)[field])
+  );
+}
+
+/**
+ * Compares the members of one section (methods or properties) of two schemas.
+ */
+function diffMembers(
+  changes: SchemaChange[],
+  member: 'method' | 'property',
+  isStatic: boolean,
+  before: (MethodSchema | PropertySchema)[],
+  after: (MethodSchema | PropertySchema)[]
+): void {
+  const identify = (schema: MethodSchema | PropertySchema) => `${schema.symbol ? 'symbol' : 'string'}:${schema.key}`;
+  const previous = new Map(before.map((schema) => [identify(schema), schema]));
+  const next = new Map(after.map((schema) => [identify(schema), schema]));
+
+  for (const [id, schema] of previous) {
+    const updated = next.get(id);
+    if (!updated) {
+      changes.push({ type: 'removed', member, static: isStatic, key: schema.key, before: schema });
+      continue;
+    }
+    const fields = changedFields(schema, updated);
+    if (fields.length > 0) {
+      changes.push({ type: 'changed', member, static: isStatic, key: schema.key, fields, before: schema, after: updated });
+    }
+  }
+  for (const [id, schema] of next) {
+    if (!previous.has(id)) {
+      changes.push({ type: 'added', member, static: isStatic, key: schema.key, after: schema });
+    }
+  }
+}
+
+/**
+ * Compares two class schemas, e.g. a committed API snapshot and the current `describe()` output.
+ * Changes are reported class-level first, then methods and properties (static before instance),
+ * removals and changes in the old order followed by additions in the new order.
+ * @param {ClassSchema} before - The old schema.
+ * @param {ClassSchema} after - The new schema.
+ * @returns {SchemaChange[]} The changes; empty if the schemas describe the same surface.
+ * @throws {InvalidArgumentError} If the schemas have different versions.
+ */
+export function diffSchemas(before: ClassSchema, after: ClassSchema): SchemaChange[] {
+  if (before.version !== after.version) {
+    throw new InvalidArgumentError(`Cannot compare schema version ${before.version} with version ${after.version}.`);
+  }
+  const changes: SchemaChange[] = [];
+  if (before.name !== after.name) {
+    changes.push({ type: 'changed', member: 'class', static: false, key: 'name', before: before.name, after: after.name });
+  }
+  if (JSON.stringify(before.parents) !== JSON.stringify(after.parents)) {
+    changes.push({ type: 'changed', member: 'class', static: false, key: 'parents', before: before.parents, after: after.parents });
+  }
+  diffMembers(changes, 'method', true, before.methods.static, after.methods.static);
+  diffMembers(changes, 'method', false, before.methods.instance, after.methods.instance);
+  diffMembers(changes, 'property', true, before.properties.static, after.properties.static);
+  diffMembers(changes, 'property', false, before.properties.instance, after.properties.instance);
+  return changes;
+}
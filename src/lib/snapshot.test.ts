@@ -0,0 +1,174 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { isProxy, unwrapProxy } from "./inspection.ts";
+import { ReflectionClass } from "./reflection.ts";
+import type { MutationEvent } from "./snapshot.ts";
+
+/**
+ * Creates a fresh class hierarchy, so patches made by one test do not leak into others.
+ */
+function createClasses() {
+  class Service {
+    static instances = 0;
+    static create(): Service { return new Service(); }
+    start(): string { return 'started'; }
+    stop(): string { return 'stopped'; }
+    get status(): string { return 'idle'; }
+  }
+  class Mailer extends Service {
+    send(): string { return 'sent'; }
+  }
+  return { Service, Mailer };
+}
+
+describe('Snapshots', () => {
+  it('should capture members with their descriptors and declaring classes', () => {
+    const { Service, Mailer } = createClasses();
+    const snapshot = new ReflectionClass(Mailer).snapshot();
+    assert.strictEqual(snapshot.target, 'Mailer');
+    assert.deepStrictEqual(
+      snapshot.members.map((member) => `${member.side} ${member.kind} ${String(member.member)} @${member.declaringClass?.name}`),
+      [
+        'instance method send @Mailer',
+        'instance method start @Service',
+        'instance property status @Service',
+        'instance method stop @Service',
+        'static method create @Service',
+        'static property instances @Service',
+      ]
+    );
+    assert.strictEqual(snapshot.members[1].descriptor.value, Service.prototype.start);
+  });
+
+  it('should report added, removed and replaced members', () => {
+    const { Service, Mailer } = createClasses();
+    const reflection = new ReflectionClass(Mailer, { cache: true });
+    const snapshot = reflection.snapshot();
+    assert.strictEqual(reflection.compare(snapshot).length, 0);
+
+    const original = Service.prototype.start;
+    Mailer.prototype.start = function () { return `patched ${original.call(this)}`; };
+    Service.prototype.stop = function () { return 'patched'; };
+    delete (Mailer.prototype as any).send;
+    (Mailer as any).flush = () => { };
+    Service.instances++;
+    Object.defineProperty(Service.prototype, 'status', { get: () => 'busy', configurable: true });
+
+    assert.deepStrictEqual(reflection.compare(snapshot).map((change) => change.message), [
+      'send: instance method removed',
+      'start: instance method replaced (declared by Mailer instead of Service)',
+      'status: instance property replaced',
+      'stop: instance method replaced',
+      'instances: static property replaced',
+      'flush: static method added',
+    ]);
+    const [, start] = reflection.compare(snapshot);
+    assert.strictEqual(start.before?.descriptor.value, original);
+    assert.strictEqual(start.after?.descriptor.value, Mailer.prototype.start);
+  });
+
+  describe('watch()', () => {
+    it('should report changes made through the watched class with a stack trace', () => {
+      const { Service } = createClasses();
+      const events: MutationEvent[] = [];
+      const watcher = new ReflectionClass(Service).watch((event) => events.push(event));
+      const Watched = watcher.getClass() as typeof Service;
+
+      function installPlugin(app: typeof Service): void {
+        app.prototype.start = function () { return 'plugin'; };
+        Object.defineProperty(app.prototype, 'restart', { value() { }, configurable: true });
+        app.instances = 5;
+        delete (app.prototype as any).stop;
+      }
+      installPlugin(Watched);
+
+      assert.deepStrictEqual(events.map((event) => event.message), [
+        'start: instance method replaced (set)',
+        'restart: instance method added (defineProperty)',
+        'instances: static property replaced (set)',
+        'stop: instance method removed (deleteProperty)',
+      ]);
+      assert.strictEqual(events[0].after?.value, Service.prototype.start);
+      assert.match(events[0].stack, /installPlugin/);
+      assert.doesNotMatch(events[0].stack, /snapshot\.ts/);
+      assert.strictEqual(Service.instances, 5);
+      assert.deepStrictEqual(watcher.getEvents(), events);
+    });
+
+    it('should behave like the class it wraps', () => {
+      const { Service, Mailer } = createClasses();
+      const watcher = new ReflectionClass(Service).watch();
+      const Watched = watcher.getClass() as typeof Service;
+
+      const service = new Watched();
+      assert.strictEqual(Object.getPrototypeOf(service), Service.prototype);
+      assert.ok(service instanceof Watched);
+      assert.ok(new Mailer() instanceof Watched);
+      assert.strictEqual(Watched.prototype, watcher.getPrototype());
+      assert.strictEqual(Watched.create().start(), 'started');
+      assert.strictEqual(Watched.name, 'Service');
+      assert.ok(isProxy(Watched));
+      assert.strictEqual(unwrapProxy(Watched), Service);
+
+      class Extended extends Watched { }
+      Extended.prototype.start = () => 'extended';
+      assert.strictEqual(new Extended().start(), 'extended');
+      assert.strictEqual(Service.prototype.start.call(service), 'started');
+      assert.strictEqual(watcher.getEvents().length, 0);
+    });
+
+    it('should accept non-configurable properties defined through the watched class', () => {
+      const { Service } = createClasses();
+      const watcher = new ReflectionClass(Service).watch();
+      const Watched = watcher.getClass() as typeof Service & { cfg?: number; direct?: number };
+
+      Object.defineProperty(Watched, 'cfg', { value: 1, configurable: false });
+      assert.strictEqual((Service as any).cfg, 1);
+      assert.deepStrictEqual(Object.getOwnPropertyDescriptor(Watched, 'cfg'), {
+        value: 1, writable: false, enumerable: false, configurable: false,
+      });
+      assert.deepStrictEqual(watcher.getEvents().map((event) => event.message), ['cfg: static property added (defineProperty)']);
+      assert.strictEqual(Reflect.defineProperty(Watched, 'cfg', { value: 2 }), false);
+
+      Object.defineProperty(Service, 'direct', { value: 3, writable: true, configurable: false });
+      assert.strictEqual(Object.getOwnPropertyDescriptor(Watched, 'direct')?.value, 3);
+      Watched.direct = 4;
+      assert.strictEqual(Object.getOwnPropertyDescriptor(Watched, 'direct')?.value, 4);
+      assert.ok(Reflect.ownKeys(Watched).includes('direct'));
+    });
+
+    it('should refuse to freeze, seal or prevent extensions of the watched class', () => {
+      const { Service } = createClasses();
+      const watcher = new ReflectionClass(Service).watch();
+      const Watched = watcher.getClass();
+      for (const lock of [Object.freeze, Object.seal, Object.preventExtensions]) {
+        assert.throws(() => lock(Watched), {
+          name: 'ReflectionError',
+          code: 'ERR_UNSUPPORTED_OPERATION',
+          message: 'Cannot freeze, seal or prevent extensions of Service through a watched class; do it on the class itself.',
+        });
+      }
+      assert.strictEqual(Object.isExtensible(Service), true);
+      assert.strictEqual(Object.getOwnPropertyDescriptor(Service, 'create')?.configurable, true);
+      assert.strictEqual(watcher.getEvents().length, 0);
+
+      Object.freeze(watcher.getPrototype());
+      assert.strictEqual(Object.isFrozen(Service.prototype), true);
+    });
+
+    it('should find changes made through other references, and stop reporting', () => {
+      const { Service } = createClasses();
+      const watcher = new ReflectionClass(new Service()).watch();
+      Service.prototype.stop = () => 'direct';
+      assert.strictEqual(watcher.getEvents().length, 0);
+      assert.deepStrictEqual(watcher.getChanges().map((change) => change.message), ['stop: instance method replaced']);
+
+      watcher.stop();
+      assert.strictEqual(watcher.isActive(), false);
+      (watcher.getPrototype() as InstanceType<typeof Service>).start = () => 'after stop';
+      assert.strictEqual(watcher.getEvents().length, 0);
+      assert.strictEqual(new Service().start(), 'after stop');
+      assert.strictEqual(String(watcher), 'ClassWatcher for [Service]');
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import { ReflectionError } from "./errors.ts";
+import { registerProxy } from "./inspection.ts";
+import { formatKey, isBuiltinFunctionProperty, sortKeys, type MemberKey } from "./keys.ts";
+import { invalidate, isChainEnd } from "./member-cache.ts";
+import type { ReflectionClass } from "./reflection.ts";
+
+/**
+ * The side of a class a member belongs to.
+ */
+export type MemberSide = 'static' | 'instance';
+
+/**
+ * @interface MemberSnapshot
+ * @description A member as it was when a snapshot was taken.
+ */
+export interface MemberSnapshot {
+  side: MemberSide;
+  member: MemberKey;
+  kind: 'method' | 'property';
+  /** The class declaring the member, or null if it is not declared by a class. */
+  declaringClass: Function | null;
+  /** The descriptor, holding the method, accessor functions or value themselves, so replacements can be told apart. */
+  descriptor: PropertyDescriptor;
+}
+
+/**
+ * @interface ClassSnapshot
+ * @description The members of a class at one point in time, taken by `ReflectionClass#snapshot()`.
+ */
+export interface ClassSnapshot {
+  /** The name of the reflected class. */
+  target: string;
+  /** The instance members, then the static members, each side sorted by key. */
+  members: MemberSnapshot[];
+}
+
+/**
+ * How a member changed between two snapshots.
+ */
+export type MemberChangeType = 'added' | 'removed' | 'replaced';
+
+/**
+ * @interface SnapshotChange
+ * @description A member added, removed or replaced since a snapshot was taken.
+ */
+export interface SnapshotChange {
+  type: MemberChangeType;
+  side: MemberSide;
+  member: MemberKey;
+  kind: 'method' | 'property';
+  before: MemberSnapshot | null;
+  after: MemberSnapshot | null;
+  message: string;
+}
+
+/**
+ * The operation that changed a watched class.
+ */
+export type MutationOperation = 'set' | 'defineProperty' | 'deleteProperty';
+
+/**
+ * @interface MutationEvent
+ * @description A change made through a watched class or prototype.
+ */
+export interface MutationEvent {
+  type: MemberChangeType;
+  operation: MutationOperation;
+  side: MemberSide;
+  member: MemberKey;
+  kind: 'method' | 'property';
+  /** The descriptor a read resolved to before the change (own or inherited), or null if there was none. */
+  before: PropertyDescriptor | null;
+  /** The descriptor a read resolves to after the change, or null if there is none. */
+  after: PropertyDescriptor | null;
+  /** The stack trace of the code that made the change, without the frames of the watcher. */
+  stack: string;
+  message: string;
+}
+
+/**
+ * Takes a snapshot of the members visible through the two sides of a class.
+ * @param {string} target - The name of the class.
+ * @param {ReflectionClass|null} instanceSide - The reflection of the instance side.
+ * @param {ReflectionClass|null} staticSide - The reflection of the static side.
+ * @returns {ClassSnapshot} The snapshot.
+ */
+export function takeSnapshot(
+  target: string,
+  instanceSide: ReflectionClass<any> | null,
+  staticSide: ReflectionClass<any> | null
+): ClassSnapshot {
+  return { target, members: [...snapshotSide(instanceSide, 'instance'), ...snapshotSide(staticSide, 'static')] };
+}
+
+/**
+ * Lists the members of one side, resolved the way `getProperty()` and `getMethod()` resolve them.
+ * `constructor` and the built-in `length`, `name` and `prototype` are left out.
+ */
+function snapshotSide(reflection: ReflectionClass<any> | null, side: MemberSide): MemberSnapshot[] {
+  if (!reflection) return [];
+  const members: MemberSnapshot[] = [];
+  for (const key of sortKeys(reflection.getProperties({ includeSymbols: true }))) {
+    const property = key === 'constructor' ? null : reflection.getProperty(key);
+    if (!property || (side === 'static' && isBuiltinFunctionProperty(key, property.isEnumerable()))) continue;
+    members.push({
+      side,
+      member: key,
+      kind: reflection.getMethod(key) ? 'method' : 'property',
+      declaringClass: property.getDeclaringClass(),
+      descriptor: property.getDescriptor(),
+    });
+  }
+  return members;
+}
+
+/**
+ * Compares two snapshots of a class. A member is replaced when its descriptor changed (a different method,
+ * accessor function or value, or different flags), or when it is now declared by another class, e.g. an
+ * inherited method patched onto a subclass.
+ * @param {ClassSnapshot} before - The earlier snapshot.
+ * @param {ClassSnapshot} after - The later snapshot.
+ * @returns {SnapshotChange[]} The changes: removed and replaced members in the order of `before`, then added members.
+ */
+export function compareSnapshots(before: ClassSnapshot, after: ClassSnapshot): SnapshotChange[] {
+  const current: Record<MemberSide, Map<MemberKey, MemberSnapshot>> = { instance: new Map(), static: new Map() };
+  for (const member of after.members) current[member.side].set(member.member, member);
+
+  const changes: SnapshotChange[] = [];
+  for (const previous of before.members) {
+    const next = current[previous.side].get(previous.member);
+    current[previous.side].delete(previous.member);
+    if (!next) {
+      changes.push(change('removed', previous, null));
+    } else if (
+      next.kind !== previous.kind ||
+      next.declaringClass !== previous.declaringClass ||
+      !sameDescriptor(previous.descriptor, next.descriptor)
+    ) {
+      changes.push(change('replaced', previous, next));
+    }
+  }
+  for (const next of [...current.instance.values(), ...current.static.values()]) {
+    changes.push(change('added', null, next));
+  }
+  return changes;
+}
+
+/**
+ * Creates a change between two member snapshots.
+ */
+function change(type: MemberChangeType, before: MemberSnapshot | null, after: MemberSnapshot | null): SnapshotChange {
+  const member = (after ?? before)!;
+  let message = `${formatKey(member.member)}: ${member.side} ${member.kind} ${type}`;
+  if (before && after && before.declaringClass !== after.declaringClass) {
+    message += ` (declared by ${nameOf(after.declaringClass)} instead of ${nameOf(before.declaringClass)})`;
+  }
+  return { type, side: member.side, member: member.member, kind: member.kind, before, after, message };
+}
+
+/**
+ * Gets the name of a declaring class, for messages.
+ */
+function nameOf(type: Function | null): string {
+  return type?.name || '[Anonymous]';
+}
+
+/**
+ * Checks if two descriptors describe the same member: the same functions or value, and the same flags.
+ */
+function sameDescriptor(a: PropertyDescriptor, b: PropertyDescriptor): boolean {
+  return Object.is(a.value, b.value) && a.get === b.get && a.set === b.set &&
+    a.writable === b.writable && a.enumerable === b.enumerable && a.configurable === b.configurable;
+}
+
+/**
+ * Finds the descriptor a read of a key resolves to, and the object declaring it, stopping at built-in prototypes.
+ */
+function resolveDescriptor(start: object, key: PropertyKey): { holder: object; descriptor: PropertyDescriptor } | null {
+  for (let current: any = start; !isChainEnd(current); current = Object.getPrototypeOf(current)) {
+    const descriptor = Object.getOwnPropertyDescriptor(current, key);
+    if (descriptor) return { holder: current, descriptor };
+  }
+  return null;
+}
+
+/**
+ * Gets the stack trace of the code calling into a watched object, without the frames of this module.
+ */
+function callerStack(): string {
+  return (new Error().stack ?? '')
+    .split('\n')
+    .slice(1)
+    .filter((line) => !line.includes(import.meta.url))
+    .join('\n');
+}
+
+/**
+ * @class ClassWatcher
+ * @description Wraps a class and its prototype in proxies that report every change made through them:
+ * assignments, `Object.defineProperty()` and `delete`. Created by `ReflectionClass#watch()`.
+ * Hand the watched class to the code under test, e.g. to a plugin's `install()`.
+ * Only changes made through `getClass()` or `getPrototype()` are reported: the class itself is not watched,
+ * so code patching it directly (e.g. through its own import) emits no event and leaves no stack trace.
+ * `getChanges()` still finds those changes by comparing with the snapshot taken when watching started.
+ * @example
+ * ```ts
+ * const watcher = new ReflectionClass(App).watch((event) => console.warn(event.message, event.stack));
+ * plugin.install(watcher.getClass());
+ * watcher.stop();
+ * ```
+ */
+export class ClassWatcher {
+  /**
+   * @type {Function}
+   * @private
+   * The watched class.
+   */
+  private _target: Function;
+
+  /**
+   * @type {Function}
+   * @private
+   * The proxy standing in for the class.
+   */
+  private _class: Function;
+
+  /**
+   * @type {object}
+   * @private
+   * The proxy standing in for the prototype.
+   */
+  private _prototype: object;
+
+  /**
+   * @type {string}
+   * @private
+   * The name of the watched class, used in messages.
+   */
+  private _name: string;
+
+  /**
+   * @type {ClassSnapshot}
+   * @private
+   * The members of the class when watching started.
+   */
+  private _snapshot: ClassSnapshot;
+
+  /**
+   * @type {() => ClassSnapshot}
+   * @private
+   * Takes a new snapshot of the class.
+   */
+  private _takeSnapshot: () => ClassSnapshot;
+
+  /**
+   * @type {((event: MutationEvent) => void)|undefined}
+   * @private
+   * Called with every change made through the proxies.
+   */
+  private _listener: ((event: MutationEvent) => void) | undefined;
+
+  /**
+   * @type {MutationEvent[]}
+   * @private
+   * The changes made through the proxies so far.
+   */
+  private _events: MutationEvent[] = [];
+
+  /**
+   * @type {boolean}
+   * @private
+   * Whether changes are still reported.
+   */
+  private _active = true;
+
+  /**
+   * Creates an instance of ClassWatcher. Use `ReflectionClass#watch()` rather than calling this directly.
+   * @param {Function} target - The class to watch.
+   * @param {object} prototype - Its prototype.
+   * @param {string} name - The name of the class.
+   * @param {() => ClassSnapshot} takeSnapshot - Takes a snapshot of the class.
+   * @param {(event: MutationEvent) => void} [listener] - Called with every change made through the proxies.
+   */
+  constructor(
+    target: Function,
+    prototype: object,
+    name: string,
+    takeSnapshot: () => ClassSnapshot,
+    listener?: (event: MutationEvent) => void
+  ) {
+    this._target = target;
+    this._name = name;
+    this._takeSnapshot = takeSnapshot;
+    this._snapshot = takeSnapshot();
+    this._listener = listener;
+    this._prototype = new Proxy(prototype, this._traps('instance'));
+    this._class = this._wrapClass(target);
+    registerProxy(this._prototype, prototype);
+    registerProxy(this._class, target);
+  }
+
+  /**
+   * Gets the watched class. Its `prototype` is the watched prototype, and instances it creates are
+   * ordinary instances of the original class.
+   * @returns {Function} The proxy standing in for the class.
+   */
+  getClass(): Function {
+    return this._class;
+  }
+
+  /**
+   * Gets the watched prototype.
+   * @returns {object} The proxy standing in for the prototype.
+   */
+  getPrototype(): object {
+    return this._prototype;
+  }
+
+  /**
+   * Gets the changes made through the watched class and prototype so far.
+   * Changes made directly to the class are not included; see `getChanges()`.
+   * @returns {MutationEvent[]} The events, oldest first.
+   */
+  getEvents(): MutationEvent[] {
+    return this._events.slice();
+  }
+
+  /**
+   * Compares the class with the snapshot taken when watching started, which also finds
+   * changes made through other references to the class.
+   * @returns {SnapshotChange[]} The changes since watching started.
+   */
+  getChanges(): SnapshotChange[] {
+    return compareSnapshots(this._snapshot, this._takeSnapshot());
+  }
+
+  /**
+   * Checks if changes are still reported.
+   * @returns {boolean} False once `stop()` has been called.
+   */
+  isActive(): boolean {
+    return this._active;
+  }
+
+  /**
+   * Stops reporting changes. The proxies keep forwarding to the class and its prototype.
+   */
+  stop(): void {
+    this._active = false;
+  }
+
+  /**
+   * Returns a string representation of the watcher.
+   * @returns {string} A string describing the watcher.
+   */
+  toString(): string {
+    return `ClassWatcher for [${this._name}]`;
+  }
+
+  /**
+   * Creates the traps reporting changes to one side.
+   * @param {MemberSide} side - The side the proxied object holds.
+   * @returns {ProxyHandler<any>} The traps.
+   * @private
+   */
+  private _traps(side: MemberSide): ProxyHandler<any> {
+    const owner = () => side === 'static' ? this._class : this._prototype;
+    return {
+      // Assignments through objects inheriting from the proxy (e.g. subclass prototypes) change those objects
+      set: (target, key, value, receiver) => receiver === owner()
+        ? this._record(side, 'set', target, key, () => Reflect.set(target, key, value))
+        : Reflect.set(target, key, value, receiver),
+      defineProperty: (target, key, descriptor) =>
+        this._record(side, 'defineProperty', target, key, () => Reflect.defineProperty(target, key, descriptor)),
+      deleteProperty: (target, key) =>
+        this._record(side, 'deleteProperty', target, key, () => Reflect.deleteProperty(target, key)),
+    };
+  }
+
+  /**
+   * Wraps the class. A proxy must report the `prototype` of its target, which is non-writable for classes,
+   * so the proxy wraps a stand-in function whose `prototype` is the watched prototype and forwards
+   * everything else to the class. A proxy can only report non-configurable properties its target has too,
+   * so those are mirrored onto the stand-in, and the stand-in must stay extensible, so freezing, sealing
+   * or preventing extensions through the proxy is refused.
+   * @param {Function} target - The class.
+   * @returns {Function} The proxy.
+   * @throws {ReflectionError} From the proxy, when it is frozen, sealed or made non-extensible (`ERR_UNSUPPORTED_OPERATION`).
+   * @private
+   */
+  private _wrapClass(target: Function): Function {
+    const standIn = function () { };
+    Object.defineProperty(standIn, 'prototype', { value: this._prototype, writable: false });
+    const mirror = (key: PropertyKey): PropertyDescriptor | undefined => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+      if (descriptor && !descriptor.configurable) Reflect.defineProperty(standIn, key, descriptor);
+      return descriptor;
+    };
+    const traps = this._traps('static');
+    const proxy: Function = new Proxy(standIn, {
+      ...traps,
+      set: (_, key, value, receiver) => traps.set!(target, key, value, receiver),
+      defineProperty: (_, key, descriptor) => {
+        const succeeded = traps.defineProperty!(target, key, descriptor);
+        if (key !== 'prototype') mirror(key);
+        return succeeded;
+      },
+      deleteProperty: (_, key) => traps.deleteProperty!(target, key),
+      preventExtensions: () => {
+        throw new ReflectionError(
+          'ERR_UNSUPPORTED_OPERATION',
+          `Cannot freeze, seal or prevent extensions of ${this._name} through a watched class; do it on the class itself.`,
+          { target: this._name }
+        );
+      },
+      get: (_, key) => {
+        if (key === 'prototype') return this._prototype;
+        // Instances of the class inherit from the original prototype, not from the proxy
+        if (key === Symbol.hasInstance && !Object.hasOwn(target, key)) return (value: unknown) => value instanceof target;
+        return Reflect.get(target, key);
+      },
+      has: (_, key) => Reflect.has(target, key),
+      ownKeys: () => Reflect.ownKeys(target),
+      getOwnPropertyDescriptor: (_, key) => key === 'prototype'
+        ? Reflect.getOwnPropertyDescriptor(standIn, key)
+        : mirror(key),
+      getPrototypeOf: () => Reflect.getPrototypeOf(target),
+      apply: (_, self, args) => Reflect.apply(target, self, args),
+      construct: (_, args, newTarget) => Reflect.construct(target, args, newTarget === proxy ? target : newTarget),
+    });
+    return proxy;
+  }
+
+  /**
+   * Runs a change and reports it if it succeeded and changed what a read resolves to.
+   * @param {MemberSide} side - The side of the changed object.
+   * @param {MutationOperation} operation - The operation.
+   * @param {object} target - The changed object: the class or its prototype.
+   * @param {PropertyKey} key - The changed key.
+   * @param {() => boolean} apply - Performs the change.
+   * @returns {boolean} Whether the change succeeded.
+   * @private
+   */
+  private _record(side: MemberSide, operation: MutationOperation, target: object, key: PropertyKey, apply: () => boolean): boolean {
+    const before = resolveDescriptor(target, key);
+    const succeeded = apply();
+    if (!succeeded || !this._active) return succeeded;
+    invalidate(target);
+
+    const after = resolveDescriptor(target, key);
+    if (before && after && before.holder === after.holder && sameDescriptor(before.descriptor, after.descriptor)) {
+      return succeeded;
+    }
+    const type: MemberChangeType = !before ? 'added' : !after ? 'removed' : 'replaced';
+    const descriptor = (after ?? before)!.descriptor;
+    const kind = typeof descriptor.value === 'function' ? 'method' : 'property';
+    const event: MutationEvent = {
+      type,
+      operation,
+      side,
+      member: typeof key === 'number' ? String(key) : key,
+      kind,
+      before: before?.descriptor ?? null,
+      after: after?.descriptor ?? null,
+      stack: callerStack(),
+      message: `${formatKey(key)}: ${side} ${kind} ${type} (${operation})`,
+    };
+    this._events.push(event);
+    this._listener?.(event);
+    return succeeded;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { declaresConstructor, parseClassBody, parseClassSource } from "./source.ts";
+
+const members = (source: string) =>
+  parseClassSource(source)?.members.map((member) =>
+    `${member.isStatic ? 'static ' : ''}${member.kind} ${member.name}`
+  );
+
+describe('Source parsing', () => {
+  describe('parseClassSource()', () => {
+    it('should list fields, methods and accessors with their modifiers', () => {
+      assert.deepStrictEqual(members(`class A {
+        #secret = 1
+        static #count = 0;
+        accessor name = 'x'
+        static accessor #hidden = [1,
+          2]
+        get value() { return 1 }
+        set value(v) { }
+        async *gen() { }
+        #method() { }
+        get #priv() { return this.#secret }
+        constructor() { }
+      }`), [
+        'field #secret',
+        'static field #count',
+        'accessor name',
+        'static accessor #hidden',
+        'getter value',
+        'setter value',
+        'method gen',
+        'method #method',
+        'getter #priv',
+      ]);
+    });
+
+    it('should treat modifiers as names where the syntax does', () => {
+      assert.deepStrictEqual(members(`class A {
+        get() { }
+        static set = 3
+        static async
+        later() { }
+        accessor
+        plain = 1
+      }`), ['method get', 'static field set', 'static field async', 'method later', 'field accessor', 'field plain']);
+    });
+
+    it('should handle computed, quoted and numeric keys and multi-line initializers', () => {
+      assert.deepStrictEqual(members(`class A extends (Base) {
+        ['computed' + 1] = () => { return '}'; }
+        'quoted key'() { }
+        42 = 'n';
+        total = 1 +
+          2
+        other = foo
+          .bar
+        last
+        @decorate('x') decorated = 1;
+      }`), [
+        "field ['computed' + 1]",
+        'method quoted key',
+        'field 42',
+        'field total',
+        'field other',
+        'field last',
+        'field decorated',
+      ]);
+    });
+
+    it('should collect static blocks', () => {
+      const body = parseClassSource(`class A {
+        static x = 1;
+        static {
+          A.x++; // comment }
+        }
+        static { }
+      }`);
+      assert.deepStrictEqual(body?.staticBlocks, ['A.x++;', '']);
+    });
+
+    it('should return null for non-class sources', () => {
+      assert.strictEqual(parseClassSource('function A() { }'), null);
+      assert.strictEqual(parseClassBody(Math.max), null);
+    });
+  });
+
+  describe('declaresConstructor()', () => {
+    it('should detect implicit constructors', () => {
+      class Implicit { method() { } }
+      class Explicit { constructor() { } }
+      assert.strictEqual(declaresConstructor(Implicit), false);
+      assert.strictEqual(declaresConstructor(Explicit), true);
+      assert.strictEqual(declaresConstructor(function Legacy() { }), true);
+      assert.strictEqual(declaresConstructor(class Called { static y = Object.constructor('return 1'); }), false);
+    });
+  });
+});
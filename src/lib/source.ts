@@ -0,0 +1,548 @@
+/**
+ * Helpers for best-effort parsing of `Function.prototype.toString()` output.
+ * These do not implement a full JavaScript parser: they understand enough of the
+ * syntax (brackets, strings, template literals and comments) to locate and split
+ * parameter lists reliably for the shapes produced by engines.
+ */
+
+/**
+ * @interface ParsedParameter
+ * @description A single parameter as found in a function's source text.
+ */
+export interface ParsedParameter {
+  /** The parameter name, or the raw pattern text for destructured parameters. */
+  name: string;
+  /** True if the parameter declares a default value (`a = 1`). */
+  hasDefault: boolean;
+  /** True if the parameter is a rest parameter (`...args`). */
+  isRest: boolean;
+  /** True if the parameter is an object or array destructuring pattern. */
+  isDestructured: boolean;
+}
+
+/**
+ * The kind of a class member as found in the class source text, named like decorator context kinds.
+ */
+export type ParsedMemberKind = 'method' | 'getter' | 'setter' | 'field' | 'accessor';
+
+/**
+ * @interface ParsedClassMember
+ * @description A member declared in a class body, as found in the class source text.
+ */
+export interface ParsedClassMember {
+  /** The member name; private names keep their `#`, computed keys are written as `[expression]`. */
+  name: string;
+  kind: ParsedMemberKind;
+  isStatic: boolean;
+  isPrivate: boolean;
+}
+
+/**
+ * The syntactic form of a function, as found in its source text.
+ * `native` covers built-in, bound and proxied functions, whose source is a `[native code]` placeholder.
+ */
+export type FunctionSyntax = 'class' | 'function' | 'arrow' | 'method' | 'native';
+
+/**
+ * @interface ParsedClassBody
+ * @description The elements of a class body, as found in the class source text.
+ */
+export interface ParsedClassBody {
+  /** The members in declaration order, without the constructor. */
+  members: ParsedClassMember[];
+  /** The source text of each `static { }` block, without the braces. */
+  staticBlocks: string[];
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Gets the source text of a function, or an empty string if it cannot be read
+ * (for example on a revoked Proxy).
+ * @param {Function} fn - The function to read.
+ * @returns {string} The source text.
+ */
+export function getSource(fn: Function): string {
+  try {
+    return Function.prototype.toString.call(fn);
+  } catch (e) {
+    return '';
+  }
+}
+
+/**
+ * Checks if a function's source text is the `[native code]` placeholder.
+ * @param {string} source - The source text.
+ * @returns {boolean} True for native and bound functions.
+ */
+export function isNativeSource(source: string): boolean {
+  return /\{\s*\[native code\]\s*\}\s*$/.test(source);
+}
+
+/**
+ * Replaces comments with whitespace, leaving string and template contents intact.
+ * Offsets are preserved so indices into the result are valid in the original.
+ * @param {string} source - The source text.
+ * @returns {string} The source text without comments.
+ */
+export function stripComments(source: string): string {
+  let result = '';
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const end = skipString(source, i);
+      result += source.slice(i, end);
+      i = end;
+    } else if (ch === '/' && source[i + 1] === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      result += ' '.repeat(stop - i);
+      i = stop;
+    } else if (ch === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      result += source.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the index just past the string or template literal starting at `start`.
+ * @param {string} source - The source text.
+ * @param {number} start - Index of the opening quote.
+ * @returns {number} The index after the closing quote.
+ */
+export function skipString(source: string, start: number): number {
+  const quote = source[start];
+  let i = start + 1;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === quote) return i + 1;
+    if (quote === '`' && ch === '$' && source[i + 1] === '{') {
+      i = findMatching(source, i + 1) + 1;
+      continue;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+/**
+ * Finds the index of the bracket closing the one at `open`.
+ * @param {string} source - Comment-free source text.
+ * @param {number} open - Index of an opening `(`, `[` or `{`.
+ * @returns {number} Index of the matching closing bracket, or the source length if unbalanced.
+ */
+export function findMatching(source: string, open: number): number {
+  const stack: string[] = [OPENERS[source[open]]];
+  let i = open + 1;
+  while (i < source.length && stack.length > 0) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(source, i);
+      continue;
+    }
+    if (OPENERS[ch]) {
+      stack.push(OPENERS[ch]);
+    } else if (ch === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return i;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+/**
+ * Splits source text on a separator character, ignoring nested brackets and strings.
+ * @param {string} source - Comment-free source text.
+ * @param {string} separator - A single separator character.
+ * @returns {string[]} The top-level segments.
+ */
+export function splitTopLevel(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let last = 0;
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(source, i);
+      continue;
+    }
+    if (OPENERS[ch]) {
+      i = findMatching(source, i) + 1;
+      continue;
+    }
+    if (ch === separator) {
+      parts.push(source.slice(last, i));
+      last = i + 1;
+    }
+    i++;
+  }
+  parts.push(source.slice(last));
+  return parts;
+}
+
+/**
+ * Finds the index of the first top-level `=` that is an assignment (not `==` or `=>`).
+ * @param {string} source - Comment-free source text.
+ * @returns {number} The index, or -1 if there is none.
+ */
+function findAssignment(source: string): number {
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(source, i);
+      continue;
+    }
+    if (OPENERS[ch]) {
+      i = findMatching(source, i) + 1;
+      continue;
+    }
+    if (ch === '=' && source[i + 1] !== '=' && source[i + 1] !== '>') {
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+/**
+ * Extracts the raw parameter list text from a function's source.
+ * Handles function declarations and expressions, methods (including computed keys),
+ * arrow functions and classes (using the explicit constructor, if any).
+ * @param {string} source - The function source.
+ * @returns {string|null} The text between the parentheses, or null if it cannot be determined.
+ */
+export function extractParameterList(source: string): string | null {
+  const code = stripComments(source).trim();
+  if (code === '' || isNativeSource(code)) return null;
+
+  if (/^class\b/.test(code)) {
+    const bodyStart = findClassBody(code);
+    if (bodyStart === -1) return null;
+    const ctor = findClassMember(code, bodyStart, 'constructor');
+    if (ctor === -1) return null;
+    const open = code.indexOf('(', ctor);
+    return code.slice(open + 1, findMatching(code, open));
+  }
+
+  // Single-parameter arrow function without parentheses: `x => ...` or `async x => ...`
+  const bareArrow = /^(?:async\s+)?([A-Za-z_$][\w$]*)\s*=>/.exec(code);
+  if (bareArrow) return bareArrow[1];
+
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(code, i);
+      continue;
+    }
+    if (ch === '[') {
+      // Computed method key, e.g. `[Symbol.iterator]() {}`
+      i = findMatching(code, i) + 1;
+      continue;
+    }
+    if (ch === '(') {
+      return code.slice(i + 1, findMatching(code, i));
+    }
+    if (ch === '{' || ch === '=') return null;
+    i++;
+  }
+  return null;
+}
+
+/**
+ * Determines the syntactic form of a function from its source text: a class, a `function`
+ * declaration or expression (generators and async functions included), an arrow function,
+ * or a method (object and class methods, getters and setters).
+ * @param {string} source - The function source.
+ * @returns {FunctionSyntax} The syntactic form; `native` if the source is unavailable.
+ */
+export function getFunctionSyntax(source: string): FunctionSyntax {
+  const code = stripComments(source).trim();
+  if (code === '' || isNativeSource(code)) return 'native';
+  if (/^class\b/.test(code)) return 'class';
+  if (/^(?:async\s+)?function\b/.test(code)) return 'function';
+  if (/^(?:async\s+)?[A-Za-z_$][\w$]*\s*=>/.test(code)) return 'arrow';
+
+  // Arrow functions and methods both start with an optional prefix and a parameter list;
+  // only arrow functions continue with `=>`
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(code, i);
+      continue;
+    }
+    if (ch === '[') {
+      i = findMatching(code, i) + 1;
+      continue;
+    }
+    if (ch === '(') {
+      const rest = code.slice(findMatching(code, i) + 1).trimStart();
+      return rest.startsWith('=>') ? 'arrow' : 'method';
+    }
+    i++;
+  }
+  return 'method';
+}
+
+/**
+ * Finds the index of the `{` opening a class body.
+ * @param {string} code - Comment-free class source starting with `class`.
+ * @returns {number} The index, or -1 if not found.
+ */
+export function findClassBody(code: string): number {
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(code, i);
+      continue;
+    }
+    if (ch === '(' || ch === '[') {
+      // Parenthesised or computed `extends` expressions
+      i = findMatching(code, i) + 1;
+      continue;
+    }
+    if (ch === '{') return i;
+    i++;
+  }
+  return -1;
+}
+
+/**
+ * Finds a member declared at the top level of a class body by identifier.
+ * @param {string} code - Comment-free class source.
+ * @param {number} bodyStart - Index of the `{` opening the class body.
+ * @param {string} name - The member identifier to look for.
+ * @returns {number} The index of the identifier, or -1 if not found.
+ */
+export function findClassMember(code: string, bodyStart: number, name: string): number {
+  const bodyEnd = findMatching(code, bodyStart);
+  let i = bodyStart + 1;
+  while (i < bodyEnd) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(code, i);
+      continue;
+    }
+    if (OPENERS[ch]) {
+      i = findMatching(code, i) + 1;
+      continue;
+    }
+    // Calls such as `Object.constructor(...)` in field initializers are not members
+    if (
+      code.startsWith(name, i) &&
+      !/[\w$#]/.test(code[i - 1]) &&
+      !/\.\s*$/.test(code.slice(bodyStart, i)) &&
+      /^\s*\(/.test(code.slice(i + name.length))
+    ) {
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+/**
+ * Checks if a class declares its own constructor instead of relying on the implicit one.
+ * @param {Function} fn - The class or function to inspect.
+ * @returns {boolean} False only for classes whose source has no `constructor`; true for plain functions
+ * and for sources that cannot be inspected.
+ */
+export function declaresConstructor(fn: Function): boolean {
+  const code = stripComments(getSource(fn)).trim();
+  if (!/^class\b/.test(code)) return true;
+  const bodyStart = findClassBody(code);
+  return bodyStart === -1 || findClassMember(code, bodyStart, 'constructor') !== -1;
+}
+
+/**
+ * Returns the index of the first non-whitespace character at or after `start`.
+ */
+function skipWhitespace(code: string, start: number, end: number): number {
+  let i = start;
+  while (i < end && /\s/.test(code[i])) i++;
+  return i;
+}
+
+/**
+ * Reads a class element name at `start`: an identifier, a private name, a string or numeric literal,
+ * or a computed key.
+ * @returns {{name: string, end: number}|null} The name and the index after it, or null if there is none.
+ */
+function readMemberName(code: string, start: number): { name: string; end: number } | null {
+  const ch = code[start];
+  if (ch === '[') {
+    const end = findMatching(code, start) + 1;
+    return { name: `[${code.slice(start + 1, end - 1).trim()}]`, end };
+  }
+  if (ch === '"' || ch === "'") {
+    const end = skipString(code, start);
+    return { name: code.slice(start + 1, end - 1), end };
+  }
+  const match = /^#?[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*|^[\d.][\w.]*/u.exec(code.slice(start));
+  return match ? { name: match[0], end: start + match[0].length } : null;
+}
+
+/**
+ * Reads the next token of a class element head: a member name or the generator `*`.
+ */
+function readElementToken(code: string, start: number): { name: string; end: number } | null {
+  return code[start] === '*' ? { name: '*', end: start + 1 } : readMemberName(code, start);
+}
+
+const MODIFIERS = ['static', 'async', 'get', 'set', 'accessor'];
+
+/**
+ * Finds the end of a field initializer, applying the automatic semicolon insertion rules
+ * well enough for typical code: a line break ends the field unless the expression clearly continues.
+ * @returns {number} The index of the terminating `;` or line break, or `end`.
+ */
+function findFieldEnd(code: string, start: number, end: number): number {
+  let i = start;
+  let last = '=';
+  while (i < end) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(code, i);
+      last = ch;
+      continue;
+    }
+    if (OPENERS[ch]) {
+      i = findMatching(code, i) + 1;
+      last = OPENERS[ch];
+      continue;
+    }
+    if (ch === ';') return i;
+    if (ch === '\n') {
+      const next = code[skipWhitespace(code, i, end)] ?? '';
+      if (!/[=+\-*/%&|^!~?:,.<>(]/.test(last) && !/[=+\-*/%&|^?:,.<>([]/.test(next)) return i;
+    }
+    if (!/\s/.test(ch)) last = ch;
+    i++;
+  }
+  return end;
+}
+
+/**
+ * Parses the members and static blocks of a class from its source text.
+ * @param {Function} fn - The class to inspect.
+ * @returns {ParsedClassBody|null} The class body, or null if the source is unavailable or not a class.
+ */
+export function parseClassBody(fn: Function): ParsedClassBody | null {
+  return parseClassSource(getSource(fn));
+}
+
+/**
+ * Parses the members and static blocks of a class source text.
+ * Best effort: enough for the shapes produced by engines, but not a full JavaScript parser
+ * (regular expression literals containing quotes or brackets may confuse it).
+ * @param {string} source - The class source.
+ * @returns {ParsedClassBody|null} The class body, or null if the source is not a class.
+ */
+export function parseClassSource(source: string): ParsedClassBody | null {
+  const code = stripComments(source).trim();
+  if (!/^class\b/.test(code)) return null;
+  const bodyStart = findClassBody(code);
+  if (bodyStart === -1) return null;
+  const bodyEnd = findMatching(code, bodyStart);
+
+  const body: ParsedClassBody = { members: [], staticBlocks: [] };
+  let i = bodyStart + 1;
+  while ((i = skipWhitespace(code, i, bodyEnd)) < bodyEnd) {
+    if (code[i] === ';') {
+      i++;
+      continue;
+    }
+    const decorator = /^@[\w$.]+\s*/.exec(code.slice(i));
+    if (decorator) {
+      i += decorator[0].length;
+      if (code[i] === '(') i = findMatching(code, i) + 1;
+      continue;
+    }
+    const staticBlock = /^static\s*\{/.exec(code.slice(i));
+    if (staticBlock) {
+      const open = i + staticBlock[0].length - 1;
+      const close = findMatching(code, open);
+      body.staticBlocks.push(code.slice(open + 1, close).trim());
+      i = close + 1;
+      continue;
+    }
+
+    let isStatic = false;
+    let kind: ParsedMemberKind = 'method';
+    let token = readElementToken(code, i);
+    // A modifier is only a modifier when another token follows it, e.g. `get() {}` is a method named get
+    while (token && MODIFIERS.includes(token.name)) {
+      const nextStart = skipWhitespace(code, token.end, bodyEnd);
+      const next = readElementToken(code, nextStart);
+      const lineBreak = code.slice(token.end, nextStart).includes('\n');
+      if (!next || ((token.name === 'async' || token.name === 'accessor') && lineBreak)) break;
+      if (token.name === 'static') isStatic = true;
+      else if (token.name === 'get') kind = 'getter';
+      else if (token.name === 'set') kind = 'setter';
+      else if (token.name === 'accessor') kind = 'accessor';
+      token = next;
+    }
+    if (token?.name === '*') {
+      token = readElementToken(code, skipWhitespace(code, token.end, bodyEnd));
+    }
+    if (!token) {
+      // Not something we understand: skip a character and try again
+      i++;
+      continue;
+    }
+
+    const after = skipWhitespace(code, token.end, bodyEnd);
+    if (code[after] === '(') {
+      const blockStart = skipWhitespace(code, findMatching(code, after) + 1, bodyEnd);
+      i = code[blockStart] === '{' ? findMatching(code, blockStart) + 1 : blockStart;
+      if (token.name === 'constructor' && !isStatic) continue;
+    } else {
+      if (kind !== 'accessor') kind = 'field';
+      i = code[after] === '=' ? findFieldEnd(code, after + 1, bodyEnd) : after;
+    }
+    body.members.push({ name: token.name, kind, isStatic, isPrivate: token.name.startsWith('#') });
+  }
+  return body;
+}
+
+/**
+ * Parses the parameters of a function from its source text.
+ * @param {Function} fn - The function to inspect.
+ * @returns {ParsedParameter[]} The parsed parameters, or an empty array if the source is unavailable.
+ */
+export function parseParameters(fn: Function): ParsedParameter[] {
+  const list = extractParameterList(getSource(fn));
+  if (list === null || list.trim() === '') return [];
+
+  return splitTopLevel(list, ',')
+    .map((raw) => raw.trim())
+    .filter((raw) => raw !== '')
+    .map((raw) => {
+      const isRest = raw.startsWith('...');
+      const pattern = isRest ? raw.slice(3).trim() : raw;
+      const assignment = findAssignment(pattern);
+      const name = (assignment === -1 ? pattern : pattern.slice(0, assignment)).trim();
+      return {
+        name,
+        hasDefault: assignment !== -1,
+        isRest,
+        isDestructured: name.startsWith('{') || name.startsWith('['),
+      };
+    });
+}
@@ -0,0 +1,173 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { clone, diff, equals } from "./structure.ts";
+
+class Money {
+  amount: number;
+  currency: string;
+  constructor(amount: number, currency = 'EUR') {
+    this.amount = amount;
+    this.currency = currency;
+  }
+  get label(): string { return `${this.amount} ${this.currency}`; }
+}
+
+class OrderLine {
+  sku: string;
+  quantity: number;
+  price: Money;
+  constructor(sku: string, quantity: number, price: Money) {
+    this.sku = sku;
+    this.quantity = quantity;
+    this.price = price;
+  }
+}
+
+class Order {
+  lines: OrderLine[] = [];
+  tags = new Set<string>();
+  stock = new Map<string, number>();
+  createdAt = new Date(0);
+  note?: string;
+  total(): number { return this.lines.reduce((sum, line) => sum + line.quantity * line.price.amount, 0); }
+}
+
+function createOrder(): Order {
+  const order = new Order();
+  order.lines.push(new OrderLine('A1', 1, new Money(10)), new OrderLine('B2', 2, new Money(5)));
+  order.tags.add('gift');
+  order.stock.set('A1', 3);
+  Object.defineProperty(order, 'revision', { value: 1, writable: true, enumerable: false, configurable: true });
+  return order;
+}
+
+describe('Structure', () => {
+  describe('clone()', () => {
+    it('should keep the class, non-enumerable and symbol-keyed properties', () => {
+      const key = Symbol('audit');
+      const order = createOrder();
+      (order as any)[key] = 'created';
+      const copy = clone(order);
+      assert.ok(copy instanceof Order);
+      assert.notStrictEqual(copy, order);
+      assert.strictEqual(copy.total(), 20);
+      assert.deepStrictEqual(Object.getOwnPropertyDescriptor(copy, 'revision'), { value: 1, writable: true, enumerable: false, configurable: true });
+      assert.strictEqual((copy as any)[key], 'created');
+      assert.strictEqual(copy.lines, order.lines);
+    });
+
+    it('should copy own accessors and keep getters on the prototype working', () => {
+      const money = new Money(3);
+      let reads = 0;
+      Object.defineProperty(money, 'cents', { get() { reads++; return this.amount * 100; }, enumerable: true, configurable: true });
+      const copy = clone(money);
+      assert.strictEqual(reads, 0);
+      assert.strictEqual(copy.label, '3 EUR');
+      copy.amount = 4;
+      assert.strictEqual((copy as any).cents, 400);
+      assert.strictEqual((money as any).cents, 300);
+    });
+
+    it('should clone nested objects and built-ins when deep', () => {
+      const order = createOrder();
+      const copy = clone(order, { deep: true });
+      assert.notStrictEqual(copy.lines, order.lines);
+      assert.ok(Array.isArray(copy.lines));
+      assert.ok(copy.lines[0].price instanceof Money);
+      assert.notStrictEqual(copy.lines[0].price, order.lines[0].price);
+      assert.ok(copy.tags instanceof Set && copy.tags.has('gift'));
+      assert.notStrictEqual(copy.stock, order.stock);
+      assert.strictEqual(copy.stock.get('A1'), 3);
+      assert.ok(copy.createdAt instanceof Date && copy.createdAt !== order.createdAt);
+      assert.strictEqual(copy.createdAt.getTime(), 0);
+      copy.lines[0].quantity = 5;
+      assert.strictEqual(order.lines[0].quantity, 1);
+    });
+
+    it('should preserve shared and circular references', () => {
+      const price = new Money(1);
+      const node: any = { first: price, second: price, bytes: new Uint8Array([1, 2]), pattern: /a/gi };
+      node.self = node;
+      const copy = clone(node, { deep: true });
+      assert.strictEqual(copy.self, copy);
+      assert.strictEqual(copy.first, copy.second);
+      assert.notStrictEqual(copy.first, price);
+      assert.deepStrictEqual(Array.from(copy.bytes), [1, 2]);
+      assert.notStrictEqual(copy.bytes.buffer, node.bytes.buffer);
+      assert.strictEqual(copy.pattern.flags, 'gi');
+    });
+
+    it('should keep objects frozen', () => {
+      const copy = clone(Object.freeze(new Money(1)));
+      assert.ok(Object.isFrozen(copy));
+    });
+
+    it('should reject objects whose state cannot be copied', () => {
+      class Account {
+        #balance = 0;
+        get balance(): number { return this.#balance; }
+      }
+      class Savings extends Account { }
+      assert.throws(() => clone({ account: new Savings() }, { deep: true }), {
+        name: 'InvalidArgumentError',
+        code: 'ERR_INVALID_ARGUMENT',
+        message: 'Cannot clone Account at account: its #private members only exist on instances its constructor created.',
+      });
+      assert.throws(() => clone(new WeakMap()), /Cannot clone WeakMap at \(root\)/);
+      assert.strictEqual(clone({ account: new Savings() }).account instanceof Savings, true);
+    });
+  });
+
+  describe('equals()', () => {
+    it('should compare structure and class identity', () => {
+      assert.strictEqual(equals(createOrder(), createOrder()), true);
+      assert.strictEqual(equals(createOrder(), clone(createOrder(), { deep: true })), true);
+      assert.strictEqual(equals(new Money(1), { amount: 1, currency: 'EUR' }), false);
+      assert.strictEqual(equals(new Money(1), new Money(2)), false);
+      assert.strictEqual(equals(NaN, NaN), true);
+      assert.strictEqual(equals([1, 2], [1, 2, 3]), false);
+      assert.strictEqual(equals(new Set([new Money(1)]), new Set([new Money(1)])), true);
+      assert.strictEqual(equals(new Date(1), new Date(2)), false);
+    });
+
+    it('should compare non-enumerable properties and handle cycles', () => {
+      const a = createOrder();
+      const b = createOrder();
+      (b as any).revision = 2;
+      assert.strictEqual(equals(a, b), false);
+
+      const x: any = { name: 'x' };
+      x.self = x;
+      const y: any = { name: 'x' };
+      y.self = y;
+      assert.strictEqual(equals(x, y), true);
+    });
+  });
+
+  describe('diff()', () => {
+    it('should list changes by path', () => {
+      const before = createOrder();
+      const after = clone(before, { deep: true });
+      after.lines[1].quantity = 3;
+      after.lines.push(new OrderLine('C3', 1, new Money(1)));
+      after.stock.delete('A1');
+      after.tags.add('express');
+      after.note = 'leave at door';
+      assert.deepStrictEqual(diff(before, after), [
+        { type: 'changed', path: ['lines', 1, 'quantity'], before: 2, after: 3 },
+        { type: 'added', path: ['lines', 2], after: after.lines[2] },
+        { type: 'added', path: ['tags'], after: 'express' },
+        { type: 'removed', path: ['stock', 'A1'], before: 3 },
+        { type: 'changed', path: ['note'], before: undefined, after: 'leave at door' },
+      ]);
+    });
+
+    it('should report values of different classes as one change', () => {
+      const price = new Money(1);
+      const changes = diff({ price }, { price: { amount: 1, currency: 'EUR' } });
+      assert.deepStrictEqual(changes.map((change) => [change.type, change.path]), [['changed', ['price']]]);
+      assert.strictEqual(changes[0].before, price);
+      assert.deepStrictEqual(diff(createOrder(), createOrder()), []);
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import { InvalidArgumentError } from "./errors.ts";
+import { formatKey } from "./keys.ts";
+import { isChainEnd } from "./member-cache.ts";
+import { ReflectionClass } from "./reflection.ts";
+
+/**
+ * @interface CloneOptions
+ * @description Options accepted by `clone()`.
+ */
+export interface CloneOptions {
+  /** Clone nested objects too, instead of sharing them with the original. Defaults to false. */
+  deep?: boolean;
+}
+
+/**
+ * @interface InstanceChange
+ * @description A single difference between two values, found by `diff()`.
+ */
+export interface InstanceChange {
+  type: 'added' | 'removed' | 'changed';
+  /**
+   * Where the change is, from the root down: property keys, array indexes and Map keys.
+   * Empty for the root itself. Set items are reported at the path of the Set.
+   */
+  path: unknown[];
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Built-in objects whose state lives in internal slots rather than in properties.
+ */
+type Builtin = 'Array' | 'Date' | 'RegExp' | 'Map' | 'Set' | 'ArrayBuffer' | 'DataView' | 'TypedArray' | 'Opaque';
+
+/**
+ * The state of a single `equals()` or `diff()` call.
+ */
+interface Comparison {
+  /** The changes found so far, or null to stop at the first difference. */
+  changes: InstanceChange[] | null;
+  /** The pairs of objects being compared, so cycles are compared once. */
+  pairs: Map<object, Set<object>>;
+}
+
+/**
+ * Reads a built-in getter (or method) once, so later changes to the prototype cannot affect it.
+ */
+function intrinsic(owner: object, key: PropertyKey, part: 'get' | 'value' = 'get'): Function {
+  return Object.getOwnPropertyDescriptor(owner, key)![part];
+}
+
+/**
+ * Getters and methods that only work on one kind of built-in object, used as cross-realm brand checks.
+ */
+const BRAND_CHECKS: [Builtin, Function, unknown[]][] = [
+  ['Date', intrinsic(Date.prototype, 'getTime', 'value'), []],
+  ['RegExp', intrinsic(RegExp.prototype, 'source'), []],
+  ['Map', intrinsic(Map.prototype, 'size'), []],
+  ['Set', intrinsic(Set.prototype, 'size'), []],
+  ['ArrayBuffer', intrinsic(ArrayBuffer.prototype, 'byteLength'), []],
+  ['DataView', intrinsic(DataView.prototype, 'byteLength'), []],
+  ['Opaque', intrinsic(WeakMap.prototype, 'has', 'value'), [{}]],
+  ['Opaque', intrinsic(WeakSet.prototype, 'has', 'value'), [{}]],
+  ['Opaque', intrinsic(WeakRef.prototype, 'deref', 'value'), []],
+];
+
+/**
+ * The `Symbol.toStringTag` getter shared by all typed arrays; it returns the typed array kind.
+ */
+const typedArrayTag = intrinsic(Object.getPrototypeOf(Int8Array.prototype), Symbol.toStringTag);
+
+/**
+ * Prototypes already checked for private state, with the name of the offending class (or null).
+ */
+const privateState = new WeakMap<object, string | null>();
+
+/**
+ * Copies an object, keeping its prototype (so it stays an instance of its class), its accessors and its
+ * non-enumerable and symbol-keyed properties, with their descriptors. Frozen, sealed and non-extensible
+ * objects stay so. Arrays, Dates, RegExps, Maps, Sets, ArrayBuffers and typed arrays are copied with their
+ * contents. By default nested objects are shared with the original; with `{ deep: true }` they are cloned
+ * too, and shared or circular references are preserved. Primitives and functions are returned as they are.
+ * @example
+ * ```ts
+ * const snapshot = clone(order, { deep: true });
+ * snapshot instanceof Order; // true
+ * ```
+ * @param {T} value - The value to clone.
+ * @param {CloneOptions} [options] - The clone options.
+ * @returns {T} The copy.
+ * @throws {InvalidArgumentError} If an object carries state that cannot be copied: `#private` members or auto-accessors
+ * of its class, or the contents of a WeakMap, WeakSet or WeakRef.
+ */
+export function clone<T>(value: T, options: CloneOptions = {}): T {
+  return cloneValue(value, options.deep === true, new Map(), []) as T;
+}
+
+/**
+ * Checks if two values are structurally equal: primitives are compared with SameValueZero (so `NaN`
+ * equals `NaN`), functions by identity, and objects must have the same prototype (so instances of
+ * different classes are never equal) and equal own properties, including non-enumerable and
+ * symbol-keyed ones. The contents of built-in objects (see `clone()`) are compared too.
+ * Accessors are compared by identity of their getter and setter, and are never invoked.
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {boolean} True if the values are equal.
+ */
+export function equals(a: unknown, b: unknown): boolean {
+  return compare(a, b, [], { changes: null, pairs: new Map() });
+}
+
+/**
+ * Lists the differences between two values, compared as `equals()` compares them.
+ * Values of different classes or kinds are reported as one change at their path.
+ * @example
+ * ```ts
+ * diff(before, after);
+ * // [{ type: 'changed', path: ['lines', 0, 'quantity'], before: 1, after: 2 }, { type: 'added', path: ['note'], after: 'gift' }]
+ * ```
+ * @param {unknown} before - The old value.
+ * @param {unknown} after - The new value.
+ * @returns {InstanceChange[]} The changes, depth first in the order of the old value's properties,
+ * with additions after the properties of each object; empty if the values are equal.
+ */
+export function diff(before: unknown, after: unknown): InstanceChange[] {
+  const changes: InstanceChange[] = [];
+  compare(before, after, [], { changes, pairs: new Map() });
+  return changes;
+}
+
+/**
+ * Finds the kind of built-in object, if any. Brand checks work for objects from other realms,
+ * unlike `instanceof`.
+ */
+function builtinOf(value: object): Builtin | null {
+  if (Array.isArray(value)) return 'Array';
+  if (typedArrayTag.call(value) !== undefined) return 'TypedArray';
+  for (const [builtin, check, args] of BRAND_CHECKS) {
+    try {
+      check.apply(value, args);
+      return builtin;
+    } catch {
+      // Not this kind of object
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks if a key is an array index.
+ */
+function isIndex(key: PropertyKey): key is string {
+  return typeof key === 'string' && /^(?:0|[1-9]\d*)$/.test(key) && Number(key) < 2 ** 32 - 1;
+}
+
+/**
+ * Formats a path for messages.
+ */
+function formatPath(path: unknown[]): string {
+  return path.length > 0 ? path.map((key) => formatKey(key as PropertyKey)).join('.') : '(root)';
+}
+
+/**
+ * Finds the class in an object's prototype chain whose instances carry `#private` state: instance
+ * private members or auto-accessors, which only the class constructor can create.
+ * @param {object} value - The object to check.
+ * @returns {string|null} The class name, or null if no class declares private state.
+ */
+function classWithPrivateState(value: object): string | null {
+  const prototype = Object.getPrototypeOf(value);
+  if (isChainEnd(prototype)) return null;
+  const known = privateState.get(prototype);
+  if (known !== undefined) return known;
+
+  let found = classWithPrivateState(prototype);
+  const type = Object.getOwnPropertyDescriptor(prototype, 'constructor')?.value;
+  if (found === null && typeof type === 'function' && type.prototype === prototype) {
+    const reflection = new ReflectionClass(type);
+    const members = [...reflection.getPrivateMembers(), ...reflection.getAutoAccessors()];
+    if (members.some((member) => !member.isStatic)) found = reflection.getName();
+  }
+  privateState.set(prototype, found);
+  return found;
+}
+
+/**
+ * Clones a value, recursing into nested objects when `deep` is set.
+ */
+function cloneValue(value: unknown, deep: boolean, copies: Map<object, object>, path: unknown[]): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  const existing = copies.get(value);
+  if (existing) return existing;
+
+  const owner = classWithPrivateState(value);
+  if (owner !== null) {
+    throw new InvalidArgumentError(`Cannot clone ${owner} at ${formatPath(path)}: its #private members only exist on instances its constructor created.`, {
+      target: owner,
+    });
+  }
+  const builtin = builtinOf(value);
+  if (builtin === 'Opaque') {
+    const name = new ReflectionClass(value).getName();
+    throw new InvalidArgumentError(`Cannot clone ${name} at ${formatPath(path)}: its contents cannot be read.`, { target: name });
+  }
+
+  const nested = (item: unknown, key: unknown) => deep ? cloneValue(item, deep, copies, [...path, key]) : item;
+  const prototype = Object.getPrototypeOf(value);
+  let copy: any;
+  switch (builtin) {
+    case 'Array':
+      copy = new Array((value as unknown[]).length);
+      break;
+    case 'Date':
+      copy = new Date((value as Date).getTime());
+      break;
+    case 'RegExp':
+      copy = new RegExp((value as RegExp).source, (value as RegExp).flags);
+      break;
+    case 'Map':
+      copy = new Map();
+      break;
+    case 'Set':
+      copy = new Set();
+      break;
+    case 'ArrayBuffer':
+      copy = ArrayBuffer.prototype.slice.call(value, 0);
+      break;
+    case 'DataView': {
+      const view = value as DataView;
+      copy = new DataView(ArrayBuffer.prototype.slice.call(view.buffer, view.byteOffset, view.byteOffset + view.byteLength));
+      break;
+    }
+    case 'TypedArray':
+      copy = new (globalThis as any)[typedArrayTag.call(value)](value);
+      break;
+    default:
+      copy = Object.create(prototype);
+  }
+  if (Object.getPrototypeOf(copy) !== prototype) Object.setPrototypeOf(copy, prototype);
+  copies.set(value, copy);
+
+  // Entries are read through the original realm's methods, so objects from other realms work too
+  if (builtin === 'Map') {
+    for (const [key, item] of (value as Map<unknown, unknown>)) Map.prototype.set.call(copy, key, nested(item, key));
+  } else if (builtin === 'Set') {
+    let index = 0;
+    for (const item of (value as Set<unknown>)) Set.prototype.add.call(copy, nested(item, index++));
+  }
+
+  for (const key of Reflect.ownKeys(value)) {
+    if (builtin === 'Array' && key === 'length') continue;
+    if (builtin === 'TypedArray' && isIndex(key)) continue;
+    const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+    if ('value' in descriptor) {
+      descriptor.value = nested(descriptor.value, builtin === 'Array' && isIndex(key) ? Number(key) : key);
+    }
+    Object.defineProperty(copy, key, descriptor);
+  }
+
+  if (Object.isFrozen(value)) Object.freeze(copy);
+  else if (Object.isSealed(value)) Object.seal(copy);
+  else if (!Object.isExtensible(value)) Object.preventExtensions(copy);
+  return copy;
+}
+
+/**
+ * Records a difference. Returns false, so callers can `return record(...)`.
+ */
+function record(comparison: Comparison, change: InstanceChange): false {
+  comparison.changes?.push(change);
+  return false;
+}
+
+/**
+ * Compares two values, recording the differences when the comparison collects them.
+ * Without a change list, stops at the first difference.
+ * @returns {boolean} True if the values are equal.
+ */
+function compare(a: unknown, b: unknown, path: unknown[], comparison: Comparison): boolean {
+  if (a === b || (a !== a && b !== b)) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return record(comparison, { type: 'changed', path, before: a, after: b });
+  }
+  const compared = comparison.pairs.get(a);
+  if (compared?.has(b)) return true;
+  if (compared) compared.add(b);
+  else comparison.pairs.set(a, new Set([b]));
+
+  const builtin = builtinOf(a);
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b) || builtin !== builtinOf(b) || builtin === 'Opaque') {
+    return record(comparison, { type: 'changed', path, before: a, after: b });
+  }
+  if (!sameContents(a, b, builtin)) {
+    return record(comparison, { type: 'changed', path, before: a, after: b });
+  }
+
+  let equal = true;
+  const check = (result: boolean) => {
+    equal &&= result;
+    return result || comparison.changes !== null;
+  };
+  if (builtin === 'Map' && !compareMaps(a as Map<unknown, unknown>, b as Map<unknown, unknown>, path, comparison, check)) return false;
+  if (builtin === 'Set' && !compareSets(a as Set<unknown>, b as Set<unknown>, path, comparison, check)) return false;
+
+  // Array indexes are reported as numbers; array lengths follow from the indexes
+  const skip = (key: PropertyKey) => (builtin === 'Array' && key === 'length') || (builtin === 'TypedArray' && isIndex(key));
+  const keyOf = (key: PropertyKey) => builtin === 'Array' && isIndex(key) ? Number(key) : key;
+  for (const key of Reflect.ownKeys(a)) {
+    if (skip(key)) continue;
+    const before = Object.getOwnPropertyDescriptor(a, key)!;
+    const after = Object.getOwnPropertyDescriptor(b, key);
+    const memberPath = [...path, keyOf(key)];
+    let result: boolean;
+    if (!after) {
+      result = record(comparison, { type: 'removed', path: memberPath, before: 'value' in before ? before.value : before });
+    } else if ('value' in before && 'value' in after) {
+      result = compare(before.value, after.value, memberPath, comparison);
+    } else {
+      result = before.get === after.get && before.set === after.set ||
+        record(comparison, { type: 'changed', path: memberPath, before: 'value' in before ? before.value : before, after: 'value' in after ? after.value : after });
+    }
+    if (!check(result)) return false;
+  }
+  for (const key of Reflect.ownKeys(b)) {
+    if (skip(key) || Object.hasOwn(a, key)) continue;
+    const after = Object.getOwnPropertyDescriptor(b, key)!;
+    if (!check(record(comparison, { type: 'added', path: [...path, keyOf(key)], after: 'value' in after ? after.value : after }))) return false;
+  }
+  return equal;
+}
+
+/**
+ * Compares the internal state of built-in objects that is not covered by their properties.
+ * Map and Set entries are compared separately, so their differences are reported one by one.
+ */
+function sameContents(a: object, b: object, builtin: Builtin | null): boolean {
+  switch (builtin) {
+    case 'Date':
+      return Object.is((a as Date).getTime(), (b as Date).getTime());
+    case 'RegExp':
+      return (a as RegExp).source === (b as RegExp).source && (a as RegExp).flags === (b as RegExp).flags;
+    case 'ArrayBuffer':
+      return sameBytes(new Uint8Array(a as ArrayBuffer), new Uint8Array(b as ArrayBuffer));
+    case 'DataView':
+    case 'TypedArray': {
+      const [viewA, viewB] = [a as ArrayBufferView, b as ArrayBufferView];
+      if (builtin === 'TypedArray' && typedArrayTag.call(a) !== typedArrayTag.call(b)) return false;
+      return sameBytes(
+        new Uint8Array(viewA.buffer, viewA.byteOffset, viewA.byteLength),
+        new Uint8Array(viewB.buffer, viewB.byteOffset, viewB.byteLength)
+      );
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Compares two byte sequences.
+ */
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+/**
+ * Compares Map entries by key; keys are matched the way the Map matches them.
+ */
+function compareMaps(
+  a: Map<unknown, unknown>,
+  b: Map<unknown, unknown>,
+  path: unknown[],
+  comparison: Comparison,
+  check: (result: boolean) => boolean
+): boolean {
+  for (const [key, value] of a) {
+    const result = Map.prototype.has.call(b, key)
+      ? compare(value, Map.prototype.get.call(b, key), [...path, key], comparison)
+      : record(comparison, { type: 'removed', path: [...path, key], before: value });
+    if (!check(result)) return false;
+  }
+  for (const [key, value] of b) {
+    if (!Map.prototype.has.call(a, key) && !check(record(comparison, { type: 'added', path: [...path, key], after: value }))) return false;
+  }
+  return true;
+}
+
+/**
+ * Compares Set items. Items are matched by identity first; the remaining object items are matched
+ * with any structurally equal item of the other Set.
+ */
+function compareSets(
+  a: Set<unknown>,
+  b: Set<unknown>,
+  path: unknown[],
+  comparison: Comparison,
+  check: (result: boolean) => boolean
+): boolean {
+  const unmatched = Array.from(b).filter((item) => !Set.prototype.has.call(a, item));
+  for (const item of a) {
+    if (Set.prototype.has.call(b, item)) continue;
+    const index = unmatched.findIndex((candidate) => equals(item, candidate));
+    if (index !== -1) {
+      unmatched.splice(index, 1);
+      continue;
+    }
+    if (!check(record(comparison, { type: 'removed', path, before: item }))) return false;
+  }
+  for (const item of unmatched) {
+    if (!check(record(comparison, { type: 'added', path, after: item }))) return false;
+  }
+  return true;
+}
@@ -0,0 +1,138 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { ReflectionClass } from "./reflection.ts";
+import { mix, use } from "./traits.ts";
+
+class Model {
+  save(): string { return 'saved'; }
+  touch(): string { return 'model touch'; }
+}
+
+class Timestamps {
+  updatedAt: Date | null = null;
+  touch(this: any): string { this.updatedAt = new Date(0); return 'touched'; }
+  get age(): number { return 0; }
+  static timestamped(): boolean { return true; }
+}
+
+class SoftDeletes {
+  delete(): string { return 'soft deleted'; }
+  static withTrashed(): string { return 'with trashed'; }
+}
+
+class ConsoleLogger {
+  log(): string { return 'console'; }
+}
+
+class FileLogger {
+  log(): string { return 'file'; }
+  flush(): void { }
+}
+
+describe('Traits', () => {
+  describe('mix()', () => {
+    class Post extends mix(Model, Timestamps, SoftDeletes) {
+      publish(): string { return 'published'; }
+    }
+
+    it('should compose instance and static members over the base class', () => {
+      const post = new Post();
+      assert.ok(post instanceof Model);
+      assert.strictEqual(post.touch(), 'touched');
+      assert.strictEqual(post.delete(), 'soft deleted');
+      assert.strictEqual(post.save(), 'saved');
+      assert.strictEqual((Post as any).withTrashed(), 'with trashed');
+      assert.strictEqual(post.updatedAt?.getTime(), 0);
+      assert.strictEqual(new ReflectionClass(Post).getParentClassName(), 'ModelWithTimestampsSoftDeletes');
+    });
+
+    it('should report traits and where each member came from', () => {
+      const reflection = new ReflectionClass(Post);
+      assert.deepStrictEqual(reflection.getTraits(), [Timestamps, SoftDeletes]);
+      assert.strictEqual(reflection.usesTrait(SoftDeletes), true);
+      assert.strictEqual(reflection.usesTrait(ConsoleLogger), false);
+
+      const instance = new ReflectionClass(new Post());
+      assert.strictEqual(instance.getMethod('touch')?.getTrait(), Timestamps);
+      assert.strictEqual(instance.getMethod('save')?.getTrait(), null);
+      assert.strictEqual(instance.getMethod('publish')?.getTrait(), null);
+      assert.strictEqual(instance.getProperty('age')?.getTrait(), Timestamps);
+      assert.strictEqual(reflection.getMethod('withTrashed')?.getTrait(), SoftDeletes);
+      assert.deepStrictEqual(reflection.members().fromTrait().names(), ['age', 'delete', 'touch', 'timestamped', 'withTrashed']);
+      assert.deepStrictEqual(reflection.members().methods().instance().fromTrait(SoftDeletes).names(), ['delete']);
+    });
+  });
+
+  describe('Conflict resolution', () => {
+    it('should reject conflicts that are not resolved', () => {
+      assert.throws(() => mix(Object, ConsoleLogger, FileLogger), {
+        name: 'InvalidArgumentError',
+        code: 'ERR_INVALID_ARGUMENT',
+        target: 'ObjectWithConsoleLoggerFileLogger',
+        member: 'log',
+        message: 'Trait conflict in ObjectWithConsoleLoggerFileLogger: log is defined by ConsoleLogger and FileLogger; resolve it with insteadof.',
+      });
+    });
+
+    it('should resolve conflicts with insteadof and aliases', () => {
+      const Logger = mix(Object, [ConsoleLogger, FileLogger], {
+        insteadof: { log: FileLogger },
+        aliases: { consoleLog: [ConsoleLogger, 'log'] },
+      });
+      const logger: any = new Logger();
+      assert.strictEqual(logger.log(), 'file');
+      assert.strictEqual(logger.consoleLog(), 'console');
+      const reflection = new ReflectionClass(Logger.prototype);
+      assert.strictEqual(reflection.getMethod('log')?.getTrait(), FileLogger);
+      assert.strictEqual(reflection.getMethod('consoleLog')?.getTrait(), ConsoleLogger);
+    });
+
+    it('should reject rules that do not match the traits', () => {
+      assert.throws(() => mix(Object, [ConsoleLogger], { insteadof: { log: FileLogger } }), /FileLogger is not one of the traits/);
+      assert.throws(() => mix(Object, [ConsoleLogger], { aliases: { write: [ConsoleLogger, 'write'] } }), /ConsoleLogger has no member write/);
+      assert.throws(() => mix(Object, [ConsoleLogger, FileLogger], {
+        insteadof: { log: FileLogger },
+        aliases: { flush: [ConsoleLogger, 'log'] },
+      }), /a trait already defines flush/);
+    });
+  });
+
+  describe('use()', () => {
+    it('should compose into the class, keeping members the class declares', () => {
+      class Article extends Model {
+        static { use(Timestamps, SoftDeletes)(this); }
+        delete(): string { return 'hard deleted'; }
+      }
+      const article = new Article();
+      assert.strictEqual(article.delete(), 'hard deleted');
+      assert.strictEqual((article as any).touch(), 'touched');
+      const reflection = new ReflectionClass(article);
+      assert.strictEqual(reflection.getMethod('delete')?.getTrait(), null);
+      assert.strictEqual(reflection.getMethod('touch')?.getTrait(), Timestamps);
+      assert.deepStrictEqual(new ReflectionClass(Article).getTraits(), [Timestamps, SoftDeletes]);
+    });
+
+    it('should find traits used by traits and by parent classes', () => {
+      class Auditable {
+        static { use(Timestamps)(this); }
+        audit(): void { }
+      }
+      class Invoice extends mix(Model, Auditable) { }
+      class Credit extends Invoice { }
+      const reflection = new ReflectionClass(Credit);
+      assert.deepStrictEqual(reflection.getTraits(), [Auditable]);
+      assert.strictEqual(reflection.usesTrait(Timestamps), true);
+      assert.strictEqual(new ReflectionClass(new Credit()).getMethod('touch')?.getTrait(), Auditable);
+    });
+
+    it('should stop reporting a member as composed once it is redefined', () => {
+      class Page {
+        static { use(SoftDeletes)(this); }
+      }
+      const reflection = new ReflectionClass(Page.prototype);
+      assert.strictEqual(reflection.getMethod('delete')?.getTrait(), SoftDeletes);
+      (Page.prototype as any).delete = () => 'replaced';
+      assert.strictEqual(reflection.getMethod('delete')?.getTrait(), null);
+    });
+  });
+});
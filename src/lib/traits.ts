@@ -0,0 +1,291 @@
+import { InvalidArgumentError, NotAClassError } from "./errors.ts";
+import { CLASS_ID } from "./identity.ts";
+import { formatKey, isBuiltinFunctionProperty, type MemberKey } from "./keys.ts";
+import { invalidate } from "./member-cache.ts";
+
+/**
+ * The key under which a class records the traits composed into it.
+ */
+const TRAITS = Symbol.for('@devalade/reflection:traits');
+
+/**
+ * Keys of bookkeeping properties that belong to the trait itself and are never composed.
+ */
+const NOT_COMPOSED: ReadonlySet<MemberKey> = new Set([
+  TRAITS,
+  CLASS_ID,
+  Symbol.for('@devalade/reflection:brand'),
+]);
+
+/**
+ * @interface TraitRules
+ * @description Resolves conflicts between traits, like PHP's `insteadof` and `as`.
+ */
+export interface TraitRules {
+  /**
+   * The trait whose member wins when several traits define it, keyed by member name,
+   * e.g. `{ log: FileLogger }` for PHP's `FileLogger::log insteadof ConsoleLogger`.
+   */
+  insteadof?: { readonly [member: string | symbol]: Function };
+  /**
+   * Additional names for trait members, e.g. `{ consoleLog: [ConsoleLogger, 'log'] }`
+   * for PHP's `ConsoleLogger::log as consoleLog`. Aliases also work for members excluded by `insteadof`.
+   */
+  aliases?: { readonly [alias: string | symbol]: readonly [trait: Function, member: MemberKey] };
+}
+
+/**
+ * Where a composed member came from.
+ */
+export interface TraitOrigin {
+  /** The trait defining the member. */
+  trait: Function;
+  /** The name of the member in the trait; differs from the composed name for aliases. */
+  name: MemberKey;
+}
+
+/**
+ * A member composed into a class, with its origin.
+ */
+interface ComposedMember extends TraitOrigin {
+  key: MemberKey;
+  isStatic: boolean;
+  descriptor: PropertyDescriptor;
+}
+
+/**
+ * The traits composed into a class, stored on the class under `TRAITS`.
+ */
+interface TraitRecord {
+  traits: Function[];
+  members: ComposedMember[];
+}
+
+/**
+ * Turns a union of types into their intersection.
+ */
+type Intersect<U> = (U extends any ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
+/**
+ * A class created by `mix()`: the base class, whose instances also have the instance members of the traits.
+ */
+export type Mixed<B extends abstract new (...args: any[]) => any, Traits extends Function[]> = Omit<B, 'prototype'> & {
+  new (...args: ConstructorParameters<B>): InstanceType<B> & TraitInstance<Traits>;
+  prototype: InstanceType<B> & TraitInstance<Traits>;
+};
+
+/**
+ * The instance members the traits contribute.
+ */
+type TraitInstance<Traits extends Function[]> = Intersect<Traits[number] extends { prototype: infer P } ? P : never>;
+
+/**
+ * Creates a subclass of `base` with the members of the traits. Traits are classes: their own prototype
+ * members become instance members and their own static members become static members; instance fields
+ * and constructors are not composed. Trait members override members inherited from `base`.
+ * A member defined by several traits is a conflict and must be resolved with `TraitRules`.
+ * @example
+ * ```ts
+ * class Post extends mix(Model, Timestamps, SoftDeletes) { }
+ * class Logger extends mix(Object, [ConsoleLogger, FileLogger], {
+ *   insteadof: { log: FileLogger },
+ *   aliases: { consoleLog: [ConsoleLogger, 'log'] },
+ * }) { }
+ * ```
+ * @param {Function} base - The class to extend.
+ * @param {...Function} traits - The traits, or an array of traits followed by the rules.
+ * @returns {Function} The composed class.
+ * @throws {NotAClassError} If the base or a trait is not a class.
+ * @throws {InvalidArgumentError} If traits conflict or the rules do not match the traits.
+ */
+export function mix<B extends abstract new (...args: any[]) => any, Traits extends Function[]>(base: B, ...traits: Traits): Mixed<B, Traits>;
+export function mix<B extends abstract new (...args: any[]) => any, Traits extends Function[]>(base: B, traits: [...Traits], rules: TraitRules): Mixed<B, Traits>;
+export function mix(base: abstract new (...args: any[]) => any, ...args: any[]): Function {
+  const [traits, rules] = traitArguments(args);
+  if (typeof base !== 'function') {
+    throw new NotAClassError('mix() expects a base class.');
+  }
+  const Composed = class extends (base as new (...args: any[]) => any) { };
+  Object.defineProperty(Composed, 'name', {
+    value: `${base.name || '[Anonymous]'}With${traits.map((trait) => trait.name || '[Anonymous]').join('')}`,
+  });
+  compose(Composed, traits, rules, true);
+  return Composed;
+}
+
+/**
+ * Class decorator composing traits into the decorated class itself. Members the class declares
+ * take precedence over trait members; trait members override inherited ones. Without decorator
+ * support, call it from a static block: `static { use(Timestamps)(this); }`.
+ * @param {...Function} traits - The traits, or an array of traits followed by the rules.
+ * @returns A class decorator.
+ * @throws {NotAClassError} If a trait or the decorated value is not a class.
+ * @throws {InvalidArgumentError} If traits conflict or the rules do not match the traits.
+ */
+export function use(...traits: Function[]): (value: Function, context?: ClassDecoratorContext) => void;
+export function use(traits: Function[], rules: TraitRules): (value: Function, context?: ClassDecoratorContext) => void;
+export function use(...args: any[]): (value: Function, context?: ClassDecoratorContext) => void {
+  const [traits, rules] = traitArguments(args);
+  return (value: Function) => {
+    if (typeof value !== 'function') {
+      throw new NotAClassError('use() can only decorate classes.');
+    }
+    compose(value, traits, rules, false);
+  };
+}
+
+/**
+ * Gets the traits composed into a class itself, in the order they were given.
+ * @param {Function} type - The class.
+ * @returns {Function[]} The traits.
+ */
+export function getOwnTraits(type: Function): Function[] {
+  return [...(ownRecord(type)?.traits ?? [])];
+}
+
+/**
+ * Gets where a member of a class was composed from.
+ * @param {Function} type - The class the member was composed into.
+ * @param {MemberKey} key - The member name.
+ * @param {boolean} isStatic - Whether the member is static.
+ * @param {PropertyDescriptor} descriptor - The current descriptor of the member; a member redefined
+ * since it was composed no longer comes from the trait.
+ * @returns {TraitOrigin|null} The trait and member name, or null if the member was not composed from a trait.
+ */
+export function getTraitOrigin(type: Function, key: MemberKey, isStatic: boolean, descriptor: PropertyDescriptor): TraitOrigin | null {
+  const member = ownRecord(type)?.members.find((candidate) => candidate.key === key && candidate.isStatic === isStatic);
+  if (!member || !sameDescriptor(member.descriptor, descriptor)) return null;
+  return { trait: member.trait, name: member.name };
+}
+
+/**
+ * Splits the arguments of `mix()` and `use()` into traits and rules.
+ */
+function traitArguments(args: any[]): [Function[], TraitRules] {
+  const [traits, rules] = Array.isArray(args[0]) ? [args[0], args[1] ?? {}] : [args, {}];
+  for (const trait of traits) {
+    if (typeof trait !== 'function') {
+      throw new NotAClassError('Traits must be classes.');
+    }
+  }
+  return [traits, rules];
+}
+
+/**
+ * Gets the trait record a class owns.
+ */
+function ownRecord(type: Function): TraitRecord | undefined {
+  return Object.getOwnPropertyDescriptor(type, TRAITS)?.value;
+}
+
+/**
+ * Checks if two descriptors describe the same member.
+ */
+function sameDescriptor(a: PropertyDescriptor, b: PropertyDescriptor): boolean {
+  return a.value === b.value && a.get === b.get && a.set === b.set;
+}
+
+/**
+ * Lists the members a trait contributes to one side: its own prototype or static members.
+ */
+function traitMembers(trait: Function, isStatic: boolean): Map<MemberKey, PropertyDescriptor> {
+  const members = new Map<MemberKey, PropertyDescriptor>();
+  const holder = isStatic ? trait : trait.prototype;
+  if (holder === null || (typeof holder !== 'object' && typeof holder !== 'function')) return members;
+  const metadataKey = (Symbol as any).metadata;
+  for (const key of Reflect.ownKeys(holder)) {
+    if (NOT_COMPOSED.has(key) || (isStatic && key === metadataKey) || (!isStatic && key === 'constructor')) continue;
+    const descriptor = Object.getOwnPropertyDescriptor(holder, key)!;
+    if (isStatic && isBuiltinFunctionProperty(key, descriptor.enumerable === true)) continue;
+    members.set(key, descriptor);
+  }
+  return members;
+}
+
+/**
+ * Composes traits into a class and records where each member came from.
+ * @param {Function} type - The class to compose into.
+ * @param {Function[]} traits - The traits.
+ * @param {TraitRules} rules - The conflict resolution rules.
+ * @param {boolean} overrideOwn - Whether trait members replace members the class declares itself.
+ */
+function compose(type: Function, traits: Function[], rules: TraitRules, overrideOwn: boolean): void {
+  const className = type.name || '[Anonymous]';
+  for (const key of Reflect.ownKeys(rules.insteadof ?? {})) {
+    if (!traits.includes(rules.insteadof![key])) {
+      throw new InvalidArgumentError(`Cannot resolve ${className}.${formatKey(key)}: ${rules.insteadof![key].name || '[Anonymous]'} is not one of the traits.`, {
+        target: className,
+        member: key,
+      });
+    }
+  }
+
+  const composed: ComposedMember[] = [];
+  for (const isStatic of [false, true]) {
+    const candidates = new Map<MemberKey, { trait: Function; descriptor: PropertyDescriptor }[]>();
+    for (const trait of traits) {
+      for (const [key, descriptor] of traitMembers(trait, isStatic)) {
+        candidates.set(key, [...(candidates.get(key) ?? []), { trait, descriptor }]);
+      }
+    }
+    for (const [key, definitions] of candidates) {
+      let chosen = definitions[0];
+      if (definitions.length > 1) {
+        const winner = rules.insteadof?.[key];
+        const resolved = definitions.find((definition) => definition.trait === winner);
+        if (!resolved) {
+          const names = definitions.map((definition) => definition.trait.name || '[Anonymous]').join(' and ');
+          throw new InvalidArgumentError(`Trait conflict in ${className}: ${formatKey(key)} is defined by ${names}; resolve it with insteadof.`, {
+            target: className,
+            member: key,
+          });
+        }
+        chosen = resolved;
+      }
+      composed.push({ key, isStatic, trait: chosen.trait, name: key, descriptor: chosen.descriptor });
+    }
+  }
+
+  for (const alias of Reflect.ownKeys(rules.aliases ?? {})) {
+    const [trait, name] = rules.aliases![alias];
+    if (!traits.includes(trait)) {
+      throw new InvalidArgumentError(`Cannot alias ${className}.${formatKey(alias)}: ${trait.name || '[Anonymous]'} is not one of the traits.`, {
+        target: className,
+        member: alias,
+      });
+    }
+    let found = false;
+    for (const isStatic of [false, true]) {
+      const descriptor = traitMembers(trait, isStatic).get(name);
+      if (!descriptor) continue;
+      if (composed.some((member) => member.key === alias && member.isStatic === isStatic)) {
+        throw new InvalidArgumentError(`Cannot alias ${className}.${formatKey(alias)}: a trait already defines ${formatKey(alias)}.`, {
+          target: className,
+          member: alias,
+        });
+      }
+      composed.push({ key: alias, isStatic, trait, name, descriptor });
+      found = true;
+    }
+    if (!found) {
+      throw new InvalidArgumentError(`Cannot alias ${className}.${formatKey(alias)}: ${trait.name || '[Anonymous]'} has no member ${formatKey(name)}.`, {
+        target: className,
+        member: alias,
+      });
+    }
+  }
+
+  const record: TraitRecord = ownRecord(type) ?? { traits: [], members: [] };
+  for (const member of composed) {
+    const holder = member.isStatic ? type : type.prototype;
+    if (!overrideOwn && Object.hasOwn(holder, member.key)) continue;
+    Object.defineProperty(holder, member.key, member.descriptor);
+    record.members = record.members.filter((existing) => existing.key !== member.key || existing.isStatic !== member.isStatic);
+    record.members.push(member);
+  }
+  record.traits.push(...traits.filter((trait) => !record.traits.includes(trait)));
+  if (!Object.hasOwn(type, TRAITS)) {
+    Object.defineProperty(type, TRAITS, { value: record, writable: false, enumerable: false, configurable: false });
+  }
+  invalidate(type);
+}
@@ -0,0 +1,214 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { InvalidArgumentError, ReadOnlyMemberError } from "./errors.ts";
+import { ReflectionClass } from "./reflection.ts";
+import { Guarded, PROPERTY_TYPE, Validate, ValidationError, type PropertyTypes } from "./validation.ts";
+import { defineMetadata } from "./metadata.ts";
+
+(Symbol as any).metadata ??= Symbol('Symbol.metadata');
+
+class Address {
+  static schema = { street: String, city: String, zip: { optional: String } };
+  street = '';
+  city = '';
+  zip?: string;
+}
+
+class User {
+  static schema: PropertyTypes = {
+    name: String,
+    age: Number,
+    role: { enum: ['admin', 'member'] },
+    tags: [String],
+    addresses: [Address],
+    manager: { optional: User },
+  };
+  name = '';
+  age = 0;
+  role = 'member';
+  tags: string[] = [];
+  addresses: Address[] = [];
+  manager: User | null = null;
+}
+
+class Admin extends User {
+  static schema: PropertyTypes = { role: { enum: ['admin'] }, permissions: [{ enum: ['read', 'write'] }] };
+  role = 'admin';
+  permissions: string[] = [];
+}
+
+/**
+ * Creates a valid user.
+ */
+function createUser(): User {
+  const user = Object.assign(new User(), { name: 'Ada', age: 36, tags: ['math'] });
+  user.addresses.push(Object.assign(new Address(), { street: 'St James Sq', city: 'London' }));
+  return user;
+}
+
+describe('Validation', () => {
+  it('should merge the property types of a class and its ancestors', () => {
+    const types = new ReflectionClass(Admin).getPropertyTypes();
+    assert.deepStrictEqual(Array.from(types.keys()), ['name', 'age', 'role', 'tags', 'addresses', 'manager', 'permissions']);
+    assert.deepStrictEqual(types.get('role'), { enum: ['admin'] });
+    assert.strictEqual(new ReflectionClass(createUser()).getPropertyTypes().get('manager') !== undefined, true);
+    assert.strictEqual(new ReflectionClass(class Untyped { }).getPropertyTypes().size, 0);
+  });
+
+  it('should list every invalid value with its path', () => {
+    const reflection = new ReflectionClass(User);
+    const user = createUser();
+    assert.strictEqual(reflection.validate(user).length, 0);
+
+    Object.assign(user, { age: '36', role: 'owner', tags: ['math', 1], manager: Object.assign(new User(), { name: null }) });
+    user.addresses[0].city = undefined as any;
+    user.addresses.push({ street: 'Main St', city: 'Paris' } as Address);
+    assert.deepStrictEqual(reflection.validate(user).map((issue) => issue.message), [
+      'age: expected number, found string',
+      "role: expected one of 'admin', 'member', found 'owner'",
+      'tags.1: expected string, found number',
+      'addresses.0.city: expected string, found undefined',
+      'addresses.1: expected Address, found Object',
+      'manager.name: expected string, found null',
+    ]);
+    assert.deepStrictEqual(reflection.validate(user)[3].path, ['addresses', 0, 'city']);
+    assert.deepStrictEqual(reflection.validate(42).map((issue) => issue.message), ['(root): expected User, found number']);
+  });
+
+  it('should validate cyclic instances once', () => {
+    const user = createUser();
+    user.manager = user;
+    assert.strictEqual(new ReflectionClass(User).validate(user).length, 0);
+  });
+
+  it('should throw a ValidationError listing the issues', () => {
+    const admin = Object.assign(new Admin(), { name: 'Grace', permissions: ['read', 'delete'] });
+    admin.role = 'member';
+    assert.throws(() => new ReflectionClass(Admin).assertValid(admin), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.strictEqual(error.code, 'ERR_VALIDATION');
+      assert.strictEqual(error.target, 'Admin');
+      assert.strictEqual(error.message, [
+        'Admin is not valid:',
+        "  - role: expected one of 'admin', found 'member'",
+        "  - permissions.1: expected one of 'read', 'write', found 'delete'",
+      ].join('\n'));
+      assert.strictEqual(error.issues.length, 2);
+      return true;
+    });
+    class Broken {
+      static schema = { id: 'number' };
+    }
+    assert.throws(() => new ReflectionClass(Broken).validate(new Broken()), InvalidArgumentError);
+  });
+
+  it('should read property types declared with the Validate decorator', () => {
+    class Invoice {
+      static schema = { total: String };
+      total: unknown = 0;
+      issuedAt: unknown = null;
+    }
+    const context = { kind: 'field', name: 'total', static: false, private: false, metadata: {}, access: {}, addInitializer() { } };
+    Validate(() => Number)(undefined, context as any);
+    Object.defineProperty(Invoice, (Symbol as any).metadata, { value: context.metadata });
+    defineMetadata(PROPERTY_TYPE, () => Date, Invoice.prototype, 'issuedAt');
+
+    const reflection = new ReflectionClass(Invoice);
+    assert.deepStrictEqual(reflection.getPropertyTypes(), new Map<string, unknown>([['total', Number], ['issuedAt', Date]]));
+    assert.deepStrictEqual(reflection.validate(new Invoice()).map((issue) => issue.message), ['issuedAt: expected Date, found null']);
+  });
+
+  describe('guard()', () => {
+    it('should reject invalid assignments to a guarded instance', () => {
+      const user = createUser();
+      const guard = new ReflectionClass(user).guard();
+      assert.deepStrictEqual(guard.getProperties(), ['name', 'age', 'role', 'tags', 'addresses', 'manager']);
+      assert.throws(() => { user.age = 'old' as any; }, {
+        name: 'ValidationError',
+        message: 'User is not valid:\n  - age: expected number, found string',
+      });
+      assert.throws(() => { user.addresses = [{} as Address]; }, /addresses\.0: expected Address, found Object/);
+      user.age = 37;
+      assert.strictEqual(user.age, 37);
+      assert.deepStrictEqual(Object.keys(user), ['name', 'age', 'role', 'tags', 'addresses', 'manager']);
+
+      guard.restore();
+      assert.strictEqual(guard.isActive(), false);
+      assert.strictEqual(Object.getOwnPropertyDescriptor(user, 'age')?.value, 37);
+      user.age = 'old' as any;
+      assert.strictEqual(user.age, 'old');
+    });
+
+    it('should install accessors on the prototype for properties instances do not own', () => {
+      class Account {
+        static schema = { email: String, plan: { enum: ['free', 'pro'] } };
+        declare email: string;
+        #plan = 'free';
+        get plan(): string { return this.#plan; }
+        set plan(value: string) { this.#plan = value; }
+      }
+      const guard = new ReflectionClass(Account).guard();
+      const account = new Account();
+      account.email = 'ada@example.com';
+      assert.strictEqual(account.email, 'ada@example.com');
+      assert.throws(() => { account.email = 1 as any; }, ValidationError);
+      assert.throws(() => { account.plan = 'gold'; }, /plan: expected one of 'free', 'pro', found 'gold'/);
+      account.plan = 'pro';
+      assert.strictEqual(account.plan, 'pro');
+      assert.strictEqual(String(guard), 'PropertyGuard for [Account: email, plan]');
+
+      guard.restore();
+      account.plan = 'gold';
+      assert.strictEqual(account.plan, 'gold');
+      assert.strictEqual(Object.getOwnPropertyDescriptor(Account.prototype, 'plan')?.set?.name, 'set plan');
+      assert.strictEqual(Object.hasOwn(Account.prototype, 'email'), false);
+      assert.deepStrictEqual(Object.getOwnPropertyDescriptor(account, 'email'), {
+        value: 'ada@example.com', writable: true, enumerable: true, configurable: true,
+      });
+      account.email = 1 as any;
+      assert.strictEqual(account.email, 1);
+      assert.strictEqual(new Account().email, undefined);
+    });
+
+    it('should not check class fields when guarding a prototype', () => {
+      const guard = new ReflectionClass(User).guard();
+      const user = createUser();
+      user.age = 'old' as any;
+      assert.strictEqual(user.age, 'old');
+      guard.restore();
+    });
+
+    it('should guard every instance of a Guarded class as it is constructed', () => {
+      const SafeUser = Guarded()(User);
+      const user = new SafeUser();
+      assert.strictEqual(SafeUser.name, 'User');
+      assert.ok(user instanceof User);
+      assert.strictEqual(user.age, 0);
+      assert.deepStrictEqual(Object.keys(user), ['name', 'age', 'role', 'tags', 'addresses', 'manager']);
+      assert.throws(() => { user.age = 'old' as any; }, /age: expected number, found string/);
+      user.name = 'Ada';
+      assert.strictEqual(new ReflectionClass(SafeUser).validate(user).length, 0);
+
+      class Manager extends SafeUser {
+        reports: string[] = [];
+      }
+      const manager = new Manager();
+      manager.age = 'old' as any;
+      assert.strictEqual(manager.age, 'old');
+
+      const SafeAdmin = Guarded()(Admin);
+      assert.throws(() => { new SafeAdmin().permissions = ['delete']; }, /permissions\.0: expected one of 'read', 'write'/);
+      assert.throws(() => { new SafeAdmin().role = 'member'; }, /role: expected one of 'admin', found 'member'/);
+      assert.throws(() => Guarded()(null as any), {
+        name: 'InvalidArgumentError',
+        code: 'ERR_INVALID_ARGUMENT',
+        message: 'Guarded() can only decorate classes.',
+      });
+    });
+
+    it('should refuse properties that cannot be redefined', () => {
+      const address = Object.defineProperty(new Address(), 'city', { value: 'Rome', writable: true, configurable: false });
+      assert.throws(() => new ReflectionClass(address).guard(), ReadOnlyMemberError);
+    });
+  });
+});
@@ -0,0 +1,494 @@
+import { InvalidArgumentError, ReadOnlyMemberError, ReflectionError } from "./errors.ts";
+import { invalidate } from "./member-cache.ts";
+import * as metadata from "./metadata.ts";
+
+/**
+ * Describes the type of a property for validation:
+ * - `String`, `Number`, `Boolean` and `BigInt` check the type of primitive values;
+ * - any other class (`Date` included) checks `instanceof`, then validates the instance against its own property types;
+ * - `[type]` is an array of that type;
+ * - `{ enum: values }` is one of the values;
+ * - `{ optional: type }` also allows `undefined` and `null`.
+ */
+export type PropertyType =
+  | Function
+  | readonly [PropertyType]
+  | { readonly enum: readonly unknown[] }
+  | { readonly optional: PropertyType };
+
+/**
+ * Property types of one class, keyed by property name, as declared in a static `schema` field.
+ */
+export type PropertyTypes = { readonly [property: string]: PropertyType };
+
+/**
+ * @interface ValidationIssue
+ * @description A value that does not match its property type.
+ */
+export interface ValidationIssue {
+  /** Where the value is, from the validated instance down: property names and array indexes. Empty for the instance itself. */
+  path: (string | number)[];
+  expected: string;
+  actual: string;
+  message: string;
+}
+
+/**
+ * The metadata key under which the `Validate` decorator stores property types.
+ */
+export const PROPERTY_TYPE = Symbol('reflection:propertyType');
+
+/**
+ * Decorator declaring the type of a field (or accessor) for validation.
+ * The type is given as a function so classes can refer to classes declared later.
+ * Member decorators need `Symbol.metadata`, see `Meta`.
+ * @example
+ * ```ts
+ * class User {
+ *   @Validate(() => String) name = '';
+ *   @Validate(() => ({ enum: ['admin', 'member'] })) role = 'member';
+ *   @Validate(() => [Address]) addresses: Address[] = [];
+ * }
+ * ```
+ * @param {() => PropertyType} type - Returns the property type.
+ * @returns A standard member decorator.
+ */
+export function Validate(type: () => PropertyType) {
+  return metadata.Meta(PROPERTY_TYPE, type);
+}
+
+/**
+ * Class decorator guarding every instance as it is constructed, so invalid assignments to its typed
+ * properties throw a `ValidationError`, class fields included. It returns a subclass that guards each
+ * instance once the constructor has run, with the name of the decorated class. Subclasses define their
+ * fields after that constructor returns, so they are only guarded when decorated themselves.
+ * Without decorator support, wrap the class: `const SafeUser = Guarded()(User)`.
+ * @example
+ * ```ts
+ * @Guarded()
+ * class User {
+ *   static schema: PropertyTypes = { name: String, age: Number };
+ *   name = '';
+ *   age = 0;
+ * }
+ * new User().age = 'forty'; // throws ValidationError
+ * ```
+ * @returns A class decorator.
+ * @throws {InvalidArgumentError} If the decorated value is not a class.
+ */
+export function Guarded() {
+  return <T extends abstract new (...args: any[]) => object>(value: T): T => {
+    if (typeof value !== 'function') {
+      throw new InvalidArgumentError('Guarded() can only decorate classes.');
+    }
+    const name = value.name || '[Anonymous]';
+    // Resolved on first construction, so `Validate` thunks may refer to classes declared later
+    let types: Map<string, PropertyType> | undefined;
+    const GuardedClass = class extends (value as unknown as new (...args: any[]) => object) {
+      constructor(...args: any[]) {
+        super(...args);
+        if (new.target === GuardedClass) {
+          new PropertyGuard(this, name, types ??= propertyTypesOf(value));
+        }
+      }
+    };
+    Object.defineProperty(GuardedClass, 'name', { value: value.name });
+    return GuardedClass as unknown as T;
+  };
+}
+
+/**
+ * Property types standing for primitive values, with the `typeof` result they expect.
+ */
+const PRIMITIVE_TYPES = new Map<Function, string>([
+  [String, 'string'],
+  [Number, 'number'],
+  [Boolean, 'boolean'],
+  [BigInt, 'bigint'],
+]);
+
+/**
+ * @class ValidationError
+ * @description Thrown when an instance, or a value assigned to a guarded property, does not match its property types.
+ */
+export class ValidationError extends ReflectionError {
+  /**
+   * @type {ValidationIssue[]}
+   * The invalid values found.
+   */
+  issues: ValidationIssue[];
+
+  /**
+   * Creates an instance of ValidationError.
+   * @param {string} target - The name of the validated class.
+   * @param {ValidationIssue[]} issues - The invalid values found.
+   */
+  constructor(target: string, issues: ValidationIssue[]) {
+    super(
+      'ERR_VALIDATION',
+      `${target} is not valid:\n` + issues.map((issue) => `  - ${issue.message}`).join('\n'),
+      { target }
+    );
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Walks the class chain starting at a constructor: the class, its parent class, and so on.
+ */
+function classChain(type: Function): Function[] {
+  const chain: Function[] = [];
+  for (let current: unknown = type; typeof current === 'function' && current !== Function.prototype; current = Object.getPrototypeOf(current)) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+/**
+ * Gets the property types of a class: the static `schema` fields of the class and its ancestors, then the
+ * types declared with `Validate`. Types declared on a subclass override those of its parents, and `Validate`
+ * overrides `schema`.
+ * @param {Function|null} type - The class.
+ * @returns {Map<string, PropertyType>} The property types, keyed by property name.
+ */
+export function propertyTypesOf(type: Function | null): Map<string, PropertyType> {
+  const types = new Map<string, PropertyType>();
+  if (typeof type !== 'function') return types;
+
+  for (const current of classChain(type).reverse()) {
+    // Read from the descriptor, so only a class's own schema counts and getters never run
+    const schema = Object.getOwnPropertyDescriptor(current, 'schema')?.value;
+    if (schema !== null && typeof schema === 'object') {
+      for (const [name, propertyType] of Object.entries(schema)) types.set(name, propertyType as PropertyType);
+    }
+  }
+  if (type.prototype !== null && typeof type.prototype === 'object') {
+    for (const member of metadata.getMetadataMembers(PROPERTY_TYPE, type.prototype)) {
+      const thunk = metadata.getMetadata(PROPERTY_TYPE, type.prototype, member);
+      if (typeof member === 'string' && typeof thunk === 'function') types.set(member, thunk());
+    }
+  }
+  return types;
+}
+
+/**
+ * Validates an instance against the property types of a class.
+ * @param {unknown} instance - The value to validate.
+ * @param {Function} type - The class the value should be an instance of.
+ * @returns {ValidationIssue[]} The invalid values, in property order; empty if the instance is valid.
+ * @throws {InvalidArgumentError} If a property type is malformed.
+ */
+export function validateInstance(instance: unknown, type: Function): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkValue(instance, type, [], issues, new Set());
+  return issues;
+}
+
+/**
+ * Validates a value assigned to a property.
+ * @param {unknown} value - The value.
+ * @param {PropertyType} type - The property type.
+ * @param {string} name - The property name, the first segment of issue paths.
+ * @returns {ValidationIssue[]} The invalid values; empty if the value is valid.
+ * @throws {InvalidArgumentError} If the property type is malformed.
+ */
+export function validateValue(value: unknown, type: PropertyType, name: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkValue(value, type, [name], issues, new Set());
+  return issues;
+}
+
+/**
+ * Checks a value against a property type, recording issues.
+ * @param {unknown} value - The value.
+ * @param {PropertyType} type - The property type.
+ * @param {(string|number)[]} path - Where the value is.
+ * @param {ValidationIssue[]} issues - Receives the issues found.
+ * @param {Set<object>} visiting - The instances being validated, so cycles are validated once.
+ */
+function checkValue(value: unknown, type: PropertyType, path: (string | number)[], issues: ValidationIssue[], visiting: Set<object>): void {
+  const fail = (actual = describeValue(value)) => {
+    issues.push(issueAt(path, describeType(type), actual));
+  };
+
+  if (Array.isArray(type)) {
+    if (!Array.isArray(value)) return fail();
+    value.forEach((item, index) => checkValue(item, type[0], [...path, index], issues, visiting));
+    return;
+  }
+  if (type !== null && typeof type === 'object' && 'optional' in type) {
+    if (value !== undefined && value !== null) checkValue(value, type.optional, path, issues, visiting);
+    return;
+  }
+  if (type !== null && typeof type === 'object' && 'enum' in type && Array.isArray(type.enum)) {
+    if (!type.enum.includes(value)) fail(formatValue(value));
+    return;
+  }
+  if (typeof type !== 'function' || type.prototype === null || typeof type.prototype !== 'object') {
+    throw new InvalidArgumentError(`Invalid property type at ${formatPath(path)}: expected a class, [type], { enum } or { optional }.`);
+  }
+
+  const primitive = PRIMITIVE_TYPES.get(type);
+  if (primitive) {
+    if (typeof value !== primitive) fail();
+    return;
+  }
+  if (!(value instanceof type)) return fail();
+  if (visiting.has(value)) return;
+  visiting.add(value);
+  try {
+    for (const [name, propertyType] of propertyTypesOf(type)) {
+      checkValue((value as any)[name], propertyType, [...path, name], issues, visiting);
+    }
+  } finally {
+    visiting.delete(value);
+  }
+}
+
+/**
+ * Creates an issue.
+ */
+function issueAt(path: (string | number)[], expected: string, actual: string): ValidationIssue {
+  return { path, expected, actual, message: `${formatPath(path)}: expected ${expected}, found ${actual}` };
+}
+
+/**
+ * Formats the path of a value, for messages.
+ */
+function formatPath(path: (string | number)[]): string {
+  return path.length > 0 ? path.join('.') : '(root)';
+}
+
+/**
+ * Describes a property type, for messages, e.g. `string[]` or `one of 'admin', 'member'`.
+ */
+function describeType(type: PropertyType): string {
+  if (Array.isArray(type)) {
+    const item = describeType(type[0]);
+    return /\s/.test(item) ? `(${item})[]` : `${item}[]`;
+  }
+  if (typeof type === 'function') return PRIMITIVE_TYPES.get(type) ?? (type.name || '[Anonymous]');
+  if ('optional' in type) return `${describeType(type.optional)} | undefined`;
+  return `one of ${(type as { enum: readonly unknown[] }).enum.map(formatValue).join(', ')}`;
+}
+
+/**
+ * Describes the type of a value, for messages: `null`, `undefined`, `array`, the `typeof` of other
+ * primitives and functions, or the class name of objects.
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value !== 'object') return typeof value;
+  const constructorFn = Object.getPrototypeOf(value)?.constructor;
+  return typeof constructorFn === 'function' && constructorFn.name ? constructorFn.name : 'object';
+}
+
+/**
+ * Formats an enum value, or a value that is not one of them, for messages.
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return `'${value}'`;
+  if (value !== null && typeof value === 'object') return describeValue(value);
+  return String(value);
+}
+
+/**
+ * A property guarded by a guard.
+ */
+interface GuardedProperty {
+  name: string;
+  /** The own property the guard replaced, or undefined if there was none. */
+  descriptor: PropertyDescriptor | undefined;
+  /** The installed getter, to tell whether the property was replaced since. */
+  getter: () => unknown;
+  /** Whether the guard stores the values itself, rather than calling an existing setter. */
+  stored: boolean;
+  /** The instances a prototype guard stored values for, so `restore()` can give them their values back. */
+  owners: Set<WeakRef<object>>;
+}
+
+/**
+ * @class PropertyGuard
+ * @description Replaces properties of a prototype or instance with accessors that validate assigned values,
+ * so invalid assignments throw a `ValidationError` immediately.
+ * Created by `ReflectionClass#guard()`; `restore()` stops the checks.
+ * @example
+ * ```ts
+ * const guard = new ReflectionClass(user).guard();
+ * user.age = 'forty'; // throws ValidationError
+ * guard.restore();
+ * ```
+ */
+export class PropertyGuard {
+  /**
+   * @type {object}
+   * @private
+   * The prototype or instance the accessors are installed on.
+   */
+  private _target: object;
+
+  /**
+   * @type {string}
+   * @private
+   * The name of the guarded class, used in messages.
+   */
+  private _name: string;
+
+  /**
+   * @type {GuardedProperty[]}
+   * @private
+   * The guarded properties.
+   */
+  private _installed: GuardedProperty[] = [];
+
+  /**
+   * @type {boolean}
+   * @private
+   * Whether assigned values are still checked.
+   */
+  private _active = true;
+
+  /**
+   * Creates an instance of PropertyGuard and installs the accessors.
+   * Data properties become accessors storing the value; existing accessors are wrapped so their setter
+   * only runs for valid values. Read-only properties are left alone.
+   * @param {object} target - The prototype or instance to install the accessors on.
+   * @param {string} name - The name of the guarded class.
+   * @param {Map<string, PropertyType>} types - The property types.
+   * @throws {ReadOnlyMemberError} If one of the properties cannot be redefined on the target.
+   */
+  constructor(target: object, name: string, types: ReadonlyMap<string, PropertyType>) {
+    this._target = target;
+    this._name = name;
+
+    for (const property of types.keys()) {
+      const descriptor = Object.getOwnPropertyDescriptor(target, property);
+      if (descriptor ? !descriptor.configurable : !Object.isExtensible(target)) {
+        throw new ReadOnlyMemberError(`Cannot guard ${name}.${property}: the property cannot be redefined.`, {
+          target: name,
+          member: property,
+        });
+      }
+    }
+
+    const isPrototype = isPrototypeObject(target);
+    for (const [property, type] of types) {
+      const descriptor = Object.getOwnPropertyDescriptor(target, property);
+      const source = descriptor ?? findDescriptor(Object.getPrototypeOf(target), property);
+      if (source && ('value' in source ? !source.writable : !source.set)) continue;
+
+      const guard = this;
+      const check = (value: unknown) => {
+        const issues = guard._active ? validateValue(value, type, property) : [];
+        if (issues.length > 0) throw new ValidationError(name, issues);
+      };
+      let getter: () => unknown;
+      let setter: (value: unknown) => void;
+      const owners = new Set<WeakRef<object>>();
+      if (source && !('value' in source)) {
+        const { get, set } = source;
+        getter = function (this: object) { return get?.call(this); };
+        setter = function (this: object, value: unknown) { check(value); set!.call(this, value); };
+      } else {
+        const values = new WeakMap<object, unknown>();
+        const initial = source?.value;
+        getter = function (this: object) { return values.has(this) ? values.get(this) : initial; };
+        setter = function (this: object, value: unknown) {
+          check(value);
+          if (isPrototype && !values.has(this)) owners.add(new WeakRef(this));
+          values.set(this, value);
+        };
+      }
+      Object.defineProperty(target, property, {
+        get: getter,
+        set: setter,
+        enumerable: descriptor?.enumerable ?? !isPrototype,
+        configurable: true,
+      });
+      this._installed.push({ name: property, descriptor, getter, stored: !source || 'value' in source, owners });
+    }
+    invalidate(target);
+  }
+
+  /**
+   * Gets the guarded properties.
+   * @returns {string[]} The property names.
+   */
+  getProperties(): string[] {
+    return this._installed.map((installed) => installed.name);
+  }
+
+  /**
+   * Checks if assigned values are still checked.
+   * @returns {boolean} False once `restore()` has been called.
+   */
+  isActive(): boolean {
+    return this._active;
+  }
+
+  /**
+   * Stops checking assigned values and puts the original properties back. On an instance, data properties
+   * get their current value back. On a prototype, instances that were assigned a value through the guard
+   * get it back as an own property.
+   */
+  restore(): void {
+    if (!this._active) return;
+    this._active = false;
+    const isPrototype = isPrototypeObject(this._target);
+    for (const { name, descriptor, getter, stored, owners } of this._installed) {
+      const current = Object.getOwnPropertyDescriptor(this._target, name);
+      if (current?.get !== getter) continue;
+      if (stored && !isPrototype) {
+        const value = getter.call(this._target);
+        if (descriptor || value !== undefined) {
+          Object.defineProperty(this._target, name, { value, writable: true, enumerable: current.enumerable, configurable: true });
+        } else {
+          delete (this._target as any)[name];
+        }
+        continue;
+      }
+      for (const owner of owners) {
+        const instance = owner.deref();
+        // Instances that defined an own property since do not read the stored value any more
+        if (instance && !Object.hasOwn(instance, name)) {
+          Reflect.defineProperty(instance, name, { value: getter.call(instance), writable: true, enumerable: true, configurable: true });
+          invalidate(instance);
+        }
+      }
+      if (descriptor) {
+        Object.defineProperty(this._target, name, descriptor);
+      } else {
+        delete (this._target as any)[name];
+      }
+    }
+    invalidate(this._target);
+  }
+
+  /**
+   * Returns a string representation of the guard.
+   * @returns {string} A string describing the guard.
+   */
+  toString(): string {
+    return `PropertyGuard for [${this._name}: ${this.getProperties().join(', ')}]`;
+  }
+}
+
+/**
+ * Checks if an object is the prototype of its own constructor, rather than an instance.
+ */
+function isPrototypeObject(target: object): boolean {
+  return Object.hasOwn(target, 'constructor') && (target as any).constructor?.prototype === target;
+}
+
+/**
+ * Finds a property descriptor on a prototype chain.
+ */
+function findDescriptor(start: object | null, name: string): PropertyDescriptor | undefined {
+  for (let current = start; current; current = Object.getPrototypeOf(current)) {
+    const descriptor = Object.getOwnPropertyDescriptor(current, name);
+    if (descriptor) return descriptor;
+  }
+  return undefined;
+}